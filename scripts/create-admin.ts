@@ -0,0 +1,67 @@
+import bcrypt from 'bcrypt'
+import prisma from '../src/prisma'
+import { checkPasswordPolicy } from '../src/utils/passwordPolicy'
+
+// Bootstrap the first admin (further admins are promoted through PUT /admin/users/:userId/role).
+// Promotes an existing account, or creates one when a password is given:
+//
+//   npx ts-node scripts/create-admin.ts admin@motortrace.com [password]
+
+async function main() {
+  const [email, password] = process.argv.slice(2)
+  if (!email) {
+    throw new Error('Usage: create-admin.ts <email> [password]')
+  }
+
+  const existing = await prisma.user.findUnique({ where: { email } })
+
+  if (existing) {
+    const admin = await prisma.user.update({
+      where: { id: existing.id },
+      data: {
+        role: 'admin',
+        isRegistrationComplete: true,
+        emailVerifiedAt: existing.emailVerifiedAt || new Date(),
+        suspendedAt: null,
+        suspendedReason: null,
+      },
+    })
+    // Old access tokens still carry the previous role
+    await prisma.session.updateMany({
+      where: { userId: admin.id, revokedAt: null },
+      data: { revokedAt: new Date(), revokedReason: 'role_changed' },
+    })
+    console.log(`Promoted ${admin.email} (id ${admin.id}) to admin`)
+    return
+  }
+
+  if (!password) {
+    throw new Error(`No user with email ${email}; pass a password to create one`)
+  }
+  const passwordErrors = checkPasswordPolicy(password, { email })
+  if (passwordErrors.length > 0) {
+    throw new Error(passwordErrors.join(', '))
+  }
+
+  const hashed = await bcrypt.hash(password, 10)
+  const admin = await prisma.user.create({
+    data: {
+      email,
+      password: hashed,
+      role: 'admin',
+      isRegistrationComplete: true,
+      emailVerifiedAt: new Date(),
+      passwordHistory: { create: { hash: hashed } },
+    },
+  })
+  console.log(`Created admin ${admin.email} (id ${admin.id})`)
+}
+
+main()
+  .catch((error) => {
+    console.error(error)
+    process.exitCode = 1
+  })
+  .finally(async () => {
+    await prisma.$disconnect()
+  })
@@ -0,0 +1,45 @@
+import crypto from 'crypto'
+import fs from 'fs'
+import path from 'path'
+import { JWT_KEYS_DIR, keyThumbprint } from '../src/Services/Token'
+
+// Manage the JWT signing keys in JWT_KEYS_DIR (see src/Services/Token.ts for the rotation steps).
+//
+//   npx ts-node scripts/generate-jwt-key.ts            add a new ES256 private key
+//   npx ts-node scripts/generate-jwt-key.ts retire <kid>  keep only its public key
+
+function generate() {
+  const { privateKey, publicKey } = crypto.generateKeyPairSync('ec', { namedCurve: 'P-256' })
+  const kid = `${new Date().toISOString().slice(0, 10)}-${keyThumbprint(publicKey).slice(0, 8)}`
+
+  fs.mkdirSync(JWT_KEYS_DIR, { recursive: true, mode: 0o700 })
+  const file = path.join(JWT_KEYS_DIR, `${kid}.pem`)
+  fs.writeFileSync(file, privateKey.export({ format: 'pem', type: 'pkcs8' }), { mode: 0o600, flag: 'wx' })
+
+  console.log(`Created ${file}`)
+  console.log(`Start signing with it by setting JWT_ACTIVE_KEY_ID=${kid} and restarting`)
+}
+
+function retire(kid: string) {
+  const file = path.join(JWT_KEYS_DIR, `${path.basename(kid)}.pem`)
+  if (!fs.existsSync(file)) {
+    throw new Error(`No key ${kid} in ${JWT_KEYS_DIR}`)
+  }
+
+  const publicKey = crypto.createPublicKey(fs.readFileSync(file, 'utf8'))
+  fs.writeFileSync(file, publicKey.export({ format: 'pem', type: 'spki' }))
+  console.log(`Key ${kid} can no longer sign; tokens it issued still verify until deleted`)
+}
+
+const [command, kid] = process.argv.slice(2)
+try {
+  if (command === 'retire') {
+    if (!kid) throw new Error('Usage: generate-jwt-key.ts retire <kid>')
+    retire(kid)
+  } else {
+    generate()
+  }
+} catch (error) {
+  console.error(error)
+  process.exitCode = 1
+}
@@ -0,0 +1,82 @@
+import prisma from '../src/prisma'
+import { validateImageUrl } from '../src/utils/validation'
+import { ImageUploadService } from '../src/Services/ImageUpload'
+
+// Move car owner photos out of CarOwnerProfile.imageBase64 into the configured storage
+// (STORAGE_DRIVER and friends, as for the server), then empty the column.
+// Rows holding a link instead of base64 keep the link. Safe to run again.
+//
+//   npx ts-node scripts/migrate-profile-images.ts --dry-run
+//   npx ts-node scripts/migrate-profile-images.ts
+
+const BATCH_SIZE = 50
+
+async function main() {
+  const dryRun = process.argv.includes('--dry-run')
+  let migrated = 0
+  let linked = 0
+  let failed = 0
+  let lastId = 0
+
+  for (;;) {
+    const profiles = await prisma.carOwnerProfile.findMany({
+      where: { id: { gt: lastId }, imageBase64: { not: null } },
+      orderBy: { id: 'asc' },
+      take: BATCH_SIZE,
+    })
+    if (profiles.length === 0) break
+    lastId = profiles[profiles.length - 1].id
+
+    for (const profile of profiles) {
+      const value = profile.imageBase64!.trim()
+
+      // Onboarding stored '' when no photo was given
+      if (!value) {
+        if (!dryRun) await prisma.carOwnerProfile.update({ where: { id: profile.id }, data: { imageBase64: null } })
+        continue
+      }
+
+      if (validateImageUrl(value)) {
+        linked++
+        if (!dryRun) {
+          await prisma.carOwnerProfile.update({
+            where: { id: profile.id },
+            data: { image: profile.image || value, imageBase64: null },
+          })
+        }
+        continue
+      }
+
+      if (dryRun) {
+        migrated++
+        continue
+      }
+
+      const upload = await ImageUploadService.storeBase64('avatar', profile.userId, value)
+      if (!upload.ok) {
+        // Left in place so the data is not lost; fix or clear it by hand
+        failed++
+        console.warn(`Profile ${profile.id} (user ${profile.userId}): ${upload.reason}, left as is`)
+        continue
+      }
+
+      await prisma.carOwnerProfile.update({
+        where: { id: profile.id },
+        data: { image: upload.image.url, imageThumbnail: upload.image.thumbnailUrl, imageBase64: null },
+      })
+      migrated++
+    }
+  }
+
+  const verb = dryRun ? 'Would migrate' : 'Migrated'
+  console.log(`${verb} ${migrated} base64 photo(s) and ${linked} linked photo(s); ${failed} could not be read`)
+}
+
+main()
+  .catch((error) => {
+    console.error(error)
+    process.exitCode = 1
+  })
+  .finally(async () => {
+    await prisma.$disconnect()
+  })
@@ -0,0 +1,143 @@
+import http from 'http'
+import crypto from 'crypto'
+import jwt from 'jsonwebtoken'
+
+// Minimal OpenID Connect provider for exercising the OAuth flow locally.
+// Every authorization request is approved as the same test user.
+//
+//   npx ts-node scripts/mock-oidc-provider.ts
+//   OIDC_MOCK_ISSUER=http://localhost:4010 npm run dev
+//   open http://localhost:3000/auth/oauth/mock
+
+const PORT = parseInt(process.env.MOCK_OIDC_PORT || '4010')
+const ISSUER = process.env.OIDC_MOCK_ISSUER || `http://localhost:${PORT}`
+const CLIENT_ID = process.env.OIDC_MOCK_CLIENT_ID || 'motortrace'
+const CLIENT_SECRET = process.env.OIDC_MOCK_CLIENT_SECRET || 'mock-secret'
+const KEY_ID = 'mock-key'
+
+const TEST_USER = {
+  sub: process.env.MOCK_OIDC_SUBJECT || 'mock-user-1',
+  email: process.env.MOCK_OIDC_EMAIL || 'mock.user@motortrace.com',
+  email_verified: true,
+  name: process.env.MOCK_OIDC_NAME || 'Mock User',
+}
+
+const { privateKey, publicKey } = crypto.generateKeyPairSync('rsa', { modulusLength: 2048 })
+
+// Authorization codes waiting to be exchanged
+const codes = new Map<string, { redirectUri: string; codeChallenge: string; nonce?: string; expiresAt: number }>()
+
+const sendJson = (res: http.ServerResponse, status: number, body: unknown) => {
+  res.writeHead(status, { 'Content-Type': 'application/json' })
+  res.end(JSON.stringify(body))
+}
+
+const readBody = (req: http.IncomingMessage): Promise<URLSearchParams> => {
+  return new Promise((resolve, reject) => {
+    let data = ''
+    req.on('data', chunk => { data += chunk })
+    req.on('end', () => resolve(new URLSearchParams(data)))
+    req.on('error', reject)
+  })
+}
+
+const handleAuthorize = (url: URL, res: http.ServerResponse) => {
+  const params = url.searchParams
+  const redirectUri = params.get('redirect_uri')
+  const codeChallenge = params.get('code_challenge')
+
+  if (params.get('client_id') !== CLIENT_ID || !redirectUri) {
+    return sendJson(res, 400, { error: 'invalid_client' })
+  }
+  if (!codeChallenge || params.get('code_challenge_method') !== 'S256') {
+    return sendJson(res, 400, { error: 'invalid_request', error_description: 'PKCE S256 is required' })
+  }
+
+  const code = crypto.randomBytes(16).toString('hex')
+  codes.set(code, {
+    redirectUri,
+    codeChallenge,
+    nonce: params.get('nonce') || undefined,
+    expiresAt: Date.now() + 60 * 1000,
+  })
+
+  const callback = new URL(redirectUri)
+  callback.searchParams.set('code', code)
+  if (params.get('state')) callback.searchParams.set('state', params.get('state')!)
+
+  res.writeHead(302, { Location: callback.toString() })
+  res.end()
+}
+
+const handleToken = async (req: http.IncomingMessage, res: http.ServerResponse) => {
+  const body = await readBody(req)
+  const code = body.get('code') || ''
+  const pending = codes.get(code)
+  codes.delete(code)
+
+  if (body.get('client_id') !== CLIENT_ID || body.get('client_secret') !== CLIENT_SECRET) {
+    return sendJson(res, 401, { error: 'invalid_client' })
+  }
+  if (!pending || pending.expiresAt < Date.now() || pending.redirectUri !== body.get('redirect_uri')) {
+    return sendJson(res, 400, { error: 'invalid_grant' })
+  }
+
+  const challenge = crypto.createHash('sha256').update(body.get('code_verifier') || '').digest('base64url')
+  if (challenge !== pending.codeChallenge) {
+    return sendJson(res, 400, { error: 'invalid_grant', error_description: 'PKCE verification failed' })
+  }
+
+  const idToken = jwt.sign(
+    { ...TEST_USER, ...(pending.nonce && { nonce: pending.nonce }) },
+    privateKey,
+    { algorithm: 'RS256', keyid: KEY_ID, issuer: ISSUER, audience: CLIENT_ID, expiresIn: '5m' }
+  )
+
+  sendJson(res, 200, {
+    access_token: crypto.randomBytes(16).toString('hex'),
+    token_type: 'Bearer',
+    expires_in: 300,
+    id_token: idToken,
+  })
+}
+
+const server = http.createServer(async (req, res) => {
+  const url = new URL(req.url || '/', ISSUER)
+
+  try {
+    if (req.method === 'GET' && url.pathname === '/.well-known/openid-configuration') {
+      return sendJson(res, 200, {
+        issuer: ISSUER,
+        authorization_endpoint: `${ISSUER}/authorize`,
+        token_endpoint: `${ISSUER}/token`,
+        jwks_uri: `${ISSUER}/jwks`,
+        response_types_supported: ['code'],
+        subject_types_supported: ['public'],
+        id_token_signing_alg_values_supported: ['RS256'],
+        code_challenge_methods_supported: ['S256'],
+      })
+    }
+
+    if (req.method === 'GET' && url.pathname === '/jwks') {
+      const jwk = publicKey.export({ format: 'jwk' })
+      return sendJson(res, 200, { keys: [{ ...jwk, kid: KEY_ID, use: 'sig', alg: 'RS256' }] })
+    }
+
+    if (req.method === 'GET' && url.pathname === '/authorize') {
+      return handleAuthorize(url, res)
+    }
+
+    if (req.method === 'POST' && url.pathname === '/token') {
+      return await handleToken(req, res)
+    }
+
+    sendJson(res, 404, { error: 'not_found' })
+  } catch (error) {
+    console.error('Mock OIDC provider error:', error)
+    sendJson(res, 500, { error: 'server_error' })
+  }
+})
+
+server.listen(PORT, () => {
+  console.log(`Mock OIDC provider running at ${ISSUER}`)
+})
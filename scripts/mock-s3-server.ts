@@ -0,0 +1,115 @@
+import http from 'http'
+import crypto from 'crypto'
+
+// Minimal S3-compatible object store for exercising the S3 storage driver locally.
+// Path-style PUT, GET and DELETE on objects, kept in memory; requests must carry a
+// valid Signature Version 4 for the configured key pair, as they would for AWS.
+//
+//   npx ts-node scripts/mock-s3-server.ts
+//   STORAGE_DRIVER=s3 S3_ENDPOINT=http://localhost:4020 S3_FORCE_PATH_STYLE=true \
+//     S3_BUCKET=motortrace S3_ACCESS_KEY_ID=mock-access-key S3_SECRET_ACCESS_KEY=mock-secret-key npm run dev
+
+const PORT = parseInt(process.env.MOCK_S3_PORT || '4020')
+const ACCESS_KEY_ID = process.env.MOCK_S3_ACCESS_KEY_ID || 'mock-access-key'
+const SECRET_ACCESS_KEY = process.env.MOCK_S3_SECRET_ACCESS_KEY || 'mock-secret-key'
+
+const objects = new Map<string, { body: Buffer; contentType: string; cacheControl?: string }>()
+
+const sha256Hex = (data: Buffer | string) => crypto.createHash('sha256').update(data).digest('hex')
+const hmac = (key: Buffer | string, data: string) => crypto.createHmac('sha256', key).update(data).digest()
+
+const sendError = (res: http.ServerResponse, status: number, code: string, message: string) => {
+  res.writeHead(status, { 'Content-Type': 'application/xml' })
+  res.end(`<?xml version="1.0" encoding="UTF-8"?><Error><Code>${code}</Code><Message>${message}</Message></Error>`)
+}
+
+const readBody = (req: http.IncomingMessage): Promise<Buffer> => {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = []
+    req.on('data', chunk => chunks.push(chunk))
+    req.on('end', () => resolve(Buffer.concat(chunks)))
+    req.on('error', reject)
+  })
+}
+
+// Recompute the signature the way S3 does and compare; returns an error message or null
+const verifySignature = (req: http.IncomingMessage, path: string, body: Buffer): string | null => {
+  const match = /^AWS4-HMAC-SHA256 Credential=([^/]+)\/(\d{8})\/([^/]+)\/s3\/aws4_request, SignedHeaders=([^,]+), Signature=([0-9a-f]{64})$/
+    .exec(req.headers.authorization || '')
+  if (!match) return 'Missing or malformed Authorization header'
+  const [, accessKeyId, date, region, signedHeaders, signature] = match
+  if (accessKeyId !== ACCESS_KEY_ID) return 'Unknown access key'
+
+  const payloadHash = req.headers['x-amz-content-sha256']
+  if (payloadHash !== sha256Hex(body)) return 'Payload hash does not match the body'
+
+  const amzDate = String(req.headers['x-amz-date'] || '')
+  if (!amzDate.startsWith(date)) return 'Credential date does not match x-amz-date'
+
+  const names = signedHeaders.split(';')
+  if (!names.includes('host') || !names.includes('x-amz-date')) return 'Host and x-amz-date must be signed'
+
+  const canonicalRequest = [
+    req.method,
+    path,
+    '',
+    names.map(name => `${name}:${String(req.headers[name] || '').trim()}\n`).join(''),
+    signedHeaders,
+    payloadHash,
+  ].join('\n')
+  const scope = `${date}/${region}/s3/aws4_request`
+  const stringToSign = ['AWS4-HMAC-SHA256', amzDate, scope, sha256Hex(canonicalRequest)].join('\n')
+  const signingKey = hmac(hmac(hmac(hmac(`AWS4${SECRET_ACCESS_KEY}`, date), region), 's3'), 'aws4_request')
+  const expected = crypto.createHmac('sha256', signingKey).update(stringToSign).digest('hex')
+
+  return crypto.timingSafeEqual(Buffer.from(expected), Buffer.from(signature)) ? null : 'Signature does not match'
+}
+
+const server = http.createServer(async (req, res) => {
+  const path = (req.url || '/').split('?')[0]
+  // /<bucket>/<key...>; objects are stored under the full path
+  if (!/^\/[^/]+\/.+/.test(path)) return sendError(res, 400, 'InvalidRequest', 'Only path-style object requests are supported')
+
+  try {
+    // Objects are publicly readable, like a bucket behind a public-read policy
+    if (req.method === 'GET') {
+      const object = objects.get(path)
+      if (!object) return sendError(res, 404, 'NoSuchKey', 'The specified key does not exist')
+      res.writeHead(200, {
+        'Content-Type': object.contentType,
+        'Content-Length': object.body.length,
+        ...(object.cacheControl && { 'Cache-Control': object.cacheControl }),
+      })
+      return res.end(object.body)
+    }
+
+    if (req.method !== 'PUT' && req.method !== 'DELETE') {
+      return sendError(res, 405, 'MethodNotAllowed', 'The specified method is not allowed')
+    }
+
+    const body = await readBody(req)
+    const signatureError = verifySignature(req, path, body)
+    if (signatureError) return sendError(res, 403, 'SignatureDoesNotMatch', signatureError)
+
+    if (req.method === 'PUT') {
+      objects.set(path, {
+        body,
+        contentType: req.headers['content-type'] || 'application/octet-stream',
+        cacheControl: req.headers['cache-control'],
+      })
+      res.writeHead(200, { ETag: `"${crypto.createHash('md5').update(body).digest('hex')}"` })
+      return res.end()
+    }
+
+    objects.delete(path)
+    res.writeHead(204)
+    res.end()
+  } catch (error) {
+    console.error('Mock S3 server error:', error)
+    sendError(res, 500, 'InternalError', 'We encountered an internal error')
+  }
+})
+
+server.listen(PORT, () => {
+  console.log(`Mock S3 server running at http://localhost:${PORT}`)
+})
@@ -463,6 +463,39 @@ export const createEmailTemplate = (
       </html>
     `,
 
+    verification: `
+      <!DOCTYPE html>
+      <html lang="en">
+      <head>
+        <meta charset="UTF-8">
+        <meta name="viewport" content="width=device-width, initial-scale=1.0">
+        <title>Verify Your Email</title>
+        ${baseStyles}
+      </head>
+      <body>
+        <div class="container">
+          <div class="header">
+            <h1>✉️ Verify Your Email</h1>
+          </div>
+          <div class="content">
+            <h2>Confirm your email address</h2>
+            <p>Hi {{name}},</p>
+            <p>Thanks for signing up to MotorTrace. Enter the code below in the app to confirm this is your email address.</p>
+            
+            <div class="highlight" style="text-align: center;">
+              <p style="font-size: 32px; letter-spacing: 8px; margin: 0;"><strong>{{code}}</strong></p>
+            </div>
+            
+            <p>This code will expire in {{expiryTime}}. If you didn't create a MotorTrace account, you can safely ignore this email.</p>
+          </div>
+          <div class="footer">
+            <p>Stay secure,<br><strong>The MotorTrace Security Team</strong></p>
+          </div>
+        </div>
+      </body>
+      </html>
+    `,
+
     invoice: `
       <!DOCTYPE html>
       <html lang="en">
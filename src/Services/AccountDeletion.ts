@@ -0,0 +1,172 @@
+import prisma from '../prisma';
+import { SessionService } from './Session';
+import { AttemptLimiterService } from './AttemptLimiter';
+import { DataExportService } from './DataExport';
+import { ImageUploadService } from './ImageUpload';
+
+const GRACE_PERIOD_DAYS = parseInt(process.env.ACCOUNT_DELETION_GRACE_DAYS || '30');
+
+export type ScheduleDeletionResult =
+  | { ok: true; scheduledFor: Date }
+  | { ok: false; reason: 'not_found' | 'last_admin' };
+
+// Placeholder address that can never receive mail or collide with a real account
+const anonymizedEmail = (userId: number): string => `deleted-user-${userId}@deleted.invalid`;
+
+// Account deletion service class
+export class AccountDeletionService {
+  static gracePeriodDays(): number {
+    return GRACE_PERIOD_DAYS;
+  }
+
+  // Sign the user out everywhere and purge the account once the grace period ends
+  static async schedule(userId: number): Promise<ScheduleDeletionResult> {
+    const user = await prisma.user.findUnique({ where: { id: userId } });
+    if (!user || user.deletedAt) return { ok: false, reason: 'not_found' };
+
+    if (user.role === 'admin') {
+      const otherAdmins = await prisma.user.count({
+        where: { role: 'admin', id: { not: userId }, suspendedAt: null, deletedAt: null, deletionScheduledFor: null },
+      });
+      if (otherAdmins === 0) return { ok: false, reason: 'last_admin' };
+    }
+
+    const scheduledFor = user.deletionScheduledFor || new Date(Date.now() + GRACE_PERIOD_DAYS * 24 * 60 * 60 * 1000);
+    await prisma.user.update({ where: { id: userId }, data: { deletionScheduledFor: scheduledFor } });
+    await SessionService.revokeAllSessions(userId, 'account_deletion');
+
+    return { ok: true, scheduledFor };
+  }
+
+  // Returns whether a pending deletion was cancelled
+  static async cancel(userId: number): Promise<boolean> {
+    const result = await prisma.user.updateMany({
+      where: { id: userId, deletionScheduledFor: { not: null }, deletedAt: null },
+      data: { deletionScheduledFor: null },
+    });
+    return result.count > 0;
+  }
+
+  // Remove personal data. The user row, subscription and audit entries are
+  // kept (anonymised) because billing and security records must be retained,
+  // and so are vehicles other people still have a stake in (see below).
+  static async purge(userId: number): Promise<void> {
+    const user = await prisma.user.findUnique({ where: { id: userId } });
+    if (!user || user.deletedAt) return;
+
+    await DataExportService.deleteAllForUser(userId);
+    await AttemptLimiterService.unlock(user.email);
+
+    // Uploaded photos and logos are removed from storage once their rows are gone
+    const [carOwnerProfile, serviceCenterProfile, vehicles] = await Promise.all([
+      prisma.carOwnerProfile.findUnique({ where: { userId } }),
+      prisma.serviceCenterProfile.findUnique({ where: { userId } }),
+      prisma.vehicle.findMany({ where: { userId }, select: { id: true, image: true, imageThumbnail: true } }),
+    ]);
+
+    // Vehicles with service center verified work, people it is shared with or earlier
+    // owners stay so their records survive; only this user's own entries on them go
+    const retained = await prisma.vehicle.findMany({
+      where: {
+        userId,
+        OR: [
+          { serviceRecords: { some: { isVerified: true } } },
+          { shares: { some: {} } },
+          { ownerships: { some: { userId: { not: userId } } } },
+        ],
+      },
+      select: { id: true },
+    });
+    const retainedIds = retained.map(vehicle => vehicle.id);
+
+    await prisma.$transaction(async (tx) => {
+      // Service center catalog goes with the center; packages and staff cascade from the profile
+      await tx.serviceCenterProfile.deleteMany({ where: { userId } });
+      await tx.partSellerProfile.deleteMany({ where: { userId } });
+      await tx.carOwnerProfile.deleteMany({ where: { userId } });
+      await tx.vehicle.deleteMany({ where: { userId, id: { notIn: retainedIds } } });
+
+      if (retainedIds.length > 0) {
+        const onRetained = { vehicleId: { in: retainedIds } };
+        await tx.serviceRecord.deleteMany({ where: { ...onRetained, createdById: userId, isVerified: false } });
+        await tx.fuelEntry.deleteMany({ where: { ...onRetained, createdById: userId } });
+        await tx.vehicleDocument.deleteMany({ where: { ...onRetained, createdById: userId } });
+        await tx.vehicleTransfer.updateMany({
+          where: { ...onRetained, status: 'pending' },
+          data: { status: 'cancelled', respondedAt: new Date() },
+        });
+        await tx.vehicle.updateMany({
+          where: { id: { in: retainedIds } },
+          data: { nickname: null, image: null, imageThumbnail: null, isPrimary: false },
+        });
+      }
+
+      await tx.serviceCenterMember.deleteMany({ where: { userId } });
+      await tx.serviceCenterInvitation.deleteMany({ where: { email: user.email.toLowerCase() } });
+      await tx.vehicleShare.deleteMany({ where: { userId } });
+      await tx.vehicleShareInvitation.deleteMany({ where: { email: user.email.toLowerCase() } });
+      await tx.vehicleTransfer.updateMany({
+        where: { toEmail: user.email.toLowerCase(), status: 'pending' },
+        data: { status: 'cancelled', respondedAt: new Date() },
+      });
+      await tx.session.deleteMany({ where: { userId } });
+      await tx.knownDevice.deleteMany({ where: { userId } });
+      await tx.userIdentity.deleteMany({ where: { userId } });
+      await tx.twoFactorAuth.deleteMany({ where: { userId } });
+      await tx.passwordHistory.deleteMany({ where: { userId } });
+      await tx.verificationCode.deleteMany({ where: { email: user.email } });
+
+      await tx.subscription.updateMany({
+        where: { userId },
+        data: { status: 'cancelled', paymentData: '{}' },
+      });
+
+      // Keep who-did-what for security records, but drop where it was done from
+      await tx.auditLog.updateMany({
+        where: { actorId: userId },
+        data: { ip: null, userAgent: null },
+      });
+
+      await tx.user.update({
+        where: { id: userId },
+        data: {
+          email: anonymizedEmail(userId),
+          name: null,
+          phone: null,
+          password: null,
+          emailVerifiedAt: null,
+          isRegistrationComplete: false,
+          deletionScheduledFor: null,
+          deletedAt: new Date(),
+        },
+      });
+    });
+
+    await ImageUploadService.remove('avatar', userId, carOwnerProfile?.image, carOwnerProfile?.imageThumbnail);
+    if (serviceCenterProfile) {
+      await ImageUploadService.remove('logo', serviceCenterProfile.id, serviceCenterProfile.logo, serviceCenterProfile.logoThumbnail);
+    }
+    for (const vehicle of vehicles) {
+      await ImageUploadService.remove('vehicle', vehicle.id, vehicle.image, vehicle.imageThumbnail);
+    }
+  }
+
+  // Purge every account whose grace period has ended
+  static async processDueDeletions(): Promise<number[]> {
+    const due = await prisma.user.findMany({
+      where: { deletionScheduledFor: { lte: new Date() }, deletedAt: null },
+      select: { id: true },
+    });
+
+    const purged: number[] = [];
+    for (const { id } of due) {
+      try {
+        await AccountDeletionService.purge(id);
+        purged.push(id);
+      } catch (error) {
+        console.error(`Account deletion failed for user ${id}:`, error);
+      }
+    }
+    return purged;
+  }
+}
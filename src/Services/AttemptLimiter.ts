@@ -0,0 +1,129 @@
+import prisma from '../prisma';
+
+export type AttemptScope = 'login' | 'two_factor' | 'forgot_password' | 'verify_otp';
+
+interface AttemptPolicy {
+  freeAttempts: number;     // failures allowed before delays kick in
+  maxDelaySeconds: number;  // cap for the exponential delay
+  lockoutThreshold: number; // failures that trigger a temporary lockout
+  lockoutMinutes: number;
+}
+
+// Per-email limits are strict; per-IP limits are looser so shared networks (offices, NAT) still work
+const EMAIL_POLICY: AttemptPolicy = {
+  freeAttempts: 3,
+  maxDelaySeconds: 300,
+  lockoutThreshold: parseInt(process.env.LOGIN_LOCKOUT_THRESHOLD || '10'),
+  lockoutMinutes: parseInt(process.env.LOGIN_LOCKOUT_MINUTES || '15'),
+};
+
+const IP_POLICY: AttemptPolicy = {
+  freeAttempts: 20,
+  maxDelaySeconds: 300,
+  lockoutThreshold: 100,
+  lockoutMinutes: 15,
+};
+
+// Failures older than this are forgotten
+const FAILURE_WINDOW_MINUTES = 60;
+
+export interface AttemptSubject {
+  email?: string;
+  ip?: string;
+}
+
+export type AttemptCheck =
+  | { allowed: true }
+  | { allowed: false; locked: boolean; retryAfterSeconds: number };
+
+const subjectKeys = (subject: AttemptSubject): Array<{ key: string; policy: AttemptPolicy; isEmail: boolean }> => {
+  const keys: Array<{ key: string; policy: AttemptPolicy; isEmail: boolean }> = [];
+  if (subject.email) keys.push({ key: `email:${normalizeEmail(subject.email)}`, policy: EMAIL_POLICY, isEmail: true });
+  if (subject.ip) keys.push({ key: `ip:${subject.ip}`, policy: IP_POLICY, isEmail: false });
+  return keys;
+};
+
+const normalizeEmail = (email: string): string => {
+  return String(email).trim().toLowerCase();
+};
+
+const delaySeconds = (failures: number, policy: AttemptPolicy): number => {
+  if (failures <= policy.freeAttempts) return 0;
+  return Math.min(2 ** (failures - policy.freeAttempts), policy.maxDelaySeconds);
+};
+
+const isStale = (lastFailureAt: Date | null, now: Date): boolean => {
+  return !lastFailureAt || now.getTime() - lastFailureAt.getTime() > FAILURE_WINDOW_MINUTES * 60 * 1000;
+};
+
+// Attempt limiter service class
+export class AttemptLimiterService {
+  // Whether another attempt may be made right now
+  static async check(scope: AttemptScope, subject: AttemptSubject): Promise<AttemptCheck> {
+    const now = new Date();
+    let retryAfterSeconds = 0;
+    let locked = false;
+
+    for (const { key, policy } of subjectKeys(subject)) {
+      const record = await prisma.authAttempt.findUnique({ where: { scope_key: { scope, key } } });
+      if (!record) continue;
+
+      if (record.lockedUntil && record.lockedUntil > now) {
+        locked = true;
+        retryAfterSeconds = Math.max(retryAfterSeconds, Math.ceil((record.lockedUntil.getTime() - now.getTime()) / 1000));
+        continue;
+      }
+
+      if (isStale(record.lastFailureAt, now)) continue;
+
+      const nextAllowedAt = record.lastFailureAt!.getTime() + delaySeconds(record.failures, policy) * 1000;
+      if (nextAllowedAt > now.getTime()) {
+        retryAfterSeconds = Math.max(retryAfterSeconds, Math.ceil((nextAllowedAt - now.getTime()) / 1000));
+      }
+    }
+
+    return retryAfterSeconds > 0 ? { allowed: false, locked, retryAfterSeconds } : { allowed: true };
+  }
+
+  // Count a failed attempt; reports whether the email just became locked
+  static async recordFailure(
+    scope: AttemptScope,
+    subject: AttemptSubject
+  ): Promise<{ emailLocked: boolean; lockoutMinutes: number }> {
+    const now = new Date();
+    let emailLocked = false;
+
+    for (const { key, policy, isEmail } of subjectKeys(subject)) {
+      const record = await prisma.authAttempt.findUnique({ where: { scope_key: { scope, key } } });
+      const wasLocked = !!record?.lockedUntil && record.lockedUntil > now;
+      const failures = record && !isStale(record.lastFailureAt, now) ? record.failures + 1 : 1;
+      const lockNow = !wasLocked && failures >= policy.lockoutThreshold;
+
+      const data = {
+        failures: lockNow ? 0 : failures,
+        lastFailureAt: now,
+        ...(lockNow && { lockedUntil: new Date(now.getTime() + policy.lockoutMinutes * 60 * 1000) }),
+      };
+
+      await prisma.authAttempt.upsert({
+        where: { scope_key: { scope, key } },
+        update: data,
+        create: { scope, key, ...data },
+      });
+
+      if (lockNow && isEmail) emailLocked = true;
+    }
+
+    return { emailLocked, lockoutMinutes: EMAIL_POLICY.lockoutMinutes };
+  }
+
+  // Forget failures for an email after a successful attempt
+  static async reset(scope: AttemptScope, email: string): Promise<void> {
+    await prisma.authAttempt.deleteMany({ where: { scope, key: `email:${normalizeEmail(email)}` } });
+  }
+
+  // Lift every lockout on an email (used by the unlock link)
+  static async unlock(email: string): Promise<void> {
+    await prisma.authAttempt.deleteMany({ where: { key: `email:${normalizeEmail(email)}` } });
+  }
+}
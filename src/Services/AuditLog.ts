@@ -0,0 +1,113 @@
+import { Request } from 'express';
+import { Prisma } from '@prisma/client';
+import prisma from '../prisma';
+import { getClientIp } from '../utils/clientInfo';
+
+export interface AuditEntry {
+  actorId?: number | null;
+  action: string;
+  entityType?: string;
+  entityId?: string | number;
+  before?: Record<string, any> | null;
+  after?: Record<string, any> | null;
+  metadata?: Record<string, any>;
+}
+
+export interface AuditQuery {
+  actorId?: number;
+  action?: string;
+  entityType?: string;
+  entityId?: string;
+  from?: Date;
+  to?: Date;
+  page: number;
+  limit: number;
+}
+
+// Never written to the log, even when they change
+const REDACTED_FIELDS = ['password', 'paymentData', 'secret', 'tokenHash', 'codeHash'];
+
+// Fields that change on every write and say nothing about what the user did
+const IGNORED_FIELDS = ['updatedAt'];
+
+const normalizeValue = (value: unknown): unknown => {
+  return value instanceof Date ? value.toISOString() : value;
+};
+
+// Field-by-field difference between two versions of a record. Creations and
+// deletions are recorded with one side null.
+export const diffChanges = (
+  before: Record<string, any> | null | undefined,
+  after: Record<string, any> | null | undefined
+): Record<string, { before: unknown; after: unknown }> => {
+  const changes: Record<string, { before: unknown; after: unknown }> = {};
+  const fields = new Set([...Object.keys(before || {}), ...Object.keys(after || {})]);
+
+  fields.forEach(field => {
+    if (IGNORED_FIELDS.includes(field)) return;
+
+    const previous = normalizeValue(before?.[field]);
+    const next = normalizeValue(after?.[field]);
+    if (JSON.stringify(previous) === JSON.stringify(next)) return;
+
+    changes[field] = REDACTED_FIELDS.includes(field)
+      ? { before: '[redacted]', after: '[redacted]' }
+      : { before: previous ?? null, after: next ?? null };
+  });
+
+  return changes;
+};
+
+// Audit log service class
+export class AuditLogService {
+  // Failing to audit must not fail the request that is being audited, so errors are only logged
+  static async record(entry: AuditEntry, req?: Request): Promise<void> {
+    try {
+      const changes = entry.before !== undefined || entry.after !== undefined
+        ? diffChanges(entry.before, entry.after)
+        : undefined;
+
+      await prisma.auditLog.create({
+        data: {
+          actorId: entry.actorId ?? null,
+          action: entry.action,
+          entityType: entry.entityType,
+          entityId: entry.entityId !== undefined ? String(entry.entityId) : undefined,
+          changes: changes as Prisma.InputJsonValue | undefined,
+          metadata: entry.metadata as Prisma.InputJsonValue | undefined,
+          ip: req ? getClientIp(req) : undefined,
+          userAgent: req?.headers['user-agent'],
+        },
+      });
+    } catch (error) {
+      console.error('Audit log error:', error);
+    }
+  }
+
+  static async query(filters: AuditQuery) {
+    const where: Prisma.AuditLogWhereInput = {
+      ...(filters.actorId !== undefined && { actorId: filters.actorId }),
+      ...(filters.action && { action: { startsWith: filters.action } }),
+      ...(filters.entityType && { entityType: filters.entityType }),
+      ...(filters.entityId && { entityId: filters.entityId }),
+      ...((filters.from || filters.to) && {
+        createdAt: {
+          ...(filters.from && { gte: filters.from }),
+          ...(filters.to && { lte: filters.to }),
+        },
+      }),
+    };
+
+    const [entries, total] = await prisma.$transaction([
+      prisma.auditLog.findMany({
+        where,
+        orderBy: { createdAt: 'desc' },
+        skip: (filters.page - 1) * filters.limit,
+        take: filters.limit,
+      }),
+      prisma.auditLog.count({ where }),
+    ]);
+
+    return { entries, total, page: filters.page, limit: filters.limit };
+  }
+}
@@ -0,0 +1,286 @@
+import fs from 'fs';
+import path from 'path';
+import prisma from '../prisma';
+import { EmailService } from './Email';
+import { toCsv } from '../utils/csv';
+import { createZip } from '../utils/zip';
+
+const STORAGE_DIR = path.resolve(process.env.EXPORT_STORAGE_DIR || path.join(process.cwd(), 'storage', 'exports'));
+const EXPORT_TTL_HOURS = parseInt(process.env.EXPORT_TTL_HOURS || '72');
+const EXPORT_COOLDOWN_HOURS = parseInt(process.env.EXPORT_COOLDOWN_HOURS || '24');
+const FRONTEND_URL = process.env.FRONTEND_URL || 'http://localhost:5173';
+
+// A job still marked in progress after this long was lost (e.g. a restart) and may be retried
+const STALE_JOB_MINUTES = 30;
+
+export type ExportRequestResult =
+  | { ok: true; exportId: string }
+  | { ok: false; reason: 'in_progress' | 'too_soon'; retryAfterSeconds?: number };
+
+export type ExportDownloadResult =
+  | { ok: true; filePath: string; fileName: string }
+  | { ok: false; reason: 'not_found' | 'not_ready' | 'expired' };
+
+// Stored as JSON strings; exported as the structures they describe
+const parseJsonField = (value: string | null | undefined): unknown => {
+  if (!value) return value;
+  try {
+    return JSON.parse(value);
+  } catch {
+    return value;
+  }
+};
+
+// Everything we hold about a user, grouped by entity
+const collectUserData = async (userId: number): Promise<Record<string, Record<string, unknown>[]>> => {
+  const user = await prisma.user.findUnique({
+    where: { id: userId },
+    include: {
+      carOwnerProfile: true,
+      serviceCenterProfile: { include: { shopServices: true, servicePackages: true } },
+      partSellerProfile: true,
+      vehicles: {
+        include: {
+          serviceRecords: { include: { services: true, parts: true, attachments: true } },
+          odometerReadings: true,
+          maintenanceRules: true,
+          documents: true,
+          fuelEntries: true,
+        },
+      },
+      subscription: true,
+      twoFactor: true,
+      identities: true,
+      knownDevices: true,
+      sessions: true,
+      centerMemberships: { include: { serviceCenter: { select: { businessName: true } } } },
+      vehicleOwnerships: true,
+      vehicleTransfersSent: true,
+      vehicleShares: { include: { vehicle: { select: { vehicleName: true, model: true, licensePlate: true } } } },
+    },
+  });
+  if (!user) throw new Error('User not found');
+
+  const auditLogs = await prisma.auditLog.findMany({
+    where: { actorId: userId },
+    orderBy: { createdAt: 'asc' },
+  });
+
+  const { serviceCenterProfile } = user;
+
+  return {
+    account: [{
+      id: user.id,
+      email: user.email,
+      name: user.name,
+      phone: user.phone,
+      role: user.role,
+      hasPassword: !!user.password,
+      isRegistrationComplete: user.isRegistrationComplete,
+      emailVerifiedAt: user.emailVerifiedAt,
+      suspendedAt: user.suspendedAt,
+      createdAt: user.createdAt,
+      updatedAt: user.updatedAt,
+    }],
+    car_owner_profile: user.carOwnerProfile ? [user.carOwnerProfile] : [],
+    service_center_profile: serviceCenterProfile ? [{
+      id: serviceCenterProfile.id,
+      businessName: serviceCenterProfile.businessName,
+      address: serviceCenterProfile.address,
+      businessRegistrationNumber: serviceCenterProfile.businessRegistrationNumber,
+      servicesOffered: parseJsonField(serviceCenterProfile.servicesOffered),
+      operatingHours: parseJsonField(serviceCenterProfile.operatingHours),
+      logo: serviceCenterProfile.logo,
+      logoThumbnail: serviceCenterProfile.logoThumbnail,
+      createdAt: serviceCenterProfile.createdAt,
+      updatedAt: serviceCenterProfile.updatedAt,
+    }] : [],
+    shop_services: serviceCenterProfile?.shopServices || [],
+    service_packages: serviceCenterProfile?.servicePackages || [],
+    part_seller_profile: user.partSellerProfile ? [{
+      ...user.partSellerProfile,
+      categoriesSold: parseJsonField(user.partSellerProfile.categoriesSold),
+    }] : [],
+    vehicles: user.vehicles.map(({ serviceRecords, odometerReadings, maintenanceRules, documents, fuelEntries, ...vehicle }) => vehicle),
+    // Records from a previous owner that were not handed over are theirs, not this user's
+    service_records: user.vehicles.flatMap(vehicle => vehicle.serviceRecords
+      .filter(record => !vehicle.historyStartsAt || record.createdAt >= vehicle.historyStartsAt)),
+    odometer_readings: user.vehicles.flatMap(vehicle => vehicle.odometerReadings),
+    maintenance_rules: user.vehicles.flatMap(vehicle => vehicle.maintenanceRules),
+    vehicle_documents: user.vehicles.flatMap(vehicle => vehicle.documents
+      .filter(document => !vehicle.historyStartsAt || document.createdAt >= vehicle.historyStartsAt)
+      .map(({ lastAlertDays, ...document }) => document)),
+    fuel_entries: user.vehicles.flatMap(vehicle => vehicle.fuelEntries
+      .filter(entry => !vehicle.historyStartsAt || entry.createdAt >= vehicle.historyStartsAt)),
+    vehicle_ownerships: user.vehicleOwnerships,
+    vehicle_transfers: user.vehicleTransfersSent.map(({ tokenHash, ...transfer }) => transfer),
+    // Other people's vehicles this user can access
+    shared_vehicles: user.vehicleShares.map(share => ({
+      vehicleId: share.vehicleId,
+      vehicleName: share.vehicle.vehicleName,
+      model: share.vehicle.model,
+      licensePlate: share.vehicle.licensePlate,
+      role: share.role,
+      createdAt: share.createdAt,
+    })),
+    subscription: user.subscription ? [{ ...user.subscription, paymentData: '[redacted]' }] : [],
+    two_factor: user.twoFactor ? [{ enabled: !!user.twoFactor.confirmedAt, confirmedAt: user.twoFactor.confirmedAt }] : [],
+    linked_accounts: user.identities.map(({ provider, email, createdAt, lastUsedAt }) => ({ provider, email, createdAt, lastUsedAt })),
+    devices: user.knownDevices,
+    sessions: user.sessions.map(({ id, userAgent, ip, createdAt, lastUsedAt, expiresAt, revokedAt }) => ({
+      id, userAgent, ip, createdAt, lastUsedAt, expiresAt, revokedAt,
+    })),
+    service_center_memberships: user.centerMemberships.map(membership => ({
+      serviceCenterId: membership.serviceCenterId,
+      businessName: membership.serviceCenter.businessName,
+      role: membership.role,
+      createdAt: membership.createdAt,
+    })),
+    activity_log: auditLogs.map(({ action, entityType, entityId, ip, userAgent, createdAt }) => ({
+      action, entityType, entityId, ip, userAgent, createdAt,
+    })),
+  };
+};
+
+// One JSON document with everything, plus a CSV per entity for spreadsheets
+const buildArchive = (data: Record<string, Record<string, unknown>[]>, exportedAt: Date): Buffer => {
+  const entries = [{
+    name: 'motortrace-data.json',
+    data: JSON.stringify({ exportedAt: exportedAt.toISOString(), ...data }, null, 2),
+  }];
+
+  for (const [entity, rows] of Object.entries(data)) {
+    if (rows.length > 0) entries.push({ name: `csv/${entity}.csv`, data: toCsv(rows) });
+  }
+
+  return createZip(entries, exportedAt);
+};
+
+const removeFile = async (filePath: string | null) => {
+  if (!filePath) return;
+  await fs.promises.rm(filePath, { force: true });
+};
+
+// Personal data export service class
+export class DataExportService {
+  // Queue an export; it is built in the background and the user is emailed when it is ready
+  static async request(userId: number): Promise<ExportRequestResult> {
+    await DataExportService.purgeExpired();
+
+    const latest = await prisma.dataExport.findFirst({
+      where: { userId },
+      orderBy: { createdAt: 'desc' },
+    });
+
+    if (latest) {
+      const ageMs = Date.now() - latest.createdAt.getTime();
+      const inProgress = latest.status === 'pending' || latest.status === 'processing';
+
+      if (inProgress && ageMs < STALE_JOB_MINUTES * 60 * 1000) {
+        return { ok: false, reason: 'in_progress' };
+      }
+      if (latest.status === 'ready' && ageMs < EXPORT_COOLDOWN_HOURS * 60 * 60 * 1000) {
+        return {
+          ok: false,
+          reason: 'too_soon',
+          retryAfterSeconds: Math.ceil((EXPORT_COOLDOWN_HOURS * 60 * 60 * 1000 - ageMs) / 1000),
+        };
+      }
+    }
+
+    const job = await prisma.dataExport.create({ data: { userId } });
+
+    setImmediate(() => {
+      DataExportService.process(job.id).catch(error => console.error('Data export error:', error));
+    });
+
+    return { ok: true, exportId: job.id };
+  }
+
+  static async process(exportId: string): Promise<void> {
+    const job = await prisma.dataExport.update({
+      where: { id: exportId },
+      data: { status: 'processing' },
+      include: { user: true },
+    });
+
+    try {
+      const exportedAt = new Date();
+      const archive = buildArchive(await collectUserData(job.userId), exportedAt);
+
+      await fs.promises.mkdir(STORAGE_DIR, { recursive: true });
+      const filePath = path.join(STORAGE_DIR, `${job.id}.zip`);
+      await fs.promises.writeFile(filePath, archive, { mode: 0o600 });
+
+      await prisma.dataExport.update({
+        where: { id: job.id },
+        data: {
+          status: 'ready',
+          filePath,
+          fileSize: archive.length,
+          completedAt: exportedAt,
+          expiresAt: new Date(exportedAt.getTime() + EXPORT_TTL_HOURS * 60 * 60 * 1000),
+        },
+      });
+
+      // The archive is ready even if the announcement cannot be sent
+      await EmailService.sendDataExportReadyEmail(job.user.email, `${FRONTEND_URL}/account/data-export`, EXPORT_TTL_HOURS)
+        .catch(error => console.error('Data export email error:', error));
+    } catch (error) {
+      console.error('Data export failed:', error);
+      await prisma.dataExport.update({
+        where: { id: job.id },
+        data: { status: 'failed', error: error instanceof Error ? error.message : 'Export failed' },
+      });
+    }
+  }
+
+  static async list(userId: number) {
+    return prisma.dataExport.findMany({
+      where: { userId },
+      select: { id: true, status: true, fileSize: true, createdAt: true, completedAt: true, expiresAt: true },
+      orderBy: { createdAt: 'desc' },
+      take: 10,
+    });
+  }
+
+  static async getDownload(userId: number, exportId: string): Promise<ExportDownloadResult> {
+    const job = await prisma.dataExport.findFirst({ where: { id: exportId, userId } });
+    if (!job) return { ok: false, reason: 'not_found' };
+    if (job.status !== 'ready') return { ok: false, reason: 'not_ready' };
+
+    if (!job.filePath || !job.expiresAt || job.expiresAt < new Date()) {
+      await removeFile(job.filePath);
+      return { ok: false, reason: 'expired' };
+    }
+
+    return {
+      ok: true,
+      filePath: job.filePath,
+      fileName: `motortrace-data-${job.completedAt!.toISOString().slice(0, 10)}.zip`,
+    };
+  }
+
+  // Remove every export and its archive, e.g. when the account is deleted
+  static async deleteAllForUser(userId: number): Promise<void> {
+    const jobs = await prisma.dataExport.findMany({ where: { userId } });
+    for (const job of jobs) {
+      await removeFile(job.filePath);
+    }
+    await prisma.dataExport.deleteMany({ where: { userId } });
+  }
+
+  // Delete archives past their expiry; safe to call often
+  static async purgeExpired(): Promise<number> {
+    const expired = await prisma.dataExport.findMany({
+      where: { status: 'ready', expiresAt: { lt: new Date() }, filePath: { not: null } },
+    });
+
+    for (const job of expired) {
+      await removeFile(job.filePath);
+      await prisma.dataExport.update({ where: { id: job.id }, data: { filePath: null } });
+    }
+
+    return expired.length;
+  }
+}
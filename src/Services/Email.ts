@@ -26,6 +26,7 @@ export class EmailService {
     location?: string;
     device?: string;
     ip?: string;
+    secureAccountLink?: string;
   }): Promise<boolean> {
     if (!validateEmail(userEmail)) {
       throw new Error('Invalid email address');
@@ -36,7 +37,8 @@ export class EmailService {
       timestamp: loginDetails?.timestamp || new Date(),
       location: loginDetails?.location || 'Unknown location',
       device: loginDetails?.device || 'Unknown device',
-      ip: loginDetails?.ip || 'Hidden'
+      ip: loginDetails?.ip || 'Hidden',
+      secureAccountLink: loginDetails?.secureAccountLink || ''
     });
 
     const emailData: EmailData = {
@@ -77,20 +79,57 @@ export class EmailService {
     };
   }
 
-  // Send password reset email
-  static async VerifyEmail(
+  // Send email address verification code
+  static async sendEmailVerificationEmail(
     userEmail: string,
-    OTP: string,
+    code: string,
+    expiresInMinutes: number,
   ): Promise<boolean> {
     if (!validateEmail(userEmail)) {
       throw new Error('Invalid email address');
     }
 
-    const emailBody = createEmailTemplate('reset', { OTP });
+    const emailBody = createEmailTemplate('verification', {
+      name: userEmail,
+      code,
+      expiryTime: `${expiresInMinutes} minutes`,
+    });
 
     const emailData: EmailData = {
       to: userEmail,
-      subject: 'Password Reset Request',
+      subject: 'Verify your MotorTrace email address',
+      body: emailBody,
+      isHtml: true,
+    };
+
+    const result = await sendEmail(emailData);
+    return result.success;
+  }
+
+  // Send account lockout notice with an unlock link
+  static async sendAccountLockedEmail(
+    userEmail: string,
+    unlockLink: string,
+    lockoutMinutes: number,
+  ): Promise<boolean> {
+    if (!validateEmail(userEmail)) {
+      throw new Error('Invalid email address');
+    }
+
+    const emailBody = createEmailTemplate('notification', {
+      title: 'Account Temporarily Locked',
+      subtitle: 'Too many failed sign-in attempts',
+      message: `We temporarily locked sign-in to your MotorTrace account for ${lockoutMinutes} minutes after several failed attempts.`,
+      actionRequired: true,
+      actionMessage: 'If this was you, you can unlock your account now. If it was not, we recommend resetting your password.',
+      actionLink: unlockLink,
+      actionText: 'Unlock My Account',
+      signature: 'Stay secure,<br>The MotorTrace Security Team',
+    });
+
+    const emailData: EmailData = {
+      to: userEmail,
+      subject: 'Security Alert: Your account has been locked',
       body: emailBody,
       isHtml: true,
     };
@@ -100,6 +139,296 @@ export class EmailService {
   }
 
   // Send custom email
+  static async sendStaffInvitationEmail(
+    userEmail: string,
+    invitation: { businessName: string; role: string; invitedBy: string; acceptLink: string; expiresInDays: number },
+  ): Promise<boolean> {
+    if (!validateEmail(userEmail)) {
+      throw new Error('Invalid email address');
+    }
+
+    const emailBody = createEmailTemplate('notification', {
+      title: `Join ${invitation.businessName} on MotorTrace`,
+      subtitle: 'You have been invited as a staff member',
+      message: `${invitation.invitedBy} invited you to join ${invitation.businessName} as a ${invitation.role}. Sign in or create an account with this email address to accept.`,
+      actionRequired: true,
+      actionMessage: `This invitation expires in ${invitation.expiresInDays} days.`,
+      actionLink: invitation.acceptLink,
+      actionText: 'Accept Invitation',
+      signature: 'Best regards,<br>The MotorTrace Team',
+    });
+
+    const emailData: EmailData = {
+      to: userEmail,
+      subject: `You're invited to join ${invitation.businessName}`,
+      body: emailBody,
+      isHtml: true,
+    };
+
+    const result = await sendEmail(emailData);
+    return result.success;
+  }
+
+  static async sendVehicleShareInvitationEmail(
+    userEmail: string,
+    invitation: { vehicle: string; role: string; invitedBy: string; acceptLink: string; expiresInDays: number },
+  ): Promise<boolean> {
+    if (!validateEmail(userEmail)) {
+      throw new Error('Invalid email address');
+    }
+
+    const emailBody = createEmailTemplate('notification', {
+      title: `${invitation.invitedBy} shared a vehicle with you`,
+      subtitle: invitation.vehicle,
+      message: `${invitation.invitedBy} invited you to access their ${invitation.vehicle} on MotorTrace as a ${invitation.role}. Sign in or create an account with this email address to accept.`,
+      actionRequired: true,
+      actionMessage: `This invitation expires in ${invitation.expiresInDays} days.`,
+      actionLink: invitation.acceptLink,
+      actionText: 'Accept Invitation',
+      signature: 'Best regards,<br>The MotorTrace Team',
+    });
+
+    const emailData: EmailData = {
+      to: userEmail,
+      subject: `${invitation.invitedBy} shared a vehicle with you on MotorTrace`,
+      body: emailBody,
+      isHtml: true,
+    };
+
+    const result = await sendEmail(emailData);
+    return result.success;
+  }
+
+  static async sendDataExportReadyEmail(
+    userEmail: string,
+    downloadPageLink: string,
+    expiresInHours: number,
+  ): Promise<boolean> {
+    if (!validateEmail(userEmail)) {
+      throw new Error('Invalid email address');
+    }
+
+    const emailBody = createEmailTemplate('notification', {
+      title: 'Your Data Export Is Ready',
+      subtitle: 'A copy of your MotorTrace data',
+      message: 'The copy of your personal data you requested is ready. Sign in to download it as a ZIP archive containing a JSON file and a CSV file per type of record.',
+      actionRequired: true,
+      actionMessage: `The download will be available for ${expiresInHours} hours. If you did not request this export, please change your password.`,
+      actionLink: downloadPageLink,
+      actionText: 'Download My Data',
+      signature: 'Best regards,<br>The MotorTrace Team',
+    });
+
+    const emailData: EmailData = {
+      to: userEmail,
+      subject: 'Your MotorTrace data export is ready',
+      body: emailBody,
+      isHtml: true,
+    };
+
+    const result = await sendEmail(emailData);
+    return result.success;
+  }
+
+  static async sendServiceRecordAddedEmail(
+    userEmail: string,
+    record: { businessName: string; vehicle: string; serviceDate: Date; historyLink: string },
+  ): Promise<boolean> {
+    if (!validateEmail(userEmail)) {
+      throw new Error('Invalid email address');
+    }
+
+    const emailBody = createEmailTemplate('notification', {
+      title: 'New Service Record',
+      subtitle: `${record.businessName} updated your vehicle's history`,
+      message: `${record.businessName} added a verified service record for your ${record.vehicle}, dated ${record.serviceDate.toDateString()}.`,
+      actionRequired: true,
+      actionMessage: 'If you did not have your vehicle serviced there, you can remove the record from your service history.',
+      actionLink: record.historyLink,
+      actionText: 'View Service History',
+      signature: 'Best regards,<br>The MotorTrace Team',
+    });
+
+    const emailData: EmailData = {
+      to: userEmail,
+      subject: `New service record for your ${record.vehicle}`,
+      body: emailBody,
+      isHtml: true,
+    };
+
+    const result = await sendEmail(emailData);
+    return result.success;
+  }
+
+  static async sendMaintenanceReminderEmail(
+    userEmail: string,
+    reminder: { vehicle: string; overdue: string[]; dueSoon: string[]; scheduleLink: string },
+  ): Promise<boolean> {
+    if (!validateEmail(userEmail)) {
+      throw new Error('Invalid email address');
+    }
+
+    const sections = [
+      reminder.overdue.length > 0 ? `<strong>Overdue</strong><br>${reminder.overdue.join('<br>')}` : '',
+      reminder.dueSoon.length > 0 ? `<strong>Due soon</strong><br>${reminder.dueSoon.join('<br>')}` : '',
+    ].filter(Boolean);
+
+    const emailBody = createEmailTemplate('notification', {
+      title: 'Maintenance Reminder',
+      subtitle: `Your ${reminder.vehicle} needs attention`,
+      message: `Based on your service history and mileage, the following maintenance is due:<br><br>${sections.join('<br><br>')}`,
+      actionRequired: true,
+      actionMessage: 'Already done? Add it to your service history and the reminder will clear.',
+      actionLink: reminder.scheduleLink,
+      actionText: 'View Maintenance Schedule',
+      signature: 'Best regards,<br>The MotorTrace Team',
+    });
+
+    const emailData: EmailData = {
+      to: userEmail,
+      subject: reminder.overdue.length > 0
+        ? `Maintenance overdue for your ${reminder.vehicle}`
+        : `Maintenance due soon for your ${reminder.vehicle}`,
+      body: emailBody,
+      isHtml: true,
+    };
+
+    const result = await sendEmail(emailData);
+    return result.success;
+  }
+
+  static async sendDocumentExpiryEmail(
+    userEmail: string,
+    alert: { expired: string[]; expiringSoon: string[]; documentsLink: string },
+  ): Promise<boolean> {
+    if (!validateEmail(userEmail)) {
+      throw new Error('Invalid email address');
+    }
+
+    const sections = [
+      alert.expired.length > 0 ? `<strong>Expired</strong><br>${alert.expired.join('<br>')}` : '',
+      alert.expiringSoon.length > 0 ? `<strong>Expiring soon</strong><br>${alert.expiringSoon.join('<br>')}` : '',
+    ].filter(Boolean);
+
+    const emailBody = createEmailTemplate('notification', {
+      title: 'Vehicle Documents',
+      subtitle: 'Some of your vehicle documents need renewing',
+      message: `The following documents on MotorTrace have expired or are about to:<br><br>${sections.join('<br><br>')}`,
+      actionRequired: true,
+      actionMessage: 'Already renewed? Add the new document and these alerts will stop.',
+      actionLink: alert.documentsLink,
+      actionText: 'View Documents',
+      signature: 'Best regards,<br>The MotorTrace Team',
+    });
+
+    const emailData: EmailData = {
+      to: userEmail,
+      subject: alert.expired.length > 0
+        ? 'A vehicle document has expired'
+        : 'A vehicle document is expiring soon',
+      body: emailBody,
+      isHtml: true,
+    };
+
+    const result = await sendEmail(emailData);
+    return result.success;
+  }
+
+  static async sendVehicleTransferOfferEmail(
+    userEmail: string,
+    transfer: { vehicle: string; from: string; includeHistory: boolean; acceptLink: string; expiresInDays: number },
+  ): Promise<boolean> {
+    if (!validateEmail(userEmail)) {
+      throw new Error('Invalid email address');
+    }
+
+    const history = transfer.includeHistory
+      ? 'Its service history and mileage records come with it.'
+      : 'Its mileage records come with it; the previous service history stays private.';
+
+    const emailBody = createEmailTemplate('notification', {
+      title: 'Vehicle Transfer',
+      subtitle: `${transfer.from} wants to transfer a vehicle to you`,
+      message: `${transfer.from} is transferring their ${transfer.vehicle} to you on MotorTrace. ${history} Sign in or create a car owner account with this email address to accept.`,
+      actionRequired: true,
+      actionMessage: `This transfer offer expires in ${transfer.expiresInDays} days. If you are not buying this vehicle, you can decline it.`,
+      actionLink: transfer.acceptLink,
+      actionText: 'Review Transfer',
+      signature: 'Best regards,<br>The MotorTrace Team',
+    });
+
+    const emailData: EmailData = {
+      to: userEmail,
+      subject: `${transfer.from} wants to transfer a ${transfer.vehicle} to you`,
+      body: emailBody,
+      isHtml: true,
+    };
+
+    const result = await sendEmail(emailData);
+    return result.success;
+  }
+
+  // Tells the other party what happened to a transfer offer
+  static async sendVehicleTransferUpdateEmail(
+    userEmail: string,
+    update: { vehicle: string; outcome: 'accepted' | 'declined' | 'cancelled' },
+  ): Promise<boolean> {
+    if (!validateEmail(userEmail)) {
+      throw new Error('Invalid email address');
+    }
+
+    const messages = {
+      accepted: `The buyer accepted the transfer of your ${update.vehicle}. It has been moved to their account and no longer appears in your garage.`,
+      declined: `The buyer declined the transfer of your ${update.vehicle}. The vehicle stays in your garage; you can send a new transfer at any time.`,
+      cancelled: `The seller cancelled the transfer of the ${update.vehicle}. No action is needed.`,
+    };
+
+    const emailBody = createEmailTemplate('notification', {
+      title: 'Vehicle Transfer',
+      subtitle: `Transfer ${update.outcome}`,
+      message: messages[update.outcome],
+      signature: 'Best regards,<br>The MotorTrace Team',
+    });
+
+    const emailData: EmailData = {
+      to: userEmail,
+      subject: `Vehicle transfer ${update.outcome}: ${update.vehicle}`,
+      body: emailBody,
+      isHtml: true,
+    };
+
+    const result = await sendEmail(emailData);
+    return result.success;
+  }
+
+  static async sendAccountDeletionScheduledEmail(
+    userEmail: string,
+    scheduledFor: Date,
+  ): Promise<boolean> {
+    if (!validateEmail(userEmail)) {
+      throw new Error('Invalid email address');
+    }
+
+    const emailBody = createEmailTemplate('notification', {
+      title: 'Your Account Is Scheduled for Deletion',
+      subtitle: 'We are sorry to see you go',
+      message: `Your MotorTrace account and its data will be permanently deleted on ${scheduledFor.toDateString()}. You have been signed out on all devices.`,
+      actionRequired: true,
+      actionMessage: 'Changed your mind? Simply sign in again before that date and the deletion will be cancelled.',
+      signature: 'Best regards,<br>The MotorTrace Team',
+    });
+
+    const emailData: EmailData = {
+      to: userEmail,
+      subject: 'Your MotorTrace account is scheduled for deletion',
+      body: emailBody,
+      isHtml: true,
+    };
+
+    const result = await sendEmail(emailData);
+    return result.success;
+  }
+
   static async sendCustomEmail(
     to: string | string[],
     subject: string,
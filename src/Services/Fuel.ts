@@ -0,0 +1,149 @@
+import { FuelEntry, Prisma } from '@prisma/client';
+import prisma from '../prisma';
+import { OdometerService } from './Odometer';
+import { fuelSegments, fuelStatistics, FuelStatistics } from '../utils/fuelEconomy';
+import { toCsv } from '../utils/csv';
+
+export interface FuelEntryInput {
+  filledAt: Date;
+  odometer: number;
+  litres: number;
+  pricePerLitre?: number | null;
+  totalCost?: number | null;
+  isFullTank?: boolean;
+  missedPrevious?: boolean;
+  fuelType?: string | null;
+  station?: string | null;
+  notes?: string | null;
+}
+
+export type FuelEntryResult =
+  | { ok: true; entry: FuelEntry }
+  | { ok: false; reason: 'not_found' | 'cost_required' | 'odometer_out_of_order' };
+
+export interface FuelRange {
+  from?: Date;
+  to?: Date;
+}
+
+const CSV_COLUMNS = [
+  'filledAt', 'odometer', 'litres', 'pricePerLitre', 'totalCost', 'isFullTank', 'missedPrevious',
+  'fuelType', 'station', 'kmPerLitre', 'costPerKm', 'notes',
+];
+
+// The pump shows two of litres, price and total; the third follows from them
+const resolveCost = (input: FuelEntryInput): { pricePerLitre: number | null; totalCost: number } | null => {
+  if (input.totalCost != null) {
+    return { pricePerLitre: input.pricePerLitre ?? Math.round(input.totalCost / input.litres * 100) / 100, totalCost: input.totalCost };
+  }
+  if (input.pricePerLitre != null) {
+    return { pricePerLitre: input.pricePerLitre, totalCost: Math.round(input.pricePerLitre * input.litres * 100) / 100 };
+  }
+  return null;
+};
+
+// Fill-ups the current owner may see; a previous owner's fuel spending stays with them
+const visibleWhere = async (vehicleId: number, range: FuelRange = {}): Promise<Prisma.FuelEntryWhereInput> => {
+  const vehicle = await prisma.vehicle.findUnique({ where: { id: vehicleId }, select: { historyStartsAt: true } });
+  return {
+    vehicleId,
+    ...(vehicle?.historyStartsAt && { createdAt: { gte: vehicle.historyStartsAt } }),
+    ...((range.from || range.to) && { filledAt: { ...(range.from && { gte: range.from }), ...(range.to && { lte: range.to }) } }),
+  };
+};
+
+// Fuel log service class
+export class FuelService {
+  static async list(vehicleId: number, range: FuelRange = {}) {
+    return prisma.fuelEntry.findMany({
+      where: await visibleWhere(vehicleId, range),
+      orderBy: [{ filledAt: 'desc' }, { odometer: 'desc' }, { id: 'desc' }],
+    });
+  }
+
+  // The fill-up's odometer is also a reading, so it must fit between the others
+  static async create(vehicleId: number, input: FuelEntryInput, createdById: number): Promise<FuelEntryResult> {
+    const cost = resolveCost(input);
+    if (!cost) return { ok: false, reason: 'cost_required' };
+
+    const neighbours = await OdometerService.findNeighbours(vehicleId, input.filledAt);
+    if (!OdometerService.isInOrder(input.odometer, neighbours)) return { ok: false, reason: 'odometer_out_of_order' };
+    const flagged = await OdometerService.isBelowRemovedReading(vehicleId, input.odometer, input.filledAt);
+
+    const entry = await prisma.$transaction(async (tx) => {
+      const created = await tx.fuelEntry.create({
+        data: { ...input, ...cost, vehicleId, createdById },
+      });
+      await tx.odometerReading.create({
+        data: { vehicleId, value: input.odometer, recordedAt: input.filledAt, source: 'owner', fuelEntryId: created.id, createdById, flagged },
+      });
+      return created;
+    });
+    return { ok: true, entry };
+  }
+
+  static async update(vehicleId: number, entryId: number, input: FuelEntryInput): Promise<FuelEntryResult> {
+    const existing = await prisma.fuelEntry.findFirst({ where: { ...await visibleWhere(vehicleId), id: entryId } });
+    if (!existing) return { ok: false, reason: 'not_found' };
+
+    const cost = resolveCost(input);
+    if (!cost) return { ok: false, reason: 'cost_required' };
+
+    const linked = await prisma.odometerReading.findFirst({ where: { fuelEntryId: entryId, deletedAt: null } });
+    const neighbours = await OdometerService.findNeighbours(vehicleId, input.filledAt, linked?.id);
+    if (!OdometerService.isInOrder(input.odometer, neighbours)) return { ok: false, reason: 'odometer_out_of_order' };
+    const flagged = await OdometerService.isBelowRemovedReading(vehicleId, input.odometer, input.filledAt);
+
+    // The replaced reading is kept as removed, like one the owner deletes
+    const entry = await prisma.$transaction(async (tx) => {
+      await tx.odometerReading.updateMany({ where: { fuelEntryId: entryId, deletedAt: null }, data: { deletedAt: new Date() } });
+      await tx.odometerReading.create({
+        data: { vehicleId, value: input.odometer, recordedAt: input.filledAt, source: 'owner', fuelEntryId: entryId, createdById: existing.createdById, flagged },
+      });
+      return tx.fuelEntry.update({
+        where: { id: entryId },
+        data: {
+          ...input,
+          ...cost,
+          isFullTank: input.isFullTank ?? true,
+          missedPrevious: input.missedPrevious ?? false,
+        },
+      });
+    });
+    return { ok: true, entry };
+  }
+
+  // The linked odometer reading goes with it, kept as removed like one the owner deletes
+  static async remove(vehicleId: number, entryId: number): Promise<boolean> {
+    const entry = await prisma.fuelEntry.findFirst({ where: { ...await visibleWhere(vehicleId), id: entryId } });
+    if (!entry) return false;
+
+    await prisma.$transaction([
+      prisma.odometerReading.updateMany({ where: { fuelEntryId: entryId, deletedAt: null }, data: { deletedAt: new Date() } }),
+      prisma.fuelEntry.delete({ where: { id: entryId } }),
+    ]);
+    return true;
+  }
+
+  static async statistics(vehicleId: number, range: FuelRange = {}): Promise<FuelStatistics> {
+    const entries = await prisma.fuelEntry.findMany({ where: await visibleWhere(vehicleId) });
+    return fuelStatistics(entries, range);
+  }
+
+  // One row per fill-up, oldest first, with the economy of the tank it completed
+  static async exportCsv(vehicleId: number, range: FuelRange = {}): Promise<string> {
+    const entries = await prisma.fuelEntry.findMany({ where: await visibleWhere(vehicleId) });
+    const segments = new Map(fuelSegments(entries).map(segment => [segment.toEntryId, segment]));
+    const inRange = (date: Date) => (!range.from || date >= range.from) && (!range.to || date <= range.to);
+
+    const rows = entries
+      .filter(entry => inRange(entry.filledAt))
+      .sort((a, b) => a.filledAt.getTime() - b.filledAt.getTime() || a.odometer - b.odometer)
+      .map(entry => ({
+        ...entry,
+        kmPerLitre: segments.get(entry.id)?.kmPerLitre ?? null,
+        costPerKm: segments.get(entry.id)?.costPerKm ?? null,
+      }));
+    return toCsv(rows, CSV_COLUMNS);
+  }
+}
@@ -0,0 +1,120 @@
+import { User } from '@prisma/client';
+import prisma from '../prisma';
+
+export interface ExternalProfile {
+  provider: string;
+  subject: string;
+  email?: string;
+  emailVerified?: boolean;
+  name?: string;
+}
+
+export type ResolveResult =
+  | { ok: true; user: User; isNewUser: boolean }
+  | { ok: false; reason: 'email_missing' | 'email_unverified' | 'account_exists' };
+
+export type LinkResult =
+  | { ok: true }
+  | { ok: false; reason: 'linked_to_other_user' | 'provider_already_linked' };
+
+export type UnlinkResult =
+  | { ok: true }
+  | { ok: false; reason: 'not_linked' | 'last_login_method' };
+
+// Identity service class
+export class IdentityService {
+  // Find or create the account behind an external sign-in. An existing account
+  // with the same email is only linked automatically when both sides have
+  // verified that address; otherwise the user has to link it while signed in.
+  static async resolveLogin(profile: ExternalProfile): Promise<ResolveResult> {
+    const identity = await prisma.userIdentity.findUnique({
+      where: { provider_subject: { provider: profile.provider, subject: profile.subject } },
+      include: { user: true },
+    });
+
+    if (identity) {
+      await prisma.userIdentity.update({ where: { id: identity.id }, data: { lastUsedAt: new Date() } });
+      return { ok: true, user: identity.user, isNewUser: false };
+    }
+
+    if (!profile.email) return { ok: false, reason: 'email_missing' };
+
+    const existing = await prisma.user.findUnique({ where: { email: profile.email } });
+
+    if (existing) {
+      if (!profile.emailVerified) return { ok: false, reason: 'email_unverified' };
+
+      // Accounts without a password can only have been created by an external sign-in
+      const canAutoLink = !!existing.emailVerifiedAt || !existing.password;
+      if (!canAutoLink) return { ok: false, reason: 'account_exists' };
+
+      const user = await prisma.user.update({
+        where: { id: existing.id },
+        data: {
+          emailVerifiedAt: existing.emailVerifiedAt || new Date(),
+          identities: {
+            create: { provider: profile.provider, subject: profile.subject, email: profile.email },
+          },
+        },
+      });
+      return { ok: true, user, isNewUser: false };
+    }
+
+    const user = await prisma.user.create({
+      data: {
+        email: profile.email,
+        name: profile.name,
+        password: null,
+        role: 'car_owner',
+        isRegistrationComplete: false,
+        emailVerifiedAt: profile.emailVerified ? new Date() : null,
+        identities: {
+          create: { provider: profile.provider, subject: profile.subject, email: profile.email },
+        },
+      },
+    });
+    return { ok: true, user, isNewUser: true };
+  }
+
+  // Link an external identity to a signed-in user
+  static async link(userId: number, profile: ExternalProfile): Promise<LinkResult> {
+    const bySubject = await prisma.userIdentity.findUnique({
+      where: { provider_subject: { provider: profile.provider, subject: profile.subject } },
+    });
+    if (bySubject) {
+      return bySubject.userId === userId ? { ok: true } : { ok: false, reason: 'linked_to_other_user' };
+    }
+
+    const byProvider = await prisma.userIdentity.findUnique({
+      where: { userId_provider: { userId, provider: profile.provider } },
+    });
+    if (byProvider) return { ok: false, reason: 'provider_already_linked' };
+
+    await prisma.userIdentity.create({
+      data: { userId, provider: profile.provider, subject: profile.subject, email: profile.email },
+    });
+    return { ok: true };
+  }
+
+  // Unlink a provider, refusing to leave the account without any way to sign in
+  static async unlink(userId: number, provider: string): Promise<UnlinkResult> {
+    const user = await prisma.user.findUnique({ where: { id: userId }, include: { identities: true } });
+    const identity = user?.identities.find(item => item.provider === provider);
+    if (!user || !identity) return { ok: false, reason: 'not_linked' };
+
+    if (!user.password && user.identities.length <= 1) {
+      return { ok: false, reason: 'last_login_method' };
+    }
+
+    await prisma.userIdentity.delete({ where: { id: identity.id } });
+    return { ok: true };
+  }
+
+  static async listIdentities(userId: number) {
+    return prisma.userIdentity.findMany({
+      where: { userId },
+      select: { provider: true, email: true, createdAt: true, lastUsedAt: true },
+      orderBy: { createdAt: 'asc' },
+    });
+  }
+}
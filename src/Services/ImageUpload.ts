@@ -0,0 +1,143 @@
+import { randomUUID } from 'crypto';
+import sharp from 'sharp';
+import { getStorage } from './Storage';
+
+export const MAX_IMAGE_BYTES = parseInt(process.env.UPLOAD_MAX_IMAGE_BYTES || String(5 * 1024 * 1024));
+
+// Decompression bombs: a small file can still claim an enormous canvas
+const MAX_INPUT_PIXELS = 40_000_000;
+
+// Formats accepted from clients, checked against the decoded file rather than the
+// declared Content-Type. Everything is re-encoded as WebP before it is stored.
+export const ACCEPTED_IMAGE_TYPES = ['image/jpeg', 'image/png', 'image/webp'];
+const ACCEPTED_FORMATS = ['jpeg', 'png', 'webp'];
+
+const IMAGE_KINDS = {
+  vehicle: { width: 1600, height: 1200, fit: 'inside', thumbnail: 320 },
+  avatar: { width: 512, height: 512, fit: 'cover', thumbnail: 128 },
+  logo: { width: 512, height: 512, fit: 'inside', thumbnail: 128 },
+} as const;
+
+export type ImageKind = keyof typeof IMAGE_KINDS;
+
+export interface StoredImage {
+  url: string;
+  thumbnailUrl: string;
+}
+
+// Resized and re-encoded, ready to be written to storage
+export interface ProcessedImage {
+  full: Buffer;
+  thumbnail: Buffer;
+}
+
+type ImageError = { ok: false; reason: 'too_large' | 'unsupported_type' | 'invalid_image' };
+
+export type ImageUploadResult = { ok: true; image: StoredImage } | ImageError;
+
+export type ProcessImageResult = { ok: true; image: ProcessedImage } | ImageError;
+
+export const IMAGE_ERRORS: Record<Exclude<ImageUploadResult, { ok: true }>['reason'], { status: number; error: string }> = {
+  too_large: { status: 413, error: `Image must be at most ${Math.floor(MAX_IMAGE_BYTES / (1024 * 1024))} MB` },
+  unsupported_type: { status: 415, error: 'Image must be a JPEG, PNG or WebP file' },
+  invalid_image: { status: 400, error: 'File is not a readable image' },
+};
+
+// Only the names store() generates, so a crafted URL cannot reach other files
+const ownedKeyPattern = (kind: ImageKind, ownerId: number): RegExp => {
+  return new RegExp(`^${kind}s/${ownerId}/[0-9a-f-]{36}(-thumb)?\\.webp$`);
+};
+
+// Image upload service class
+export class ImageUploadService {
+  /**
+   * Validate and resize an image without writing anything, so callers can
+   * reject a bad image before creating the row it belongs to
+   */
+  static async process(kind: ImageKind, data: Buffer): Promise<ProcessImageResult> {
+    if (data.length > MAX_IMAGE_BYTES) return { ok: false, reason: 'too_large' };
+
+    let format: string | undefined;
+    try {
+      format = (await sharp(data, { limitInputPixels: MAX_INPUT_PIXELS }).metadata()).format;
+    } catch {
+      return { ok: false, reason: 'invalid_image' };
+    }
+    if (!format || !ACCEPTED_FORMATS.includes(format)) return { ok: false, reason: 'unsupported_type' };
+
+    const { width, height, fit, thumbnail } = IMAGE_KINDS[kind];
+    try {
+      // rotate() applies the EXIF orientation; metadata (including GPS) is dropped on output
+      const full = await sharp(data, { limitInputPixels: MAX_INPUT_PIXELS })
+        .rotate()
+        .resize(width, height, { fit, withoutEnlargement: true })
+        .webp({ quality: 82 })
+        .toBuffer();
+      const thumb = await sharp(full)
+        .resize(thumbnail, thumbnail, { fit: 'cover' })
+        .webp({ quality: 75 })
+        .toBuffer();
+      return { ok: true, image: { full, thumbnail: thumb } };
+    } catch {
+      return { ok: false, reason: 'invalid_image' };
+    }
+  }
+
+  /**
+   * Decode an image sent inline as a data URL or bare base64 string,
+   * for JSON endpoints that predate multipart uploads, and process it
+   */
+  static async processBase64(kind: ImageKind, encoded: string): Promise<ProcessImageResult> {
+    const base64 = encoded.replace(/^data:[^;,]*;base64,/, '');
+    // Rough pre-check so huge strings are not decoded just to be rejected
+    if (base64.length * 0.75 > MAX_IMAGE_BYTES + 3) return { ok: false, reason: 'too_large' };
+    if (!/^[A-Za-z0-9+/\s]*={0,2}\s*$/.test(base64)) return { ok: false, reason: 'invalid_image' };
+
+    return this.process(kind, Buffer.from(base64, 'base64'));
+  }
+
+  /**
+   * Write a processed image and its thumbnail. ownerId is the vehicle, user
+   * or service center the image belongs to; remove() only deletes under it.
+   */
+  static async save(kind: ImageKind, ownerId: number, image: ProcessedImage): Promise<StoredImage> {
+    const storage = getStorage();
+    const key = `${kind}s/${ownerId}/${randomUUID()}`;
+    await storage.put(`${key}.webp`, image.full, 'image/webp');
+    await storage.put(`${key}-thumb.webp`, image.thumbnail, 'image/webp');
+    return { url: storage.url(`${key}.webp`), thumbnailUrl: storage.url(`${key}-thumb.webp`) };
+  }
+
+  static async store(kind: ImageKind, ownerId: number, data: Buffer): Promise<ImageUploadResult> {
+    const processed = await this.process(kind, data);
+    if (!processed.ok) return processed;
+    return { ok: true, image: await this.save(kind, ownerId, processed.image) };
+  }
+
+  static async storeBase64(kind: ImageKind, ownerId: number, encoded: string): Promise<ImageUploadResult> {
+    const processed = await this.processBase64(kind, encoded);
+    if (!processed.ok) return processed;
+    return { ok: true, image: await this.save(kind, ownerId, processed.image) };
+  }
+
+  /**
+   * Delete images this service stored for the given owner. Anything else is left
+   * alone: external links, older records, and links a user pasted that point at
+   * someone else's file in our storage.
+   */
+  static async remove(kind: ImageKind, ownerId: number, ...urls: Array<string | null | undefined>): Promise<void> {
+    const storage = getStorage();
+    const owned = ownedKeyPattern(kind, ownerId);
+    for (const url of urls) {
+      if (!url) continue;
+      try {
+        const key = storage.keyFromUrl(url);
+        if (!key || !owned.test(key)) continue;
+        await storage.delete(key);
+      } catch (err) {
+        // An orphaned file is not worth failing the request over
+        console.error('Delete stored image error:', err);
+      }
+    }
+  }
+}
@@ -0,0 +1,82 @@
+import crypto from 'crypto';
+import prisma from '../prisma';
+import { ClientInfo } from '../utils/clientInfo';
+import { lookupCountry } from '../utils/geoip';
+
+// Devices are identified by a random token we hand out at sign-in and the client
+// sends back in the x-device-id header. Only its hash is stored, and a value we did
+// not issue to this user never matches, so copying a user agent is not enough.
+const deviceFingerprint = (deviceToken: string): string => {
+  return `id:${crypto.createHash('sha256').update(deviceToken).digest('hex')}`;
+};
+
+const generateDeviceToken = (): string => {
+  return crypto.randomBytes(32).toString('base64url');
+};
+
+// Known device service class
+export class KnownDeviceService {
+  // Record a sign-in from a device; isNew is true the first time (or after it was revoked).
+  // The returned deviceToken must be stored by the client and sent on its next sign-in.
+  static async recognize(userId: number, client: ClientInfo) {
+    const now = new Date();
+    const seen = {
+      label: client.label,
+      userAgent: client.userAgent,
+      lastIp: client.ip,
+      lastCountry: lookupCountry(client.ip),
+      lastSeenAt: now,
+    };
+
+    const existing = client.deviceId
+      ? await prisma.knownDevice.findUnique({
+          where: { userId_fingerprint: { userId, fingerprint: deviceFingerprint(client.deviceId) } },
+        })
+      : null;
+
+    if (!existing) {
+      const deviceToken = generateDeviceToken();
+      const device = await prisma.knownDevice.create({
+        data: { userId, fingerprint: deviceFingerprint(deviceToken), ...seen },
+      });
+      return { device, isNew: true, deviceToken };
+    }
+
+    const device = await prisma.knownDevice.update({
+      where: { id: existing.id },
+      data: { ...seen, revokedAt: null },
+    });
+    return { device, isNew: !!existing.revokedAt, deviceToken: client.deviceId! };
+  }
+
+  static async listDevices(userId: number) {
+    return prisma.knownDevice.findMany({
+      where: { userId, revokedAt: null },
+      select: {
+        id: true,
+        label: true,
+        lastIp: true,
+        lastCountry: true,
+        firstSeenAt: true,
+        lastSeenAt: true,
+      },
+      orderBy: { lastSeenAt: 'desc' },
+    });
+  }
+
+  // Forget a device and end every session opened from it
+  static async revokeDevice(userId: number, deviceId: number): Promise<boolean> {
+    const device = await prisma.knownDevice.findFirst({ where: { id: deviceId, userId } });
+    if (!device) return false;
+
+    const now = new Date();
+    await prisma.$transaction([
+      prisma.knownDevice.update({ where: { id: device.id }, data: { revokedAt: now } }),
+      prisma.session.updateMany({
+        where: { deviceId: device.id, revokedAt: null },
+        data: { revokedAt: now, revokedReason: 'device_revoked' },
+      }),
+    ]);
+    return true;
+  }
+}
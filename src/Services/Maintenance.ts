@@ -0,0 +1,336 @@
+import { MaintenanceRule } from '@prisma/client';
+import prisma from '../prisma';
+import { EmailService } from './Email';
+import { projectMileage, MileageProjection } from '../utils/mileage';
+import { templatesFor, MaintenanceTemplate } from '../utils/maintenanceTemplates';
+
+const DUE_SOON_DAYS = parseInt(process.env.MAINTENANCE_DUE_SOON_DAYS || '30');
+const DUE_SOON_KM = parseInt(process.env.MAINTENANCE_DUE_SOON_KM || '500');
+const FRONTEND_URL = process.env.FRONTEND_URL || 'http://localhost:5173';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export type MaintenanceStatus = 'ok' | 'due_soon' | 'overdue';
+
+export interface MaintenanceTaskStatus {
+  task: string;
+  name: string;
+  intervalKm: number | null;
+  intervalMonths: number | null;
+  isCustom: boolean;
+  isOverridden: boolean;
+  // With no record of the task, the schedule starts from when the vehicle was added
+  lastDone: { date: Date; odometer: number | null; source: 'service_history' | 'manual' | 'vehicle_added' };
+  dueDate: Date | null;
+  dueOdometer: number | null;
+  remainingDays: number | null;
+  remainingKm: number | null;
+  estimatedDueDate: Date | null;
+  status: MaintenanceStatus;
+}
+
+export interface MaintenanceSchedule {
+  vehicleId: number;
+  status: MaintenanceStatus | null;
+  statusText: string | null;
+  mileage: MileageProjection;
+  tasks: MaintenanceTaskStatus[];
+}
+
+export interface MaintenanceRuleInput {
+  name?: string | null;
+  intervalKm?: number | null;
+  intervalMonths?: number | null;
+  enabled?: boolean;
+  lastDoneAt?: Date | null;
+  lastDoneOdometer?: number | null;
+}
+
+export type MaintenanceRuleResult =
+  | { ok: true; rule: MaintenanceRule }
+  | { ok: false; reason: 'custom_task_incomplete' };
+
+type ServiceRecordWithItems = {
+  serviceDate: Date;
+  odometer: number | null;
+  description: string | null;
+  services: { name: string; maintenanceTask: string | null }[];
+};
+
+const STATUS_RANK: Record<MaintenanceStatus, number> = { ok: 0, due_soon: 1, overdue: 2 };
+
+const addMonths = (date: Date, months: number): Date => {
+  const result = new Date(date);
+  result.setMonth(result.getMonth() + months);
+  return result;
+};
+
+// Template tasks with this vehicle's overrides applied, plus its custom tasks
+const mergeRules = (templates: MaintenanceTemplate[], overrides: MaintenanceRule[]) => {
+  const byTask = new Map(overrides.map(rule => [rule.task, rule]));
+
+  const merged = templates.map(template => {
+    const override = byTask.get(template.task);
+    return {
+      task: template.task,
+      name: override?.name ?? template.name,
+      intervalKm: override?.intervalKmCleared ? null : override?.intervalKm ?? template.intervalKm,
+      intervalMonths: override?.intervalMonthsCleared ? null : override?.intervalMonths ?? template.intervalMonths,
+      keywords: template.keywords,
+      enabled: override?.enabled ?? true,
+      isCustom: false,
+      override,
+    };
+  });
+
+  const templateTasks = new Set(templates.map(template => template.task));
+  for (const rule of overrides) {
+    if (templateTasks.has(rule.task)) continue;
+    merged.push({
+      task: rule.task,
+      name: rule.name || rule.task,
+      intervalKm: rule.intervalKm,
+      intervalMonths: rule.intervalMonths,
+      keywords: rule.name ? [rule.name.toLowerCase()] : [],
+      enabled: rule.enabled,
+      isCustom: true,
+      override: rule,
+    });
+  }
+
+  return merged.filter(rule => rule.enabled);
+};
+
+// Most recent service entry that did this task, tagged explicitly or matched by keyword
+const findLastService = (records: ServiceRecordWithItems[], task: string, keywords: string[]) => {
+  const matches = (text: string | null) => !!text && keywords.some(keyword => text.toLowerCase().includes(keyword));
+  return records.find(record =>
+    record.services.some(item => item.maintenanceTask === task || (!item.maintenanceTask && matches(item.name))) ||
+    matches(record.description)
+  );
+};
+
+const summarize = (tasks: MaintenanceTaskStatus[]): { status: MaintenanceStatus | null; statusText: string | null } => {
+  if (tasks.length === 0) return { status: null, statusText: null };
+
+  const overdue = tasks.filter(task => task.status === 'overdue');
+  if (overdue.length > 0) {
+    return { status: 'overdue', statusText: overdue.length === 1 ? `${overdue[0].name} overdue` : `${overdue.length} services overdue` };
+  }
+
+  const dueSoon = tasks.filter(task => task.status === 'due_soon');
+  if (dueSoon.length > 0) {
+    return { status: 'due_soon', statusText: dueSoon.length === 1 ? `${dueSoon[0].name} due soon` : `${dueSoon.length} services due soon` };
+  }
+
+  return { status: 'ok', statusText: 'Maintenance up to date' };
+};
+
+const describeTask = (task: MaintenanceTaskStatus): string => {
+  const parts: string[] = [];
+  if (task.remainingKm !== null) {
+    parts.push(task.remainingKm < 0 ? `${Math.abs(task.remainingKm).toLocaleString()} km overdue` : `in ${task.remainingKm.toLocaleString()} km`);
+  }
+  if (task.dueDate) {
+    parts.push(`${task.dueDate < new Date() ? 'was due' : 'due by'} ${task.dueDate.toDateString()}`);
+  }
+  return `${task.name}${parts.length > 0 ? ` (${parts.join(', ')})` : ''}`;
+};
+
+// Maintenance schedule service class
+export class MaintenanceService {
+  static async getSchedule(vehicleId: number, now: Date = new Date()): Promise<MaintenanceSchedule | null> {
+    const vehicle = await prisma.vehicle.findUnique({
+      where: { id: vehicleId },
+      include: {
+        maintenanceRules: true,
+        odometerReadings: { where: { deletedAt: null } },
+        serviceRecords: {
+          include: { services: { select: { name: true, maintenanceTask: true } } },
+          orderBy: { serviceDate: 'desc' },
+        },
+      },
+    });
+    if (!vehicle) return null;
+
+    const mileage = projectMileage(vehicle.odometerReadings, now);
+    const currentOdometer = mileage.projectedOdometer;
+    const trustedReadings = vehicle.odometerReadings
+      .filter(reading => !reading.flagged)
+      .sort((a, b) => a.recordedAt.getTime() - b.recordedAt.getTime());
+
+    // After a transfer without history the schedule starts over from the handover
+    const { historyStartsAt } = vehicle;
+    const serviceRecords = historyStartsAt
+      ? vehicle.serviceRecords.filter(record => record.createdAt >= historyStartsAt)
+      : vehicle.serviceRecords;
+    const baselineReading = historyStartsAt
+      ? trustedReadings.filter(reading => reading.recordedAt <= historyStartsAt).pop()
+        || trustedReadings.find(reading => reading.recordedAt > historyStartsAt)
+      : trustedReadings[0];
+
+    const tasks = mergeRules(templatesFor(vehicle.vehicleType), vehicle.maintenanceRules).map((rule): MaintenanceTaskStatus => {
+      const service = findLastService(serviceRecords, rule.task, rule.keywords);
+      const manual = rule.override?.lastDoneAt
+        ? { date: rule.override.lastDoneAt, odometer: rule.override.lastDoneOdometer, source: 'manual' as const }
+        : null;
+      const fromHistory = service
+        ? { date: service.serviceDate, odometer: service.odometer, source: 'service_history' as const }
+        : null;
+
+      const lastDone = [fromHistory, manual]
+        .filter((entry): entry is NonNullable<typeof entry> => !!entry)
+        .sort((a, b) => b.date.getTime() - a.date.getTime())[0]
+        || { date: historyStartsAt || vehicle.createdAt, odometer: baselineReading?.value ?? null, source: 'vehicle_added' as const };
+
+      const dueDate = rule.intervalMonths ? addMonths(lastDone.date, rule.intervalMonths) : null;
+      const dueOdometer = rule.intervalKm && lastDone.odometer !== null ? lastDone.odometer + rule.intervalKm : null;
+
+      const remainingDays = dueDate ? Math.floor((dueDate.getTime() - now.getTime()) / DAY_MS) : null;
+      const remainingKm = dueOdometer !== null && currentOdometer !== null ? dueOdometer - currentOdometer : null;
+
+      // When the distance runs out first, estimate the date from how much the vehicle is driven
+      const kmDueDate = remainingKm !== null && mileage.averageDailyDistance
+        ? new Date(now.getTime() + Math.max(0, remainingKm / mileage.averageDailyDistance) * DAY_MS)
+        : null;
+      const estimatedDueDate = [dueDate, kmDueDate]
+        .filter((date): date is Date => !!date)
+        .sort((a, b) => a.getTime() - b.getTime())[0] || null;
+
+      let status: MaintenanceStatus = 'ok';
+      if ((remainingDays !== null && remainingDays < 0) || (remainingKm !== null && remainingKm <= 0)) {
+        status = 'overdue';
+      } else if (
+        (remainingDays !== null && remainingDays <= DUE_SOON_DAYS) ||
+        (remainingKm !== null && remainingKm <= DUE_SOON_KM) ||
+        (estimatedDueDate !== null && estimatedDueDate.getTime() - now.getTime() <= DUE_SOON_DAYS * DAY_MS)
+      ) {
+        status = 'due_soon';
+      }
+
+      return {
+        task: rule.task,
+        name: rule.name,
+        intervalKm: rule.intervalKm,
+        intervalMonths: rule.intervalMonths,
+        isCustom: rule.isCustom,
+        isOverridden: !!rule.override,
+        lastDone,
+        dueDate,
+        dueOdometer,
+        remainingDays,
+        remainingKm,
+        estimatedDueDate,
+        status,
+      };
+    });
+
+    // Most urgent first
+    tasks.sort((a, b) =>
+      STATUS_RANK[b.status] - STATUS_RANK[a.status] ||
+      (a.estimatedDueDate?.getTime() ?? Infinity) - (b.estimatedDueDate?.getTime() ?? Infinity)
+    );
+
+    return { vehicleId, mileage, tasks, ...summarize(tasks) };
+  }
+
+  // Recompute the schedule and store its summary in Vehicle.status/statusText
+  static async refreshStatus(vehicleId: number): Promise<MaintenanceSchedule | null> {
+    const schedule = await MaintenanceService.getSchedule(vehicleId);
+    if (!schedule) return null;
+
+    // Only write when it changed, so updatedAt keeps meaning something
+    const current = await prisma.vehicle.findUnique({ where: { id: vehicleId }, select: { status: true, statusText: true } });
+    if (current && (current.status !== schedule.status || current.statusText !== schedule.statusText)) {
+      await prisma.vehicle.update({
+        where: { id: vehicleId },
+        data: { status: schedule.status, statusText: schedule.statusText },
+      });
+    }
+    return schedule;
+  }
+
+  static async upsertRule(vehicleId: number, task: string, input: MaintenanceRuleInput): Promise<MaintenanceRuleResult> {
+    const vehicle = await prisma.vehicle.findUnique({ where: { id: vehicleId }, select: { vehicleType: true } });
+    const template = vehicle ? templatesFor(vehicle.vehicleType).find(candidate => candidate.task === task) : undefined;
+    const existing = await prisma.maintenanceRule.findUnique({ where: { vehicleId_task: { vehicleId, task } } });
+
+    // A custom task needs a name and at least one interval to be scheduled at all
+    if (!template) {
+      const name = input.name !== undefined ? input.name : existing?.name;
+      const intervalKm = input.intervalKm !== undefined ? input.intervalKm : existing?.intervalKm;
+      const intervalMonths = input.intervalMonths !== undefined ? input.intervalMonths : existing?.intervalMonths;
+      if (!name || (!intervalKm && !intervalMonths)) return { ok: false, reason: 'custom_task_incomplete' };
+    }
+
+    // Only what the owner set is stored, so a later change of vehicle type still picks up
+    // the new template; an interval set to null is remembered as cleared rather than unset
+    const data = {
+      ...input,
+      ...(input.intervalKm !== undefined && { intervalKmCleared: input.intervalKm === null }),
+      ...(input.intervalMonths !== undefined && { intervalMonthsCleared: input.intervalMonths === null }),
+    };
+    const rule = await prisma.maintenanceRule.upsert({
+      where: { vehicleId_task: { vehicleId, task } },
+      create: { vehicleId, task, ...data },
+      update: data,
+    });
+    return { ok: true, rule };
+  }
+
+  // Back to the template, or gone for a custom task
+  static async removeRule(vehicleId: number, task: string): Promise<boolean> {
+    const result = await prisma.maintenanceRule.deleteMany({ where: { vehicleId, task } });
+    return result.count > 0;
+  }
+
+  // Refresh every vehicle's status and email owners about tasks that newly became due or overdue
+  static async sendDueReminders(): Promise<number> {
+    const vehicles = await prisma.vehicle.findMany({
+      where: { user: { deletedAt: null, deletionScheduledFor: null, suspendedAt: null } },
+      select: { id: true, vehicleName: true, model: true, licensePlate: true, user: { select: { email: true } } },
+    });
+
+    let sent = 0;
+    for (const vehicle of vehicles) {
+      try {
+        const schedule = await MaintenanceService.refreshStatus(vehicle.id);
+        if (!schedule) continue;
+
+        const due = schedule.tasks.filter(task => task.status !== 'ok');
+        if (due.length === 0) continue;
+
+        const reminders = due.map(task => ({
+          vehicleId: vehicle.id,
+          task: task.task,
+          status: task.status,
+          cycleKey: `${task.lastDone.source}:${task.lastDone.date.toISOString()}`,
+        }));
+        const alreadySent = await prisma.maintenanceReminder.findMany({
+          where: { vehicleId: vehicle.id, OR: reminders.map(({ task, status, cycleKey }) => ({ task, status, cycleKey })) },
+        });
+        const fresh = reminders.filter(reminder => !alreadySent.some(sentReminder =>
+          sentReminder.task === reminder.task && sentReminder.status === reminder.status && sentReminder.cycleKey === reminder.cycleKey
+        ));
+        if (fresh.length === 0) continue;
+
+        const freshTasks = due.filter(task => fresh.some(reminder => reminder.task === task.task));
+        const delivered = await EmailService.sendMaintenanceReminderEmail(vehicle.user.email, {
+          vehicle: `${vehicle.vehicleName} ${vehicle.model} (${vehicle.licensePlate})`,
+          overdue: freshTasks.filter(task => task.status === 'overdue').map(describeTask),
+          dueSoon: freshTasks.filter(task => task.status === 'due_soon').map(describeTask),
+          scheduleLink: `${FRONTEND_URL}/vehicles/${vehicle.id}/maintenance`,
+        });
+
+        // Unsent reminders are retried on the next run
+        if (delivered) {
+          await prisma.maintenanceReminder.createMany({ data: fresh, skipDuplicates: true });
+          sent++;
+        }
+      } catch (error) {
+        console.error(`Maintenance reminder failed for vehicle ${vehicle.id}:`, error);
+      }
+    }
+    return sent;
+  }
+}
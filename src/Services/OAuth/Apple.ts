@@ -0,0 +1,60 @@
+import jwt from 'jsonwebtoken';
+import { ExternalProfile } from '../Identity';
+import { CodeExchange } from './Provider';
+import { OidcProvider } from './Oidc';
+
+// Sign in with Apple. The client secret is a short-lived ES256 JWT signed with
+// the key downloaded from the Apple developer portal, and the user's name is
+// only ever sent once, as a form field on the first authorization.
+export class AppleProvider extends OidcProvider {
+  private teamId: string;
+  private keyId: string;
+  private privateKey: string;
+
+  constructor() {
+    super({
+      name: 'apple',
+      issuer: 'https://appleid.apple.com',
+      clientId: process.env.APPLE_CLIENT_ID || '',
+      redirectUri: process.env.APPLE_REDIRECT_URI || 'http://localhost:3000/auth/oauth/apple/callback',
+      scope: 'openid email name',
+      callbackMethod: 'POST',
+      extraAuthorizationParams: { response_mode: 'form_post' },
+    });
+    this.teamId = process.env.APPLE_TEAM_ID || '';
+    this.keyId = process.env.APPLE_KEY_ID || '';
+    this.privateKey = (process.env.APPLE_PRIVATE_KEY || '').replace(/\\n/g, '\n');
+  }
+
+  static isConfigured(): boolean {
+    return !!(process.env.APPLE_CLIENT_ID && process.env.APPLE_TEAM_ID && process.env.APPLE_KEY_ID && process.env.APPLE_PRIVATE_KEY);
+  }
+
+  protected async clientSecret(): Promise<string> {
+    return jwt.sign({}, this.privateKey, {
+      algorithm: 'ES256',
+      keyid: this.keyId,
+      issuer: this.teamId,
+      subject: this.config.clientId,
+      audience: 'https://appleid.apple.com',
+      expiresIn: '5m',
+    });
+  }
+
+  async exchangeCode(exchange: CodeExchange): Promise<ExternalProfile> {
+    const profile = await super.exchangeCode(exchange);
+
+    const rawUser = exchange.callbackParams?.user;
+    if (typeof rawUser === 'string') {
+      try {
+        const { name } = JSON.parse(rawUser);
+        const fullName = [name?.firstName, name?.lastName].filter(Boolean).join(' ');
+        if (fullName) profile.name = fullName;
+      } catch (error) {
+        // Name is optional; ignore malformed input
+      }
+    }
+
+    return profile;
+  }
+}
@@ -0,0 +1,84 @@
+import { ExternalProfile } from '../Identity';
+import { AuthorizationRequest, CodeExchange, OAuthProvider, OAuthProviderError } from './Provider';
+
+const GRAPH_VERSION = process.env.FACEBOOK_GRAPH_VERSION || 'v19.0';
+
+// Facebook Login is plain OAuth 2.0 rather than OIDC, so the profile comes from the Graph API
+export class FacebookProvider implements OAuthProvider {
+  name = 'facebook';
+  callbackMethod: 'GET' = 'GET';
+  redirectUri: string;
+  private appId: string;
+  private appSecret: string;
+
+  constructor() {
+    this.appId = process.env.FACEBOOK_APP_ID || '';
+    this.appSecret = process.env.FACEBOOK_APP_SECRET || '';
+    this.redirectUri = process.env.FACEBOOK_REDIRECT_URI || 'http://localhost:3000/auth/oauth/facebook/callback';
+  }
+
+  static isConfigured(): boolean {
+    return !!(process.env.FACEBOOK_APP_ID && process.env.FACEBOOK_APP_SECRET);
+  }
+
+  async getAuthorizationUrl(request: AuthorizationRequest): Promise<string> {
+    const params = new URLSearchParams({
+      client_id: this.appId,
+      redirect_uri: this.redirectUri,
+      response_type: 'code',
+      scope: 'email public_profile',
+      state: request.state,
+      code_challenge: request.codeChallenge,
+      code_challenge_method: 'S256',
+    });
+    return `https://www.facebook.com/${GRAPH_VERSION}/dialog/oauth?${params.toString()}`;
+  }
+
+  async exchangeCode(exchange: CodeExchange): Promise<ExternalProfile> {
+    const params = new URLSearchParams({
+      client_id: this.appId,
+      client_secret: this.appSecret,
+      redirect_uri: this.redirectUri,
+      code: exchange.code,
+      code_verifier: exchange.codeVerifier,
+    });
+    const response = await fetch(`https://graph.facebook.com/${GRAPH_VERSION}/oauth/access_token?${params.toString()}`);
+    if (!response.ok) throw new OAuthProviderError('Code exchange failed for facebook');
+
+    const { access_token } = await response.json() as { access_token?: string };
+    if (!access_token) throw new OAuthProviderError('No access token received');
+
+    return this.fetchProfile(access_token);
+  }
+
+  // Native SDKs hand us a user access token; make sure it was issued to our app before trusting it
+  async verifyToken(accessToken: string): Promise<ExternalProfile> {
+    const params = new URLSearchParams({
+      input_token: accessToken,
+      access_token: `${this.appId}|${this.appSecret}`,
+    });
+    const response = await fetch(`https://graph.facebook.com/debug_token?${params.toString()}`);
+    if (!response.ok) throw new OAuthProviderError('Invalid facebook token');
+
+    const { data } = await response.json() as { data?: { app_id?: string; is_valid?: boolean } };
+    if (!data?.is_valid || data.app_id !== this.appId) throw new OAuthProviderError('Invalid facebook token');
+
+    return this.fetchProfile(accessToken);
+  }
+
+  private async fetchProfile(accessToken: string): Promise<ExternalProfile> {
+    const params = new URLSearchParams({ fields: 'id,name,email', access_token: accessToken });
+    const response = await fetch(`https://graph.facebook.com/${GRAPH_VERSION}/me?${params.toString()}`);
+    if (!response.ok) throw new OAuthProviderError('Could not fetch facebook profile');
+
+    const profile = await response.json() as { id: string; name?: string; email?: string };
+    return {
+      provider: 'facebook',
+      subject: profile.id,
+      email: profile.email,
+      // Facebook does not say whether the address was confirmed, so never auto-link on it
+      emailVerified: false,
+      name: profile.name,
+    };
+  }
+}
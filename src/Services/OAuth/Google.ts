@@ -0,0 +1,53 @@
+import { CodeChallengeMethod, OAuth2Client, TokenPayload } from 'google-auth-library';
+import { ExternalProfile } from '../Identity';
+import { AuthorizationRequest, CodeExchange, OAuthProvider, OAuthProviderError } from './Provider';
+
+const toProfile = (payload: TokenPayload | undefined, nonce?: string): ExternalProfile => {
+  if (!payload) throw new OAuthProviderError('Invalid token payload');
+  if (nonce && payload.nonce !== nonce) throw new OAuthProviderError('Nonce mismatch');
+  return {
+    provider: 'google',
+    subject: payload.sub,
+    email: payload.email,
+    emailVerified: payload.email_verified,
+    name: payload.name,
+  };
+};
+
+export class GoogleProvider implements OAuthProvider {
+  name = 'google';
+  callbackMethod: 'GET' = 'GET';
+  redirectUri: string;
+  private client: OAuth2Client;
+  private clientId: string | undefined;
+
+  constructor() {
+    this.clientId = process.env.GOOGLE_CLIENT_ID;
+    this.redirectUri = process.env.GOOGLE_REDIRECT_URI || 'http://localhost:3000/auth/google/callback';
+    this.client = new OAuth2Client(this.clientId, process.env.GOOGLE_CLIENT_SECRET, this.redirectUri);
+  }
+
+  async getAuthorizationUrl(request: AuthorizationRequest): Promise<string> {
+    return this.client.generateAuthUrl({
+      scope: ['openid', 'email', 'profile'],
+      state: request.state,
+      nonce: request.nonce,
+      code_challenge: request.codeChallenge,
+      code_challenge_method: CodeChallengeMethod.S256,
+      prompt: 'select_account',
+    });
+  }
+
+  async exchangeCode(exchange: CodeExchange): Promise<ExternalProfile> {
+    const { tokens } = await this.client.getToken({ code: exchange.code, codeVerifier: exchange.codeVerifier });
+    if (!tokens.id_token) throw new OAuthProviderError('No ID token received');
+
+    const ticket = await this.client.verifyIdToken({ idToken: tokens.id_token, audience: this.clientId });
+    return toProfile(ticket.getPayload(), exchange.nonce);
+  }
+
+  async verifyToken(idToken: string): Promise<ExternalProfile> {
+    const ticket = await this.client.verifyIdToken({ idToken, audience: this.clientId });
+    return toProfile(ticket.getPayload());
+  }
+}
@@ -0,0 +1,157 @@
+import crypto from 'crypto';
+import jwt from 'jsonwebtoken';
+import { ExternalProfile } from '../Identity';
+import { AuthorizationRequest, CodeExchange, OAuthProvider, OAuthProviderError } from './Provider';
+
+interface DiscoveryDocument {
+  issuer: string;
+  authorization_endpoint: string;
+  token_endpoint: string;
+  jwks_uri: string;
+}
+
+export interface OidcProviderConfig {
+  name: string;
+  issuer: string;
+  clientId: string;
+  clientSecret?: string;
+  redirectUri: string;
+  scope?: string;
+  callbackMethod?: 'GET' | 'POST';
+  extraAuthorizationParams?: Record<string, string>;
+}
+
+const DISCOVERY_TTL_MS = 60 * 60 * 1000;
+
+// Standards-based OpenID Connect provider: endpoints come from the issuer's
+// discovery document and ID tokens are checked against its published JWKS.
+export class OidcProvider implements OAuthProvider {
+  name: string;
+  redirectUri: string;
+  callbackMethod: 'GET' | 'POST';
+  protected config: OidcProviderConfig;
+  private discovery: { document: DiscoveryDocument; fetchedAt: number } | null = null;
+  private keys: Map<string, crypto.KeyObject> = new Map();
+
+  constructor(config: OidcProviderConfig) {
+    this.config = config;
+    this.name = config.name;
+    this.redirectUri = config.redirectUri;
+    this.callbackMethod = config.callbackMethod || 'GET';
+  }
+
+  protected async getDiscovery(): Promise<DiscoveryDocument> {
+    if (this.discovery && Date.now() - this.discovery.fetchedAt < DISCOVERY_TTL_MS) {
+      return this.discovery.document;
+    }
+
+    const response = await fetch(`${this.config.issuer.replace(/\/$/, '')}/.well-known/openid-configuration`);
+    if (!response.ok) throw new OAuthProviderError(`Discovery failed for ${this.name}`);
+
+    const document = await response.json() as DiscoveryDocument;
+    this.discovery = { document, fetchedAt: Date.now() };
+    return document;
+  }
+
+  // Signing key for a kid, refetching the JWKS once when the key is unknown (rotation)
+  private async getSigningKey(kid: string | undefined): Promise<crypto.KeyObject> {
+    const cacheKey = kid || 'default';
+    const cached = this.keys.get(cacheKey);
+    if (cached) return cached;
+
+    const { jwks_uri } = await this.getDiscovery();
+    const response = await fetch(jwks_uri);
+    if (!response.ok) throw new OAuthProviderError(`Could not fetch signing keys for ${this.name}`);
+
+    const { keys } = await response.json() as { keys: Array<crypto.JsonWebKey & { kid?: string; use?: string }> };
+    this.keys.clear();
+    for (const jwk of keys) {
+      if (jwk.use && jwk.use !== 'sig') continue;
+      this.keys.set(jwk.kid || 'default', crypto.createPublicKey({ key: jwk, format: 'jwk' }));
+    }
+
+    const key = this.keys.get(cacheKey);
+    if (!key) throw new OAuthProviderError('Unknown signing key');
+    return key;
+  }
+
+  protected async clientSecret(): Promise<string | undefined> {
+    return this.config.clientSecret;
+  }
+
+  protected mapClaims(claims: jwt.JwtPayload): ExternalProfile {
+    return {
+      provider: this.name,
+      subject: String(claims.sub),
+      email: claims.email,
+      emailVerified: claims.email_verified === true || claims.email_verified === 'true',
+      name: claims.name,
+    };
+  }
+
+  async verifyIdToken(idToken: string, nonce?: string): Promise<ExternalProfile> {
+    const decoded = jwt.decode(idToken, { complete: true });
+    if (!decoded || typeof decoded.payload === 'string') throw new OAuthProviderError('Malformed ID token');
+
+    const { issuer } = await this.getDiscovery();
+    const key = await this.getSigningKey(decoded.header.kid);
+
+    let claims: jwt.JwtPayload;
+    try {
+      claims = jwt.verify(idToken, key, {
+        algorithms: ['RS256', 'ES256'],
+        issuer,
+        audience: this.config.clientId,
+      }) as jwt.JwtPayload;
+    } catch (error) {
+      throw new OAuthProviderError('Invalid ID token');
+    }
+
+    if (nonce && claims.nonce !== nonce) throw new OAuthProviderError('Nonce mismatch');
+    return this.mapClaims(claims);
+  }
+
+  async getAuthorizationUrl(request: AuthorizationRequest): Promise<string> {
+    const { authorization_endpoint } = await this.getDiscovery();
+    const params = new URLSearchParams({
+      client_id: this.config.clientId,
+      redirect_uri: this.redirectUri,
+      response_type: 'code',
+      scope: this.config.scope || 'openid email profile',
+      state: request.state,
+      nonce: request.nonce,
+      code_challenge: request.codeChallenge,
+      code_challenge_method: 'S256',
+      ...this.config.extraAuthorizationParams,
+    });
+    return `${authorization_endpoint}?${params.toString()}`;
+  }
+
+  async exchangeCode(exchange: CodeExchange): Promise<ExternalProfile> {
+    const { token_endpoint } = await this.getDiscovery();
+    const secret = await this.clientSecret();
+
+    const response = await fetch(token_endpoint, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+      body: new URLSearchParams({
+        grant_type: 'authorization_code',
+        code: exchange.code,
+        redirect_uri: this.redirectUri,
+        client_id: this.config.clientId,
+        code_verifier: exchange.codeVerifier,
+        ...(secret && { client_secret: secret }),
+      }).toString(),
+    });
+    if (!response.ok) throw new OAuthProviderError(`Code exchange failed for ${this.name}`);
+
+    const tokens = await response.json() as { id_token?: string };
+    if (!tokens.id_token) throw new OAuthProviderError('No ID token received');
+
+    return this.verifyIdToken(tokens.id_token, exchange.nonce);
+  }
+
+  async verifyToken(idToken: string): Promise<ExternalProfile> {
+    return this.verifyIdToken(idToken);
+  }
+}
@@ -0,0 +1,36 @@
+import { ExternalProfile } from '../Identity';
+
+export interface AuthorizationRequest {
+  state: string;
+  nonce: string;
+  codeChallenge: string; // S256 PKCE challenge
+}
+
+export interface CodeExchange {
+  code: string;
+  codeVerifier: string;
+  nonce: string;
+  // Extra fields some providers post back to the callback (Apple sends the user's name once)
+  callbackParams?: Record<string, unknown>;
+}
+
+// A sign-in provider. Each one maps whatever the provider returns onto an
+// ExternalProfile so account resolution and linking stay provider-neutral.
+export interface OAuthProvider {
+  name: string;
+  redirectUri: string;
+  // Apple posts the callback as a form instead of redirecting with a query string
+  callbackMethod: 'GET' | 'POST';
+
+  getAuthorizationUrl(request: AuthorizationRequest): Promise<string>;
+  exchangeCode(exchange: CodeExchange): Promise<ExternalProfile>;
+  // Validate a token obtained by a native SDK on the device (ID token, or access token for Facebook)
+  verifyToken(token: string): Promise<ExternalProfile>;
+}
+
+export class OAuthProviderError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'OAuthProviderError';
+  }
+}
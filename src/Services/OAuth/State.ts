@@ -0,0 +1,61 @@
+import crypto from 'crypto';
+import prisma from '../../prisma';
+
+const STATE_TTL_MINUTES = 10;
+const DEFAULT_CALLBACK = (process.env.FRONTEND_URL || 'http://localhost:5173') + '/auth/callback';
+
+// Frontend pages we are willing to redirect to after sign-in, e.g.
+// "https://app.motortrace.lk/auth/callback,motortrace://auth/callback"
+const ALLOWED_CALLBACKS = (process.env.OAUTH_ALLOWED_CALLBACK_URLS || DEFAULT_CALLBACK)
+  .split(',')
+  .map(url => url.trim())
+  .filter(Boolean);
+
+const base64url = (buffer: Buffer): string => buffer.toString('base64url');
+
+// The requested frontend callback if it is on the allow-list, the default when none was asked for, otherwise null
+export const resolveFrontendCallback = (requested: unknown): string | null => {
+  if (requested === undefined || requested === '') return ALLOWED_CALLBACKS[0];
+  if (typeof requested !== 'string') return null;
+  return ALLOWED_CALLBACKS.includes(requested) ? requested : null;
+};
+
+export const defaultFrontendCallback = (): string => ALLOWED_CALLBACKS[0];
+
+// OAuth state service class
+export class OAuthStateService {
+  // Persist a single-use state with its PKCE verifier and nonce; only the state id leaves the server
+  static async create(provider: string, redirectTo: string): Promise<{ state: string; nonce: string; codeChallenge: string }> {
+    const state = base64url(crypto.randomBytes(32));
+    const nonce = base64url(crypto.randomBytes(16));
+    const codeVerifier = base64url(crypto.randomBytes(32));
+    const codeChallenge = base64url(crypto.createHash('sha256').update(codeVerifier).digest());
+
+    await prisma.oAuthState.create({
+      data: {
+        id: state,
+        provider,
+        codeVerifier,
+        nonce,
+        redirectTo,
+        expiresAt: new Date(Date.now() + STATE_TTL_MINUTES * 60 * 1000),
+      },
+    });
+
+    return { state, nonce, codeChallenge };
+  }
+
+  // Look up and delete a state; null when unknown, expired, reused or for another provider
+  static async consume(state: unknown, provider: string) {
+    if (typeof state !== 'string' || !state) return null;
+
+    const record = await prisma.oAuthState.findUnique({ where: { id: state } });
+    if (!record) return null;
+
+    const deleted = await prisma.oAuthState.deleteMany({ where: { id: state } });
+    if (deleted.count === 0) return null;
+
+    if (record.provider !== provider || record.expiresAt < new Date()) return null;
+    return record;
+  }
+}
@@ -0,0 +1,39 @@
+import { OAuthProvider } from './Provider';
+import { GoogleProvider } from './Google';
+import { AppleProvider } from './Apple';
+import { FacebookProvider } from './Facebook';
+import { OidcProvider } from './Oidc';
+
+const providers = new Map<string, OAuthProvider>();
+
+providers.set('google', new GoogleProvider());
+
+if (AppleProvider.isConfigured()) {
+  providers.set('apple', new AppleProvider());
+}
+
+if (FacebookProvider.isConfigured()) {
+  providers.set('facebook', new FacebookProvider());
+}
+
+// Local OIDC provider for development and tests (see scripts/mock-oidc-provider.ts)
+if (process.env.OIDC_MOCK_ISSUER && process.env.NODE_ENV !== 'production') {
+  providers.set('mock', new OidcProvider({
+    name: 'mock',
+    issuer: process.env.OIDC_MOCK_ISSUER,
+    clientId: process.env.OIDC_MOCK_CLIENT_ID || 'motortrace',
+    clientSecret: process.env.OIDC_MOCK_CLIENT_SECRET || 'mock-secret',
+    redirectUri: process.env.OIDC_MOCK_REDIRECT_URI || 'http://localhost:3000/auth/oauth/mock/callback',
+  }));
+}
+
+export const getOAuthProvider = (name: string): OAuthProvider | undefined => {
+  return providers.get(name);
+};
+
+export const listOAuthProviders = (): string[] => {
+  return Array.from(providers.keys());
+};
+
+export { OAuthProvider, OAuthProviderError } from './Provider';
+export { OAuthStateService, resolveFrontendCallback, defaultFrontendCallback } from './State';
@@ -0,0 +1,130 @@
+import { OdometerReading } from '@prisma/client';
+import prisma from '../prisma';
+import { projectMileage, MileageProjection } from '../utils/mileage';
+
+export type OdometerSource = 'owner' | 'service_center' | 'import';
+
+// A reading removed this soon after it was entered is taken to have been a typo
+const TYPO_GRACE_HOURS = 24;
+
+export interface OdometerReadingInput {
+  value: number;
+  recordedAt: Date;
+  source: OdometerSource;
+  serviceRecordId?: number;
+  fuelEntryId?: number;
+  createdById?: number;
+}
+
+// Readings the new one has to fit between
+export interface OdometerNeighbours {
+  previous: { value: number; recordedAt: Date } | null;
+  next: { value: number; recordedAt: Date } | null;
+}
+
+export type AddReadingResult =
+  | { ok: true; reading: OdometerReading }
+  | ({ ok: false; reason: 'out_of_order' } & OdometerNeighbours);
+
+export type RemoveReadingResult =
+  | { ok: true }
+  | { ok: false; reason: 'not_found' | 'not_owner_reading' | 'service_record' | 'fuel_entry' };
+
+// Odometer reading service class
+export class OdometerService {
+  // Highest trusted reading before the date and lowest after it; a valid reading lies in between
+  static async findNeighbours(vehicleId: number, recordedAt: Date, excludeId?: number): Promise<OdometerNeighbours> {
+    const where = { vehicleId, flagged: false, deletedAt: null, ...(excludeId && { id: { not: excludeId } }) };
+    const [previous, next] = await Promise.all([
+      prisma.odometerReading.findFirst({
+        where: { ...where, recordedAt: { lte: recordedAt } },
+        orderBy: { value: 'desc' },
+        select: { value: true, recordedAt: true },
+      }),
+      prisma.odometerReading.findFirst({
+        where: { ...where, recordedAt: { gt: recordedAt } },
+        orderBy: { value: 'asc' },
+        select: { value: true, recordedAt: true },
+      }),
+    ]);
+    return { previous, next };
+  }
+
+  static isInOrder(value: number, { previous, next }: OdometerNeighbours): boolean {
+    return (!previous || value >= previous.value) && (!next || value <= next.value);
+  }
+
+  // Whether the value is below a removed reading from on or before the date. Deleting the
+  // higher readings first must not make a rollback look in order, so such values are flagged.
+  static async isBelowRemovedReading(vehicleId: number, value: number, recordedAt: Date): Promise<boolean> {
+    const removed = await prisma.odometerReading.findMany({
+      where: { vehicleId, flagged: false, deletedAt: { not: null }, recordedAt: { lte: recordedAt }, value: { gt: value } },
+      select: { createdAt: true, deletedAt: true },
+    });
+    return removed.some(reading => reading.deletedAt!.getTime() - reading.createdAt.getTime() > TYPO_GRACE_HOURS * 60 * 60 * 1000);
+  }
+
+  // Owners get an error for an out-of-order value (usually a typo). Service center and
+  // import readings record what the odometer showed, so they are kept and flagged as a
+  // possible rollback instead.
+  static async add(vehicleId: number, input: OdometerReadingInput): Promise<AddReadingResult> {
+    const neighbours = await OdometerService.findNeighbours(vehicleId, input.recordedAt);
+    const inOrder = OdometerService.isInOrder(input.value, neighbours);
+
+    if (!inOrder && input.source === 'owner') {
+      return { ok: false, reason: 'out_of_order', ...neighbours };
+    }
+    const flagged = !inOrder || await OdometerService.isBelowRemovedReading(vehicleId, input.value, input.recordedAt);
+
+    const reading = await prisma.odometerReading.create({
+      data: {
+        vehicleId,
+        value: input.value,
+        recordedAt: input.recordedAt,
+        source: input.source,
+        serviceRecordId: input.serviceRecordId ?? null,
+        fuelEntryId: input.fuelEntryId ?? null,
+        createdById: input.createdById ?? null,
+        flagged,
+      },
+    });
+
+    if (flagged) {
+      console.warn(`Possible odometer rollback on vehicle ${vehicleId}: ${input.value} km from ${input.source}`);
+    }
+
+    return { ok: true, reading };
+  }
+
+  static async list(vehicleId: number) {
+    return prisma.odometerReading.findMany({
+      where: { vehicleId, deletedAt: null },
+      orderBy: [{ recordedAt: 'desc' }, { id: 'desc' }],
+    });
+  }
+
+  // Readings from a service center are evidence and stay; owners can only undo their own entries.
+  // Removed readings are only hidden, see isBelowRemovedReading.
+  static async remove(vehicleId: number, readingId: number): Promise<RemoveReadingResult> {
+    const reading = await prisma.odometerReading.findFirst({ where: { id: readingId, vehicleId, deletedAt: null } });
+    if (!reading) return { ok: false, reason: 'not_found' };
+    if (reading.source === 'service_center') return { ok: false, reason: 'not_owner_reading' };
+    if (reading.serviceRecordId) return { ok: false, reason: 'service_record' };
+    if (reading.fuelEntryId) return { ok: false, reason: 'fuel_entry' };
+
+    await prisma.odometerReading.update({ where: { id: readingId }, data: { deletedAt: new Date() } });
+    return { ok: true };
+  }
+
+  static async projection(vehicleId: number): Promise<MileageProjection> {
+    const readings = await prisma.odometerReading.findMany({ where: { vehicleId, deletedAt: null } });
+    return projectMileage(readings);
+  }
+
+  // One query for a list of vehicles, e.g. the cars summary
+  static async projections(vehicleIds: number[]): Promise<Map<number, MileageProjection>> {
+    const readings = await prisma.odometerReading.findMany({ where: { vehicleId: { in: vehicleIds }, deletedAt: null } });
+    const now = new Date();
+    return new Map(vehicleIds.map(id => [id, projectMileage(readings.filter(reading => reading.vehicleId === id), now)]));
+  }
+}
@@ -0,0 +1,66 @@
+import bcrypt from 'bcrypt';
+import prisma from '../prisma';
+import { checkPasswordPolicy, PASSWORD_POLICY } from '../utils/passwordPolicy';
+
+const BCRYPT_ROUNDS = 10;
+
+// Password service class
+export class PasswordService {
+  // Policy violations for a new password, including reuse of a recent one when the user exists
+  static async validate(
+    password: string,
+    user: { id?: number; email?: string | null; name?: string | null }
+  ): Promise<string[]> {
+    const errors = checkPasswordPolicy(password, user);
+    if (errors.length > 0 || !user.id) return errors;
+
+    if (await PasswordService.isRecentlyUsed(user.id, password)) {
+      errors.push(`Password must be different from your last ${PASSWORD_POLICY.historyCount} passwords`);
+    }
+    return errors;
+  }
+
+  static async isRecentlyUsed(userId: number, password: string): Promise<boolean> {
+    const [user, history] = await Promise.all([
+      prisma.user.findUnique({ where: { id: userId }, select: { password: true } }),
+      prisma.passwordHistory.findMany({
+        where: { userId },
+        orderBy: { createdAt: 'desc' },
+        take: PASSWORD_POLICY.historyCount,
+      }),
+    ]);
+
+    // The current hash may predate the history table
+    const hashes = [user?.password, ...history.map(entry => entry.hash)].filter((hash): hash is string => !!hash);
+    for (const hash of hashes) {
+      if (await bcrypt.compare(password, hash)) return true;
+    }
+    return false;
+  }
+
+  static async hash(password: string): Promise<string> {
+    return bcrypt.hash(password, BCRYPT_ROUNDS);
+  }
+
+  // Remember a hash that was just set and forget those beyond the history window
+  static async recordHistory(userId: number, hash: string): Promise<void> {
+    await prisma.passwordHistory.create({ data: { userId, hash } });
+
+    const stale = await prisma.passwordHistory.findMany({
+      where: { userId },
+      orderBy: { createdAt: 'desc' },
+      skip: PASSWORD_POLICY.historyCount,
+      select: { id: true },
+    });
+    if (stale.length > 0) {
+      await prisma.passwordHistory.deleteMany({ where: { id: { in: stale.map(entry => entry.id) } } });
+    }
+  }
+
+  // Store a password that has already passed validate()
+  static async setPassword(userId: number, password: string): Promise<void> {
+    const hash = await PasswordService.hash(password);
+    await prisma.user.update({ where: { id: userId }, data: { password: hash } });
+    await PasswordService.recordHistory(userId, hash);
+  }
+}
@@ -0,0 +1,236 @@
+import crypto from 'crypto';
+import prisma from '../prisma';
+
+export type CenterRole = 'owner' | 'manager' | 'advisor' | 'technician';
+
+export type CenterPermission =
+  | 'services:read'
+  | 'services:write'
+  | 'services:delete'
+  | 'packages:read'
+  | 'packages:write'
+  | 'packages:delete'
+  | 'staff:read'
+  | 'staff:manage'
+  | 'history:verify'
+  | 'profile:write';
+
+export const CENTER_ROLES: CenterRole[] = ['owner', 'manager', 'advisor', 'technician'];
+
+// What each staff role may do at its center
+export const CENTER_ROLE_PERMISSIONS: Record<CenterRole, CenterPermission[]> = {
+  owner: [
+    'services:read', 'services:write', 'services:delete',
+    'packages:read', 'packages:write', 'packages:delete',
+    'staff:read', 'staff:manage',
+    'history:verify',
+    'profile:write',
+  ],
+  manager: [
+    'services:read', 'services:write', 'services:delete',
+    'packages:read', 'packages:write', 'packages:delete',
+    'staff:read', 'staff:manage',
+    'history:verify',
+    'profile:write',
+  ],
+  advisor: ['services:read', 'packages:read', 'packages:write', 'staff:read'],
+  technician: ['services:read', 'packages:read'],
+};
+
+const INVITATION_TTL_DAYS = parseInt(process.env.STAFF_INVITATION_TTL_DAYS || '7');
+
+export type StaffResult =
+  | { ok: true }
+  | { ok: false; reason: 'not_found' | 'forbidden' | 'self' | 'already_member' };
+
+export type AcceptResult =
+  | { ok: true; serviceCenterId: number; role: CenterRole }
+  | { ok: false; reason: 'invalid' | 'expired' | 'email_mismatch' };
+
+const hashToken = (token: string): string => {
+  return crypto.createHash('sha256').update(token).digest('hex');
+};
+
+const normalizeEmail = (email: string): string => {
+  return String(email).trim().toLowerCase();
+};
+
+// Only owners may create, change or remove other owners
+const canManageRole = (actorRole: CenterRole, targetRole: CenterRole): boolean => {
+  return actorRole === 'owner' || targetRole !== 'owner';
+};
+
+// Service center staff service class
+export class ServiceCenterStaffService {
+  static hasPermission(role: CenterRole, permission: CenterPermission): boolean {
+    return CENTER_ROLE_PERMISSIONS[role].includes(permission);
+  }
+
+  // The user's role at a center, or null when they do not work there
+  static async getRole(serviceCenterId: number, userId: number): Promise<CenterRole | null> {
+    const center = await prisma.serviceCenterProfile.findUnique({
+      where: { id: serviceCenterId },
+      include: { members: { where: { userId } } },
+    });
+    if (!center) return null;
+    if (center.userId === userId) return 'owner';
+    return (center.members[0]?.role as CenterRole) || null;
+  }
+
+  // Centers the user can act for, including the one they own
+  static async listCentersForUser(userId: number) {
+    const [owned, memberships] = await Promise.all([
+      prisma.serviceCenterProfile.findUnique({
+        where: { userId },
+        select: { id: true, businessName: true },
+      }),
+      prisma.serviceCenterMember.findMany({
+        where: { userId },
+        include: { serviceCenter: { select: { id: true, businessName: true } } },
+      }),
+    ]);
+
+    const centers = memberships
+      .filter(membership => membership.serviceCenterId !== owned?.id)
+      .map(membership => ({ ...membership.serviceCenter, role: membership.role as CenterRole }));
+
+    return owned ? [{ ...owned, role: 'owner' as CenterRole }, ...centers] : centers;
+  }
+
+  static async listStaff(serviceCenterId: number) {
+    const [center, members, invitations] = await Promise.all([
+      prisma.serviceCenterProfile.findUnique({
+        where: { id: serviceCenterId },
+        select: { user: { select: { id: true, email: true, name: true } } },
+      }),
+      prisma.serviceCenterMember.findMany({
+        where: { serviceCenterId },
+        include: { user: { select: { id: true, email: true, name: true } } },
+        orderBy: { createdAt: 'asc' },
+      }),
+      prisma.serviceCenterInvitation.findMany({
+        where: { serviceCenterId, acceptedAt: null, expiresAt: { gt: new Date() } },
+        select: { id: true, email: true, role: true, expiresAt: true, createdAt: true },
+        orderBy: { createdAt: 'desc' },
+      }),
+    ]);
+
+    const staff = members
+      .filter(member => member.userId !== center?.user.id)
+      .map(member => ({ ...member.user, role: member.role, memberSince: member.createdAt }));
+
+    return {
+      members: center ? [{ ...center.user, role: 'owner', memberSince: null }, ...staff] : staff,
+      invitations,
+    };
+  }
+
+  // Create an invitation and hand back its one-time token for the email link
+  static async invite(
+    serviceCenterId: number,
+    invitedBy: { userId: number; role: CenterRole },
+    email: string,
+    role: CenterRole
+  ): Promise<{ ok: true; token: string; expiresInDays: number } | { ok: false; reason: 'forbidden' | 'already_member' }> {
+    if (!canManageRole(invitedBy.role, role)) return { ok: false, reason: 'forbidden' };
+
+    const normalized = normalizeEmail(email);
+    const existingUser = await prisma.user.findUnique({ where: { email: normalized } });
+    if (existingUser && await ServiceCenterStaffService.getRole(serviceCenterId, existingUser.id)) {
+      return { ok: false, reason: 'already_member' };
+    }
+
+    const token = crypto.randomBytes(32).toString('base64url');
+
+    // A new invitation replaces any pending one for the same address
+    await prisma.$transaction([
+      prisma.serviceCenterInvitation.deleteMany({
+        where: { serviceCenterId, email: normalized, acceptedAt: null },
+      }),
+      prisma.serviceCenterInvitation.create({
+        data: {
+          serviceCenterId,
+          email: normalized,
+          role,
+          tokenHash: hashToken(token),
+          invitedById: invitedBy.userId,
+          expiresAt: new Date(Date.now() + INVITATION_TTL_DAYS * 24 * 60 * 60 * 1000),
+        },
+      }),
+    ]);
+
+    return { ok: true, token, expiresInDays: INVITATION_TTL_DAYS };
+  }
+
+  // The invitation is bound to the invited address, so only that account can accept it
+  static async acceptInvitation(token: string, user: { id: number; email: string }): Promise<AcceptResult> {
+    const invitation = await prisma.serviceCenterInvitation.findUnique({ where: { tokenHash: hashToken(token) } });
+    if (!invitation || invitation.acceptedAt) return { ok: false, reason: 'invalid' };
+    if (invitation.expiresAt < new Date()) return { ok: false, reason: 'expired' };
+    if (normalizeEmail(user.email) !== invitation.email) return { ok: false, reason: 'email_mismatch' };
+
+    const role = invitation.role as CenterRole;
+    const accepted = await prisma.$transaction(async (tx) => {
+      const consumed = await tx.serviceCenterInvitation.updateMany({
+        where: { id: invitation.id, acceptedAt: null },
+        data: { acceptedAt: new Date() },
+      });
+      if (consumed.count === 0) return false;
+
+      await tx.serviceCenterMember.upsert({
+        where: { serviceCenterId_userId: { serviceCenterId: invitation.serviceCenterId, userId: user.id } },
+        update: { role },
+        create: { serviceCenterId: invitation.serviceCenterId, userId: user.id, role },
+      });
+      return true;
+    });
+
+    if (!accepted) return { ok: false, reason: 'invalid' };
+    return { ok: true, serviceCenterId: invitation.serviceCenterId, role };
+  }
+
+  static async revokeInvitation(serviceCenterId: number, invitationId: number, actorRole: CenterRole): Promise<StaffResult> {
+    const invitation = await prisma.serviceCenterInvitation.findFirst({
+      where: { id: invitationId, serviceCenterId, acceptedAt: null },
+    });
+    if (!invitation) return { ok: false, reason: 'not_found' };
+    if (!canManageRole(actorRole, invitation.role as CenterRole)) return { ok: false, reason: 'forbidden' };
+
+    await prisma.serviceCenterInvitation.delete({ where: { id: invitation.id } });
+    return { ok: true };
+  }
+
+  static async changeRole(
+    serviceCenterId: number,
+    actor: { userId: number; role: CenterRole },
+    userId: number,
+    role: CenterRole
+  ): Promise<StaffResult> {
+    if (actor.userId === userId) return { ok: false, reason: 'self' };
+
+    const member = await prisma.serviceCenterMember.findUnique({
+      where: { serviceCenterId_userId: { serviceCenterId, userId } },
+    });
+    if (!member) return { ok: false, reason: 'not_found' };
+    if (!canManageRole(actor.role, member.role as CenterRole) || !canManageRole(actor.role, role)) {
+      return { ok: false, reason: 'forbidden' };
+    }
+
+    await prisma.serviceCenterMember.update({ where: { id: member.id }, data: { role } });
+    return { ok: true };
+  }
+
+  // The profile's own user is not a removable member
+  static async removeMember(serviceCenterId: number, actor: { userId: number; role: CenterRole }, userId: number): Promise<StaffResult> {
+    if (actor.userId === userId) return { ok: false, reason: 'self' };
+
+    const member = await prisma.serviceCenterMember.findUnique({
+      where: { serviceCenterId_userId: { serviceCenterId, userId } },
+    });
+    if (!member) return { ok: false, reason: 'not_found' };
+    if (!canManageRole(actor.role, member.role as CenterRole)) return { ok: false, reason: 'forbidden' };
+
+    await prisma.serviceCenterMember.delete({ where: { id: member.id } });
+    return { ok: true };
+  }
+}
@@ -0,0 +1,288 @@
+import { Prisma } from '@prisma/client';
+import prisma from '../prisma';
+import { OdometerService } from './Odometer';
+
+export interface ServiceRecordInput {
+  serviceDate: string | Date;
+  odometer?: number | null;
+  serviceCenterId?: number | null;
+  serviceCenterName?: string | null;
+  description?: string | null;
+  cost?: number | null;
+  notes?: string | null;
+  services?: { shopServiceId?: number; name?: string; price?: number; maintenanceTask?: string }[];
+  parts?: { name: string; partNumber?: string; quantity?: number; unitPrice?: number }[];
+  attachments?: { url: string; fileName?: string; mimeType?: string }[];
+}
+
+export type ServiceRecordResult =
+  | { ok: true; record: ServiceRecordWithDetails }
+  | { ok: false; reason: 'not_found' | 'verified' | 'center_not_found' | 'invalid_services' | 'odometer_out_of_order' };
+
+export type RemoveRecordResult =
+  | { ok: true }
+  | { ok: false; reason: 'not_found' | 'verified' };
+
+const RECORD_INCLUDE = {
+  services: true,
+  parts: true,
+  attachments: true,
+  serviceCenter: { select: { id: true, businessName: true, address: true } },
+} satisfies Prisma.ServiceRecordInclude;
+
+export type ServiceRecordWithDetails = Prisma.ServiceRecordGetPayload<{ include: typeof RECORD_INCLUDE }>;
+
+// Sum of the priced services and parts, used when no total was given
+const computeCost = (
+  services: { price?: number | null }[],
+  parts: { quantity?: number; unitPrice?: number | null }[]
+): number | null => {
+  const priced = [
+    ...services.map(item => item.price),
+    ...parts.map(part => part.unitPrice == null ? undefined : part.unitPrice * (part.quantity || 1)),
+  ].filter((value): value is number => typeof value === 'number');
+  return priced.length > 0 ? priced.reduce((total, value) => total + value, 0) : null;
+};
+
+// Resolve the services performed; linked ones must belong to the record's center
+const resolveServiceItems = async (
+  services: NonNullable<ServiceRecordInput['services']>,
+  serviceCenterId: number | null
+): Promise<{ shopServiceId: number | null; name: string; price: number | null; maintenanceTask: string | null }[] | null> => {
+  const ids = services.map(item => item.shopServiceId).filter((id): id is number => typeof id === 'number');
+  if (ids.length > 0 && !serviceCenterId) return null;
+
+  const shopServices = ids.length > 0
+    ? await prisma.shopService.findMany({ where: { id: { in: ids }, serviceCenterId: serviceCenterId! } })
+    : [];
+  if (shopServices.length !== new Set(ids).size) return null;
+
+  const items = [];
+  for (const item of services) {
+    const shopService = shopServices.find(service => service.id === item.shopServiceId);
+    const name = item.name || shopService?.name;
+    if (!name) return null;
+    items.push({
+      shopServiceId: shopService?.id ?? null,
+      name,
+      price: item.price ?? shopService?.price ?? null,
+      maintenanceTask: item.maintenanceTask ?? null,
+    });
+  }
+  return items;
+};
+
+// Build the row data shared by create and update, or the reason it is invalid
+const buildRecordData = async (input: ServiceRecordInput) => {
+  const serviceCenterId = input.serviceCenterId ?? null;
+  let serviceCenterName = input.serviceCenterName ?? null;
+
+  if (serviceCenterId) {
+    const center = await prisma.serviceCenterProfile.findUnique({ where: { id: serviceCenterId } });
+    if (!center) return { ok: false as const, reason: 'center_not_found' as const };
+    serviceCenterName = center.businessName;
+  }
+
+  const services = await resolveServiceItems(input.services || [], serviceCenterId);
+  if (!services) return { ok: false as const, reason: 'invalid_services' as const };
+
+  const parts = (input.parts || []).map(part => ({
+    name: part.name,
+    partNumber: part.partNumber ?? null,
+    quantity: part.quantity ?? 1,
+    unitPrice: part.unitPrice ?? null,
+  }));
+  const attachments = (input.attachments || []).map(attachment => ({
+    url: attachment.url,
+    fileName: attachment.fileName ?? null,
+    mimeType: attachment.mimeType ?? null,
+  }));
+
+  return {
+    ok: true as const,
+    data: {
+      serviceDate: new Date(input.serviceDate),
+      odometer: input.odometer ?? null,
+      serviceCenterId,
+      serviceCenterName,
+      description: input.description ?? null,
+      cost: input.cost ?? computeCost(services, parts),
+      notes: input.notes ?? null,
+    },
+    services,
+    parts,
+    attachments,
+  };
+};
+
+// Vehicle service history service class
+export class ServiceHistoryService {
+  // Records the current owner may see; a transfer without history hides the earlier ones
+  static async visibleWhere(vehicleId: number): Promise<Prisma.ServiceRecordWhereInput> {
+    const vehicle = await prisma.vehicle.findUnique({ where: { id: vehicleId }, select: { historyStartsAt: true } });
+    return { vehicleId, ...(vehicle?.historyStartsAt && { createdAt: { gte: vehicle.historyStartsAt } }) };
+  }
+
+  static async list(vehicleId: number, options: { page: number; limit: number }) {
+    const where = await ServiceHistoryService.visibleWhere(vehicleId);
+    const [records, total] = await Promise.all([
+      prisma.serviceRecord.findMany({
+        where,
+        include: RECORD_INCLUDE,
+        orderBy: [{ serviceDate: 'desc' }, { id: 'desc' }],
+        skip: (options.page - 1) * options.limit,
+        take: options.limit,
+      }),
+      prisma.serviceRecord.count({ where }),
+    ]);
+    return { records, total, page: options.page, limit: options.limit };
+  }
+
+  static async get(vehicleId: number, recordId: number) {
+    const where = await ServiceHistoryService.visibleWhere(vehicleId);
+    return prisma.serviceRecord.findFirst({ where: { ...where, id: recordId }, include: RECORD_INCLUDE });
+  }
+
+  // Owners' entries are unverified; a center appending its own work passes verifiedBy
+  static async create(
+    vehicleId: number,
+    input: ServiceRecordInput,
+    createdById: number,
+    verifiedBy?: { serviceCenterId: number }
+  ): Promise<ServiceRecordResult> {
+    const built = await buildRecordData(verifiedBy ? { ...input, serviceCenterId: verifiedBy.serviceCenterId } : input);
+    if (!built.ok) return built;
+
+    // The odometer on a service entry also counts as a reading. An owner's out-of-order
+    // value is rejected; a center's is what the odometer showed, so it is kept and flagged.
+    const { odometer, serviceDate } = built.data;
+    let flagged = false;
+    if (odometer !== null) {
+      const neighbours = await OdometerService.findNeighbours(vehicleId, serviceDate);
+      const inOrder = OdometerService.isInOrder(odometer, neighbours);
+      if (!inOrder && !verifiedBy) return { ok: false, reason: 'odometer_out_of_order' };
+      flagged = !inOrder || await OdometerService.isBelowRemovedReading(vehicleId, odometer, serviceDate);
+    }
+
+    const record = await prisma.$transaction(async (tx) => {
+      const created = await tx.serviceRecord.create({
+        data: {
+          ...built.data,
+          vehicleId,
+          createdById,
+          isVerified: !!verifiedBy,
+          services: { create: built.services },
+          parts: { create: built.parts },
+          attachments: { create: built.attachments },
+        },
+        include: RECORD_INCLUDE,
+      });
+      if (odometer !== null) {
+        await tx.odometerReading.create({
+          data: {
+            vehicleId,
+            value: odometer,
+            recordedAt: serviceDate,
+            source: verifiedBy ? 'service_center' : 'owner',
+            serviceRecordId: created.id,
+            createdById,
+            flagged,
+          },
+        });
+      }
+      return created;
+    });
+
+    if (flagged) {
+      console.warn(`Possible odometer rollback on vehicle ${vehicleId}: ${odometer} km from ${verifiedBy ? 'service_center' : 'owner'}`);
+    }
+    return { ok: true, record };
+  }
+
+  // Replaces the entry; verified entries stay as the service center recorded them
+  static async update(vehicleId: number, recordId: number, input: ServiceRecordInput): Promise<ServiceRecordResult> {
+    const where = await ServiceHistoryService.visibleWhere(vehicleId);
+    const existing = await prisma.serviceRecord.findFirst({ where: { ...where, id: recordId } });
+    if (!existing) return { ok: false, reason: 'not_found' };
+    if (existing.isVerified) return { ok: false, reason: 'verified' };
+
+    const built = await buildRecordData(input);
+    if (!built.ok) return built;
+
+    const { odometer, serviceDate } = built.data;
+    let flagged = false;
+    if (odometer !== null) {
+      const linked = await prisma.odometerReading.findFirst({ where: { serviceRecordId: recordId, deletedAt: null } });
+      const neighbours = await OdometerService.findNeighbours(vehicleId, serviceDate, linked?.id);
+      if (!OdometerService.isInOrder(odometer, neighbours)) return { ok: false, reason: 'odometer_out_of_order' };
+      flagged = await OdometerService.isBelowRemovedReading(vehicleId, odometer, serviceDate);
+    }
+
+    // The replaced reading is kept as removed, like one the owner deletes
+    const record = await prisma.$transaction(async (tx) => {
+      await tx.odometerReading.updateMany({ where: { serviceRecordId: recordId, deletedAt: null }, data: { deletedAt: new Date() } });
+      if (odometer !== null) {
+        await tx.odometerReading.create({
+          data: { vehicleId, value: odometer, recordedAt: serviceDate, source: 'owner', serviceRecordId: recordId, createdById: existing.createdById, flagged },
+        });
+      }
+      await tx.serviceRecordItem.deleteMany({ where: { recordId } });
+      await tx.serviceRecordPart.deleteMany({ where: { recordId } });
+      await tx.serviceRecordAttachment.deleteMany({ where: { recordId } });
+      return tx.serviceRecord.update({
+        where: { id: recordId },
+        data: {
+          ...built.data,
+          services: { create: built.services },
+          parts: { create: built.parts },
+          attachments: { create: built.attachments },
+        },
+        include: RECORD_INCLUDE,
+      });
+    });
+    return { ok: true, record };
+  }
+
+  // Service centers the owner has allowed to add verified records
+  static async listServiceCenters(vehicleId: number) {
+    const access = await prisma.vehicleServiceCenterAccess.findMany({
+      where: { vehicleId },
+      include: { serviceCenter: { select: { id: true, businessName: true, address: true } } },
+      orderBy: { createdAt: 'asc' },
+    });
+    return access.map(entry => ({ ...entry.serviceCenter, allowedSince: entry.createdAt }));
+  }
+
+  // Let a service center add verified records; false when the center does not exist
+  static async allowServiceCenter(vehicleId: number, serviceCenterId: number, grantedById: number): Promise<boolean> {
+    const center = await prisma.serviceCenterProfile.findUnique({ where: { id: serviceCenterId } });
+    if (!center) return false;
+
+    await prisma.vehicleServiceCenterAccess.upsert({
+      where: { vehicleId_serviceCenterId: { vehicleId, serviceCenterId } },
+      update: {},
+      create: { vehicleId, serviceCenterId, grantedById },
+    });
+    return true;
+  }
+
+  static async removeServiceCenter(vehicleId: number, serviceCenterId: number): Promise<boolean> {
+    const result = await prisma.vehicleServiceCenterAccess.deleteMany({ where: { vehicleId, serviceCenterId } });
+    return result.count > 0;
+  }
+
+  // Owners may remove their own entries. Verified ones are the service center's word and
+  // stay, so a seller cannot clean up the history before handing the vehicle over.
+  static async remove(vehicleId: number, recordId: number): Promise<RemoveRecordResult> {
+    const where = await ServiceHistoryService.visibleWhere(vehicleId);
+    const existing = await prisma.serviceRecord.findFirst({ where: { ...where, id: recordId } });
+    if (!existing) return { ok: false, reason: 'not_found' };
+    if (existing.isVerified) return { ok: false, reason: 'verified' };
+
+    await prisma.$transaction([
+      prisma.odometerReading.updateMany({ where: { serviceRecordId: recordId, deletedAt: null }, data: { deletedAt: new Date() } }),
+      prisma.serviceRecord.delete({ where: { id: recordId } }),
+    ]);
+    return { ok: true };
+  }
+}
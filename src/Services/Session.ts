@@ -0,0 +1,134 @@
+import crypto from 'crypto';
+import prisma from '../prisma';
+
+const SESSION_TTL_DAYS = parseInt(process.env.SESSION_TTL_DAYS || '30');
+
+// Result of presenting a refresh token
+export type RefreshResult =
+  | { ok: true; sessionId: string; userId: number; refreshToken: string }
+  | { ok: false; reason: 'invalid' | 'expired' | 'revoked' | 'reused' };
+
+const hashToken = (token: string): string => {
+  return crypto.createHash('sha256').update(token).digest('hex');
+};
+
+const generateRefreshToken = (): string => {
+  return crypto.randomBytes(48).toString('base64url');
+};
+
+// Session service class
+export class SessionService {
+  // Start a new session and hand out its first refresh token
+  static async createSession(
+    userId: number,
+    client?: { userAgent?: string; ip?: string; deviceId?: number }
+  ): Promise<{ sessionId: string; refreshToken: string }> {
+    const expiresAt = new Date(Date.now() + SESSION_TTL_DAYS * 24 * 60 * 60 * 1000);
+    const refreshToken = generateRefreshToken();
+
+    const session = await prisma.session.create({
+      data: {
+        userId,
+        deviceId: client?.deviceId,
+        userAgent: client?.userAgent,
+        ip: client?.ip,
+        expiresAt,
+        refreshTokens: {
+          create: { tokenHash: hashToken(refreshToken), expiresAt },
+        },
+      },
+    });
+
+    return { sessionId: session.id, refreshToken };
+  }
+
+  // Exchange a refresh token for a new one. A token that was already rotated
+  // is treated as stolen and the whole session is revoked.
+  static async rotateRefreshToken(refreshToken: string): Promise<RefreshResult> {
+    const record = await prisma.refreshToken.findUnique({
+      where: { tokenHash: hashToken(refreshToken) },
+      include: { session: true },
+    });
+
+    if (!record) return { ok: false, reason: 'invalid' };
+
+    const { session } = record;
+    if (session.revokedAt) return { ok: false, reason: 'revoked' };
+
+    if (record.usedAt) {
+      await SessionService.revokeSession(session.id, 'refresh_token_reuse');
+      return { ok: false, reason: 'reused' };
+    }
+
+    const now = new Date();
+    if (record.expiresAt < now || session.expiresAt < now) {
+      return { ok: false, reason: 'expired' };
+    }
+
+    const nextToken = generateRefreshToken();
+
+    // Only one concurrent request may consume the token
+    const rotated = await prisma.$transaction(async (tx) => {
+      const consumed = await tx.refreshToken.updateMany({
+        where: { id: record.id, usedAt: null },
+        data: { usedAt: now },
+      });
+      if (consumed.count === 0) return false;
+
+      await tx.refreshToken.create({
+        data: { sessionId: session.id, tokenHash: hashToken(nextToken), expiresAt: session.expiresAt },
+      });
+      await tx.session.update({
+        where: { id: session.id },
+        data: { lastUsedAt: now },
+      });
+      return true;
+    });
+
+    if (!rotated) {
+      await SessionService.revokeSession(session.id, 'refresh_token_reuse');
+      return { ok: false, reason: 'reused' };
+    }
+
+    return { ok: true, sessionId: session.id, userId: session.userId, refreshToken: nextToken };
+  }
+
+  // Check that an access token's session is still live
+  static async isSessionActive(sessionId: string, userId: number): Promise<boolean> {
+    const session = await prisma.session.findUnique({ where: { id: sessionId } });
+    return !!session && session.userId === userId && !session.revokedAt && session.expiresAt > new Date();
+  }
+
+  static async revokeSession(sessionId: string, reason: string): Promise<void> {
+    await prisma.session.updateMany({
+      where: { id: sessionId, revokedAt: null },
+      data: { revokedAt: new Date(), revokedReason: reason },
+    });
+  }
+
+  // Sign out everywhere
+  static async revokeAllSessions(userId: number, reason: string): Promise<number> {
+    const result = await prisma.session.updateMany({
+      where: { userId, revokedAt: null },
+      data: { revokedAt: new Date(), revokedReason: reason },
+    });
+    return result.count;
+  }
+
+  // Sign out every other device, e.g. after a password change
+  static async revokeOtherSessions(userId: number, keepSessionId: string, reason: string): Promise<number> {
+    const result = await prisma.session.updateMany({
+      where: { userId, revokedAt: null, id: { not: keepSessionId } },
+      data: { revokedAt: new Date(), revokedReason: reason },
+    });
+    return result.count;
+  }
+
+  static async listActiveSessions(userId: number) {
+    return prisma.session.findMany({
+      where: { userId, revokedAt: null, expiresAt: { gt: new Date() } },
+      select: { id: true, userAgent: true, ip: true, createdAt: true, lastUsedAt: true, expiresAt: true },
+      orderBy: { lastUsedAt: 'desc' },
+    });
+  }
+}
@@ -0,0 +1,21 @@
+// Where uploaded files are kept. Keys are always generated by the server, never
+// taken from the client, and URLs handed out by a driver can be mapped back to keys
+// so replaced files get cleaned up.
+export interface StorageDriver {
+  name: string;
+
+  put(key: string, data: Buffer, contentType: string): Promise<void>;
+  // Removing a file that is already gone is not an error
+  delete(key: string): Promise<void>;
+  // Public URL the file is served from
+  url(key: string): string;
+  // The key behind a URL this driver handed out, or null for any other URL
+  keyFromUrl(url: string): string | null;
+}
+
+export class StorageError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'StorageError';
+  }
+}
@@ -0,0 +1,49 @@
+import fs from 'fs';
+import path from 'path';
+import { StorageDriver, StorageError } from './Driver';
+
+// Files on this server's disk, served by express.static under /uploads (see src/index.ts).
+// Fine for development and single-server deployments; use the S3 driver otherwise.
+export class LocalStorageDriver implements StorageDriver {
+  name = 'local';
+  readonly root: string;
+  private baseUrl: string;
+
+  constructor(root: string, baseUrl: string) {
+    this.root = path.resolve(root);
+    this.baseUrl = baseUrl.replace(/\/+$/, '');
+  }
+
+  static fromEnv(): LocalStorageDriver {
+    return new LocalStorageDriver(
+      process.env.UPLOAD_STORAGE_DIR || path.join(process.cwd(), 'storage', 'uploads'),
+      process.env.UPLOAD_PUBLIC_URL || `http://localhost:${process.env.PORT || 3000}/uploads`
+    );
+  }
+
+  // Keys are ours, but never let one escape the storage directory
+  private pathFor(key: string): string {
+    const filePath = path.resolve(this.root, key);
+    if (!filePath.startsWith(this.root + path.sep)) throw new StorageError(`Invalid storage key: ${key}`);
+    return filePath;
+  }
+
+  async put(key: string, data: Buffer): Promise<void> {
+    const filePath = this.pathFor(key);
+    await fs.promises.mkdir(path.dirname(filePath), { recursive: true });
+    await fs.promises.writeFile(filePath, data);
+  }
+
+  async delete(key: string): Promise<void> {
+    await fs.promises.rm(this.pathFor(key), { force: true });
+  }
+
+  url(key: string): string {
+    return `${this.baseUrl}/${key}`;
+  }
+
+  keyFromUrl(url: string): string | null {
+    const prefix = `${this.baseUrl}/`;
+    return url.startsWith(prefix) ? url.slice(prefix.length) : null;
+  }
+}
@@ -0,0 +1,136 @@
+import crypto from 'crypto';
+import { StorageDriver, StorageError } from './Driver';
+
+export interface S3Config {
+  bucket: string;
+  region: string;
+  accessKeyId: string;
+  secretAccessKey: string;
+  // For S3-compatible services and local stand-ins (MinIO, scripts/mock-s3-server.ts)
+  endpoint?: string;
+  // Bucket in the path instead of the host name; most S3-compatible services need this
+  forcePathStyle: boolean;
+  // Where objects are read from, e.g. a CDN in front of the bucket; defaults to the bucket URL
+  publicUrl?: string;
+}
+
+const sha256Hex = (data: Buffer | string): string => {
+  return crypto.createHash('sha256').update(data).digest('hex');
+};
+
+const hmac = (key: Buffer | string, data: string): Buffer => {
+  return crypto.createHmac('sha256', key).update(data).digest();
+};
+
+// RFC 3986 encoding of each path segment, as Signature Version 4 requires
+const encodeKey = (key: string): string => {
+  return key
+    .split('/')
+    .map(segment => encodeURIComponent(segment).replace(/[!'()*]/g, char => `%${char.charCodeAt(0).toString(16).toUpperCase()}`))
+    .join('/');
+};
+
+// Objects in an S3 bucket, or any service speaking the S3 API. Requests are signed with
+// Signature Version 4. Uploaded objects must be publicly readable, through a bucket
+// policy or the CDN in S3_PUBLIC_URL; no per-object ACL is sent.
+export class S3StorageDriver implements StorageDriver {
+  name = 's3';
+  private config: S3Config;
+
+  constructor(config: S3Config) {
+    this.config = config;
+  }
+
+  static fromEnv(): S3StorageDriver {
+    const { S3_BUCKET, S3_ACCESS_KEY_ID, S3_SECRET_ACCESS_KEY } = process.env;
+    if (!S3_BUCKET || !S3_ACCESS_KEY_ID || !S3_SECRET_ACCESS_KEY) {
+      throw new StorageError('S3 storage needs S3_BUCKET, S3_ACCESS_KEY_ID and S3_SECRET_ACCESS_KEY');
+    }
+    return new S3StorageDriver({
+      bucket: S3_BUCKET,
+      region: process.env.S3_REGION || 'us-east-1',
+      accessKeyId: S3_ACCESS_KEY_ID,
+      secretAccessKey: S3_SECRET_ACCESS_KEY,
+      endpoint: process.env.S3_ENDPOINT,
+      forcePathStyle: process.env.S3_FORCE_PATH_STYLE === 'true',
+      publicUrl: process.env.S3_PUBLIC_URL,
+    });
+  }
+
+  private objectUrl(key: string): URL {
+    const { bucket, region, endpoint, forcePathStyle } = this.config;
+    const base = new URL(endpoint || `https://s3.${region}.amazonaws.com`);
+    const basePath = base.pathname.replace(/\/+$/, '');
+    return forcePathStyle
+      ? new URL(`${base.origin}${basePath}/${bucket}/${encodeKey(key)}`)
+      : new URL(`${base.protocol}//${bucket}.${base.host}${basePath}/${encodeKey(key)}`);
+  }
+
+  private async send(method: 'PUT' | 'DELETE', key: string, body?: Buffer, headers: Record<string, string> = {}): Promise<Response> {
+    const { region, accessKeyId, secretAccessKey } = this.config;
+    const url = this.objectUrl(key);
+    const amzDate = new Date().toISOString().replace(/[-:]|\.\d{3}/g, '');
+    const date = amzDate.slice(0, 8);
+    const payloadHash = sha256Hex(body || '');
+
+    const signed: Record<string, string> = {
+      ...Object.fromEntries(Object.entries(headers).map(([name, value]) => [name.toLowerCase(), value.trim()])),
+      host: url.host,
+      'x-amz-content-sha256': payloadHash,
+      'x-amz-date': amzDate,
+    };
+    const names = Object.keys(signed).sort();
+    const canonicalRequest = [
+      method,
+      url.pathname,
+      '',
+      names.map(name => `${name}:${signed[name]}\n`).join(''),
+      names.join(';'),
+      payloadHash,
+    ].join('\n');
+
+    const scope = `${date}/${region}/s3/aws4_request`;
+    const stringToSign = ['AWS4-HMAC-SHA256', amzDate, scope, sha256Hex(canonicalRequest)].join('\n');
+    const signingKey = hmac(hmac(hmac(hmac(`AWS4${secretAccessKey}`, date), region), 's3'), 'aws4_request');
+    const signature = crypto.createHmac('sha256', signingKey).update(stringToSign).digest('hex');
+
+    const { host, ...sent } = signed;
+    return fetch(url, {
+      method,
+      headers: {
+        ...sent,
+        Authorization: `AWS4-HMAC-SHA256 Credential=${accessKeyId}/${scope}, SignedHeaders=${names.join(';')}, Signature=${signature}`,
+      },
+      body: body ? new Uint8Array(body) : undefined,
+    });
+  }
+
+  async put(key: string, data: Buffer, contentType: string): Promise<void> {
+    const response = await this.send('PUT', key, data, {
+      'Content-Type': contentType,
+      // Keys are never reused, so the content behind a URL never changes
+      'Cache-Control': 'public, max-age=31536000, immutable',
+    });
+    if (!response.ok) {
+      throw new StorageError(`S3 upload of ${key} failed with status ${response.status}: ${await response.text()}`);
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    const response = await this.send('DELETE', key);
+    if (!response.ok && response.status !== 404) {
+      throw new StorageError(`S3 delete of ${key} failed with status ${response.status}: ${await response.text()}`);
+    }
+  }
+
+  url(key: string): string {
+    const { publicUrl } = this.config;
+    return publicUrl ? `${publicUrl.replace(/\/+$/, '')}/${encodeKey(key)}` : this.objectUrl(key).toString();
+  }
+
+  keyFromUrl(url: string): string | null {
+    const prefix = this.url('');
+    if (!url.startsWith(prefix)) return null;
+    return url.slice(prefix.length).split('/').map(decodeURIComponent).join('/');
+  }
+}
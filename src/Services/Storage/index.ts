@@ -0,0 +1,17 @@
+import { StorageDriver } from './Driver';
+import { LocalStorageDriver } from './Local';
+import { S3StorageDriver } from './S3';
+
+let storage: StorageDriver | null = null;
+
+// STORAGE_DRIVER picks where uploads go: "local" (default) or "s3"
+export const getStorage = (): StorageDriver => {
+  if (!storage) {
+    storage = process.env.STORAGE_DRIVER === 's3' ? S3StorageDriver.fromEnv() : LocalStorageDriver.fromEnv();
+  }
+  return storage;
+};
+
+export { StorageDriver, StorageError } from './Driver';
+export { LocalStorageDriver } from './Local';
+export { S3StorageDriver } from './S3';
@@ -0,0 +1,166 @@
+import crypto, { KeyObject } from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import jwt from 'jsonwebtoken';
+
+// Every JWT we issue is signed with an asymmetric key and carries its key id
+// (`kid`) so verifiers can pick the matching public key, here or through
+// GET /.well-known/jwks.json.
+//
+// Keys are PEM files in JWT_KEYS_DIR named `<kid>.pem`. A private key can sign
+// and verify; a public key only verifies, which is how retired keys stay valid
+// until the tokens they signed expire. To rotate:
+//   1. npx ts-node scripts/generate-jwt-key.ts      (new key is published in the JWKS)
+//   2. set JWT_ACTIVE_KEY_ID to the new kid and restart
+//   3. once the longest-lived token (7 days) has expired,
+//      npx ts-node scripts/generate-jwt-key.ts retire <old kid>
+//
+// Hosts without a filesystem can set a single key inline with JWT_PRIVATE_KEY.
+
+export const JWT_KEYS_DIR = path.resolve(process.env.JWT_KEYS_DIR || path.join(process.cwd(), 'keys', 'jwt'));
+const ISSUER = process.env.JWT_ISSUER || 'motortrace';
+
+// Each kind of token is issued for one audience so, say, an unlock link cannot be
+// presented as an access token
+export type TokenPurpose = 'access' | 'reset' | 'unlock' | 'device_revoke';
+
+type SigningAlgorithm = 'RS256' | 'ES256' | 'ES384' | 'ES512';
+
+interface TokenKey {
+  kid: string;
+  algorithm: SigningAlgorithm;
+  publicKey: KeyObject;
+  privateKey?: KeyObject;
+}
+
+interface Keyring {
+  keys: Map<string, TokenKey>;
+  active: TokenKey;
+}
+
+const CURVE_ALGORITHMS: Record<string, SigningAlgorithm> = {
+  prime256v1: 'ES256',
+  secp384r1: 'ES384',
+  secp521r1: 'ES512',
+};
+
+const algorithmFor = (key: KeyObject): SigningAlgorithm => {
+  if (key.asymmetricKeyType === 'rsa') return 'RS256';
+  const curve = key.asymmetricKeyDetails?.namedCurve;
+  if (key.asymmetricKeyType === 'ec' && curve && CURVE_ALGORITHMS[curve]) return CURVE_ALGORITHMS[curve];
+  throw new Error(`Unsupported JWT key type ${key.asymmetricKeyType}${curve ? ` (${curve})` : ''}; use RSA or EC P-256/384/521`);
+};
+
+// RFC 7638 thumbprint, used as the kid when the key has no name
+export const keyThumbprint = (publicKey: KeyObject): string => {
+  const jwk = publicKey.export({ format: 'jwk' });
+  const members = jwk.kty === 'RSA'
+    ? { e: jwk.e, kty: jwk.kty, n: jwk.n }
+    : { crv: jwk.crv, kty: jwk.kty, x: jwk.x, y: jwk.y };
+  return crypto.createHash('sha256').update(JSON.stringify(members)).digest('base64url');
+};
+
+const parseKey = (pem: string, kid?: string): TokenKey => {
+  const isPrivate = /PRIVATE KEY/.test(pem);
+  const privateKey = isPrivate ? crypto.createPrivateKey(pem) : undefined;
+  const publicKey = crypto.createPublicKey(privateKey || pem);
+  return { kid: kid || keyThumbprint(publicKey), algorithm: algorithmFor(publicKey), publicKey, privateKey };
+};
+
+const readKeysDir = (): TokenKey[] => {
+  if (!fs.existsSync(JWT_KEYS_DIR)) return [];
+  return fs.readdirSync(JWT_KEYS_DIR)
+    .filter(file => file.endsWith('.pem'))
+    .sort()
+    .map(file => parseKey(fs.readFileSync(path.join(JWT_KEYS_DIR, file), 'utf8'), path.basename(file, '.pem')));
+};
+
+const loadKeyring = (): Keyring => {
+  const keys = new Map<string, TokenKey>();
+  for (const key of readKeysDir()) keys.set(key.kid, key);
+
+  if (process.env.JWT_PRIVATE_KEY) {
+    // Env files usually store the PEM on one line with escaped newlines
+    const key = parseKey(process.env.JWT_PRIVATE_KEY.replace(/\\n/g, '\n'), process.env.JWT_KEY_ID);
+    keys.set(key.kid, key);
+  }
+
+  const signers = [...keys.values()].filter(key => key.privateKey);
+
+  if (signers.length === 0) {
+    if (process.env.NODE_ENV === 'production') {
+      throw new Error(`No JWT signing key configured. Add a private key to ${JWT_KEYS_DIR} or set JWT_PRIVATE_KEY`);
+    }
+    // Development only: tokens stop verifying whenever the server restarts
+    const { privateKey, publicKey } = crypto.generateKeyPairSync('ec', { namedCurve: 'P-256' });
+    const key: TokenKey = { kid: `dev-${keyThumbprint(publicKey).slice(0, 8)}`, algorithm: 'ES256', publicKey, privateKey };
+    console.warn(`No JWT signing key configured; using a temporary development key (${key.kid})`);
+    keys.set(key.kid, key);
+    return { keys, active: key };
+  }
+
+  const activeKid = process.env.JWT_ACTIVE_KEY_ID;
+  let active: TokenKey | undefined;
+  if (activeKid) {
+    active = keys.get(activeKid);
+    if (!active?.privateKey) throw new Error(`JWT_ACTIVE_KEY_ID ${activeKid} does not match a private key`);
+  } else if (signers.length === 1) {
+    active = signers[0];
+  } else {
+    throw new Error(`Several JWT private keys found (${signers.map(key => key.kid).join(', ')}); set JWT_ACTIVE_KEY_ID`);
+  }
+
+  return { keys, active };
+};
+
+let keyring: Keyring | null = null;
+
+const getKeyring = (): Keyring => {
+  if (!keyring) keyring = loadKeyring();
+  return keyring;
+};
+
+// Token service class
+export class TokenService {
+  // Load the keys up front so a misconfigured server fails at startup, not on the first sign-in
+  static init(): void {
+    const { keys, active } = getKeyring();
+    console.log(`JWT signing key ${active.kid} (${active.algorithm}); ${keys.size} verification key(s)`);
+  }
+
+  static sign(purpose: TokenPurpose, payload: object, expiresIn: string | number): string {
+    const { active } = getKeyring();
+    return jwt.sign(payload, active.privateKey!, {
+      algorithm: active.algorithm,
+      keyid: active.kid,
+      issuer: ISSUER,
+      audience: purpose,
+      expiresIn,
+    } as jwt.SignOptions);
+  }
+
+  // Throws like jwt.verify when the token is malformed, expired, signed by an unknown key
+  // or issued for another purpose
+  static verify(token: string, purpose: TokenPurpose): jwt.JwtPayload {
+    const decoded = jwt.decode(token, { complete: true });
+    const kid = decoded?.header.kid;
+    const key = kid ? getKeyring().keys.get(kid) : undefined;
+    if (!key) throw new jwt.JsonWebTokenError('Unknown signing key');
+
+    const payload = jwt.verify(token, key.publicKey, { algorithms: [key.algorithm], issuer: ISSUER, audience: purpose });
+    if (typeof payload === 'string') throw new jwt.JsonWebTokenError('Unexpected token payload');
+    return payload;
+  }
+
+  // Public keys for GET /.well-known/jwks.json
+  static jwks(): { keys: Record<string, unknown>[] } {
+    return {
+      keys: [...getKeyring().keys.values()].map(key => ({
+        ...key.publicKey.export({ format: 'jwk' }),
+        kid: key.kid,
+        alg: key.algorithm,
+        use: 'sig',
+      })),
+    };
+  }
+}
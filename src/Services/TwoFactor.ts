@@ -0,0 +1,169 @@
+import crypto from 'crypto';
+import prisma from '../prisma';
+import { buildOtpauthUri, generateTotpSecret, verifyTotp } from '../utils/totp';
+
+const ISSUER = process.env.TWO_FACTOR_ISSUER || 'MotorTrace';
+const RECOVERY_CODE_COUNT = 10;
+const CHALLENGE_TTL_MINUTES = 5;
+
+// Roles that may not use the platform without a second factor, e.g. "service_center,part_seller"
+const REQUIRED_ROLES = (process.env.TWO_FACTOR_REQUIRED_ROLES || '')
+  .split(',')
+  .map(role => role.trim())
+  .filter(Boolean);
+
+const hashRecoveryCode = (code: string): string => {
+  return crypto.createHash('sha256').update(code.replace(/[\s-]/g, '').toLowerCase()).digest('hex');
+};
+
+const hashChallenge = (token: string): string => {
+  return crypto.createHash('sha256').update(token).digest('hex');
+};
+
+const generateRecoveryCodes = (): string[] => {
+  return Array.from({ length: RECOVERY_CODE_COUNT }, () => {
+    const raw = crypto.randomBytes(5).toString('hex');
+    return `${raw.slice(0, 5)}-${raw.slice(5)}`;
+  });
+};
+
+// Two-factor authentication service class
+export class TwoFactorService {
+  static isRequiredForRole(role: string): boolean {
+    return REQUIRED_ROLES.includes(role);
+  }
+
+  static async isEnabled(userId: number): Promise<boolean> {
+    const twoFactor = await prisma.twoFactorAuth.findUnique({ where: { userId } });
+    return !!twoFactor?.confirmedAt;
+  }
+
+  // Create (or replace) a pending secret; it is not enforced until confirmed
+  static async startEnrollment(userId: number, accountName: string): Promise<{ secret: string; otpauthUri: string } | null> {
+    const existing = await prisma.twoFactorAuth.findUnique({ where: { userId } });
+    if (existing?.confirmedAt) return null;
+
+    const secret = generateTotpSecret();
+    await prisma.twoFactorAuth.upsert({
+      where: { userId },
+      update: { secret, lastUsedStep: null },
+      create: { userId, secret },
+    });
+
+    return { secret, otpauthUri: buildOtpauthUri(secret, accountName, ISSUER) };
+  }
+
+  // Activate a pending enrollment and hand out the one-time view of the recovery codes
+  static async confirmEnrollment(userId: number, code: string): Promise<string[] | null> {
+    const twoFactor = await prisma.twoFactorAuth.findUnique({ where: { userId } });
+    if (!twoFactor || twoFactor.confirmedAt) return null;
+
+    const step = verifyTotp(twoFactor.secret, code);
+    if (step === null) return null;
+
+    const recoveryCodes = generateRecoveryCodes();
+    await prisma.$transaction([
+      prisma.twoFactorRecoveryCode.deleteMany({ where: { twoFactorId: twoFactor.id } }),
+      prisma.twoFactorAuth.update({
+        where: { id: twoFactor.id },
+        data: {
+          confirmedAt: new Date(),
+          lastUsedStep: step,
+          recoveryCodes: {
+            create: recoveryCodes.map(recoveryCode => ({ codeHash: hashRecoveryCode(recoveryCode) })),
+          },
+        },
+      }),
+    ]);
+
+    return recoveryCodes;
+  }
+
+  // Check a TOTP code or an unused recovery code for a user with 2FA enabled
+  static async verify(userId: number, credentials: { code?: string; recoveryCode?: string }): Promise<boolean> {
+    const twoFactor = await prisma.twoFactorAuth.findUnique({ where: { userId } });
+    if (!twoFactor?.confirmedAt) return false;
+
+    if (credentials.code) {
+      const step = verifyTotp(twoFactor.secret, credentials.code);
+      if (step === null) return false;
+
+      // A code can only be used once, and never one older than the last accepted
+      const accepted = await prisma.twoFactorAuth.updateMany({
+        where: {
+          id: twoFactor.id,
+          OR: [{ lastUsedStep: null }, { lastUsedStep: { lt: step } }],
+        },
+        data: { lastUsedStep: step },
+      });
+      return accepted.count > 0;
+    }
+
+    if (credentials.recoveryCode) {
+      const used = await prisma.twoFactorRecoveryCode.updateMany({
+        where: {
+          twoFactorId: twoFactor.id,
+          codeHash: hashRecoveryCode(credentials.recoveryCode),
+          usedAt: null,
+        },
+        data: { usedAt: new Date() },
+      });
+      return used.count > 0;
+    }
+
+    return false;
+  }
+
+  // Issue the short-lived token exchanged at /auth/login/2fa once the password has been checked
+  static async createChallenge(userId: number): Promise<string> {
+    const token = crypto.randomBytes(32).toString('base64url');
+    await prisma.twoFactorChallenge.deleteMany({ where: { userId, expiresAt: { lt: new Date() } } });
+    await prisma.twoFactorChallenge.create({
+      data: {
+        userId,
+        tokenHash: hashChallenge(token),
+        expiresAt: new Date(Date.now() + CHALLENGE_TTL_MINUTES * 60 * 1000),
+      },
+    });
+    return token;
+  }
+
+  // Use up a challenge and return whose it was; a wrong code still spends it,
+  // so every guess at the second factor costs a fresh password check
+  static async consumeChallenge(token: string): Promise<number | null> {
+    const challenge = await prisma.twoFactorChallenge.findUnique({ where: { tokenHash: hashChallenge(String(token)) } });
+    if (!challenge) return null;
+
+    const consumed = await prisma.twoFactorChallenge.deleteMany({ where: { id: challenge.id } });
+    if (consumed.count === 0 || challenge.expiresAt < new Date()) return null;
+    return challenge.userId;
+  }
+
+  static async regenerateRecoveryCodes(userId: number): Promise<string[] | null> {
+    const twoFactor = await prisma.twoFactorAuth.findUnique({ where: { userId } });
+    if (!twoFactor?.confirmedAt) return null;
+
+    const recoveryCodes = generateRecoveryCodes();
+    await prisma.$transaction([
+      prisma.twoFactorRecoveryCode.deleteMany({ where: { twoFactorId: twoFactor.id } }),
+      prisma.twoFactorRecoveryCode.createMany({
+        data: recoveryCodes.map(recoveryCode => ({
+          twoFactorId: twoFactor.id,
+          codeHash: hashRecoveryCode(recoveryCode),
+        })),
+      }),
+    ]);
+
+    return recoveryCodes;
+  }
+
+  static async remainingRecoveryCodes(userId: number): Promise<number> {
+    return prisma.twoFactorRecoveryCode.count({
+      where: { twoFactor: { userId }, usedAt: null },
+    });
+  }
+
+  static async disable(userId: number): Promise<void> {
+    await prisma.twoFactorAuth.deleteMany({ where: { userId } });
+  }
+}
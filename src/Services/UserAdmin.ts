@@ -0,0 +1,125 @@
+import { Prisma } from '@prisma/client';
+import prisma from '../prisma';
+import { SessionService } from './Session';
+import { Role } from '../types';
+
+export interface UserSearch {
+  search?: string;
+  role?: Role;
+  status?: 'active' | 'suspended';
+  page: number;
+  limit: number;
+}
+
+export type AdminActionResult =
+  | { ok: true }
+  | { ok: false; reason: 'not_found' | 'self' | 'already_suspended' | 'not_suspended' };
+
+export type RoleChangeResult =
+  | { ok: true; previousRole: string }
+  | Exclude<AdminActionResult, { ok: true }>;
+
+// Fields an admin sees; never the password hash
+const userSummary = {
+  id: true,
+  email: true,
+  name: true,
+  phone: true,
+  role: true,
+  isRegistrationComplete: true,
+  emailVerifiedAt: true,
+  suspendedAt: true,
+  suspendedReason: true,
+  createdAt: true,
+  updatedAt: true,
+} satisfies Prisma.UserSelect;
+
+// User administration service class
+export class UserAdminService {
+  static async searchUsers(options: UserSearch) {
+    const where: Prisma.UserWhereInput = {
+      ...(options.role && { role: options.role }),
+      ...(options.status === 'active' && { suspendedAt: null }),
+      ...(options.status === 'suspended' && { suspendedAt: { not: null } }),
+      ...(options.search && {
+        OR: [
+          { email: { contains: options.search, mode: 'insensitive' } },
+          { name: { contains: options.search, mode: 'insensitive' } },
+          { phone: { contains: options.search } },
+        ],
+      }),
+    };
+
+    const [users, total] = await prisma.$transaction([
+      prisma.user.findMany({
+        where,
+        select: userSummary,
+        orderBy: { createdAt: 'desc' },
+        skip: (options.page - 1) * options.limit,
+        take: options.limit,
+      }),
+      prisma.user.count({ where }),
+    ]);
+
+    return { users, total, page: options.page, limit: options.limit };
+  }
+
+  static async getUser(userId: number) {
+    return prisma.user.findUnique({
+      where: { id: userId },
+      select: {
+        ...userSummary,
+        carOwnerProfile: true,
+        serviceCenterProfile: true,
+        partSellerProfile: true,
+        subscription: true,
+        _count: { select: { vehicles: true, sessions: { where: { revokedAt: null } } } },
+      },
+    });
+  }
+
+  // Block sign-in and end every live session straight away. Admins cannot act on
+  // themselves, so the platform can never lose its last active admin this way.
+  static async suspend(adminId: number, userId: number, reason?: string): Promise<AdminActionResult> {
+    if (adminId === userId) return { ok: false, reason: 'self' };
+
+    const user = await prisma.user.findUnique({ where: { id: userId } });
+    if (!user) return { ok: false, reason: 'not_found' };
+    if (user.suspendedAt) return { ok: false, reason: 'already_suspended' };
+
+    await prisma.user.update({
+      where: { id: userId },
+      data: { suspendedAt: new Date(), suspendedReason: reason || null },
+    });
+    await SessionService.revokeAllSessions(userId, 'suspended');
+
+    return { ok: true };
+  }
+
+  static async reactivate(userId: number): Promise<AdminActionResult> {
+    const user = await prisma.user.findUnique({ where: { id: userId } });
+    if (!user) return { ok: false, reason: 'not_found' };
+    if (!user.suspendedAt) return { ok: false, reason: 'not_suspended' };
+
+    await prisma.user.update({
+      where: { id: userId },
+      data: { suspendedAt: null, suspendedReason: null },
+    });
+
+    return { ok: true };
+  }
+
+  // Access tokens carry the role, so the user's sessions are ended and they sign in again with the new one
+  static async changeRole(adminId: number, userId: number, role: Role): Promise<RoleChangeResult> {
+    if (adminId === userId) return { ok: false, reason: 'self' };
+
+    const user = await prisma.user.findUnique({ where: { id: userId } });
+    if (!user) return { ok: false, reason: 'not_found' };
+    if (user.role === role) return { ok: true, previousRole: user.role };
+
+    await prisma.user.update({ where: { id: userId }, data: { role } });
+    await SessionService.revokeAllSessions(userId, 'role_changed');
+
+    return { ok: true, previousRole: user.role };
+  }
+}
@@ -0,0 +1,245 @@
+import { Prisma, VehicleDocument } from '@prisma/client';
+import prisma from '../prisma';
+import { EmailService } from './Email';
+
+const FRONTEND_URL = process.env.FRONTEND_URL || 'http://localhost:5173';
+
+// Days before expiry at which the owner is emailed; 0 means on or after the expiry date
+const ALERT_WINDOWS = (process.env.DOCUMENT_EXPIRY_ALERT_DAYS || '30,7,0')
+  .split(',')
+  .map(days => parseInt(days.trim()))
+  .filter(days => Number.isInteger(days) && days >= 0)
+  .sort((a, b) => a - b);
+
+const EXPIRING_SOON_DAYS = parseInt(process.env.DOCUMENT_EXPIRING_SOON_DAYS || '30');
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Kinds of document and whether they run out. Revenue licences and emission test
+// certificates are renewed yearly in Sri Lanka; insurance runs for the policy term.
+export const DOCUMENT_TYPES = {
+  revenue_licence: { label: 'Revenue licence', expires: true },
+  insurance: { label: 'Insurance certificate', expires: true },
+  emission_test: { label: 'Emission test certificate', expires: true },
+  registration: { label: 'Registration certificate', expires: false },
+  other: { label: 'Document', expires: false },
+} as const;
+
+export type DocumentType = keyof typeof DOCUMENT_TYPES;
+
+export type ExpiryStatus = 'valid' | 'expiring_soon' | 'expired';
+
+export interface VehicleDocumentInput {
+  type: DocumentType;
+  documentNumber?: string | null;
+  issuer?: string | null;
+  issueDate?: Date | null;
+  expiryDate?: Date | null;
+  fileUrl?: string | null;
+  fileName?: string | null;
+  mimeType?: string | null;
+  notes?: string | null;
+}
+
+export type VehicleDocumentResult =
+  | { ok: true; document: VehicleDocument }
+  | { ok: false; reason: 'not_found' | 'expiry_required' | 'dates_out_of_order' };
+
+const isDocumentType = (value: string): value is DocumentType => Object.keys(DOCUMENT_TYPES).includes(value);
+
+const daysUntil = (date: Date, now: Date): number => Math.floor((date.getTime() - now.getTime()) / DAY_MS);
+
+const expiryStatus = (expiryDate: Date | null, now: Date): ExpiryStatus | null => {
+  if (!expiryDate) return null;
+  const days = daysUntil(expiryDate, now);
+  if (days < 0) return 'expired';
+  return days <= EXPIRING_SOON_DAYS ? 'expiring_soon' : 'valid';
+};
+
+const describeVehicle = (vehicle: { vehicleName: string; model: string; licensePlate: string }) => {
+  return `${vehicle.vehicleName} ${vehicle.model} (${vehicle.licensePlate})`;
+};
+
+const labelFor = (type: string): string => isDocumentType(type) ? DOCUMENT_TYPES[type].label : 'Document';
+
+// Records the current owner may see; papers kept by a previous owner stay with them
+const visibleWhere = async (vehicleId: number): Promise<Prisma.VehicleDocumentWhereInput> => {
+  const vehicle = await prisma.vehicle.findUnique({ where: { id: vehicleId }, select: { historyStartsAt: true } });
+  return { vehicleId, ...(vehicle?.historyStartsAt && { createdAt: { gte: vehicle.historyStartsAt } }) };
+};
+
+const validate = (input: VehicleDocumentInput): Exclude<VehicleDocumentResult, { ok: true }> | null => {
+  if (DOCUMENT_TYPES[input.type].expires && !input.expiryDate) return { ok: false, reason: 'expiry_required' };
+  if (input.issueDate && input.expiryDate && input.issueDate > input.expiryDate) return { ok: false, reason: 'dates_out_of_order' };
+  return null;
+};
+
+// Latest expiry per vehicle and type; an older document of a type that was renewed is superseded.
+// A previous owner's documents are left out, so their renewals cannot hide the current owner's.
+const latestExpiries = async (vehicleIds: number[]): Promise<Map<string, Date>> => {
+  const vehicles = await prisma.vehicle.findMany({ where: { id: { in: vehicleIds } }, select: { id: true, historyStartsAt: true } });
+  const groups = await prisma.vehicleDocument.groupBy({
+    by: ['vehicleId', 'type'],
+    where: {
+      expiryDate: { not: null },
+      OR: vehicles.map(vehicle => ({
+        vehicleId: vehicle.id,
+        ...(vehicle.historyStartsAt && { createdAt: { gte: vehicle.historyStartsAt } }),
+      })),
+    },
+    _max: { expiryDate: true },
+  });
+  return new Map(groups.map(group => [`${group.vehicleId}:${group.type}`, group._max.expiryDate!]));
+};
+
+const isSuperseded = (document: { vehicleId: number; type: string; expiryDate: Date | null }, latest: Map<string, Date>) => {
+  const newest = latest.get(`${document.vehicleId}:${document.type}`);
+  return !!document.expiryDate && !!newest && document.expiryDate < newest;
+};
+
+// Vehicle document service class
+export class VehicleDocumentService {
+  static async list(vehicleId: number, now: Date = new Date()) {
+    const documents = await prisma.vehicleDocument.findMany({
+      where: await visibleWhere(vehicleId),
+      orderBy: [{ type: 'asc' }, { expiryDate: 'desc' }, { id: 'desc' }],
+    });
+    const latest = await latestExpiries([vehicleId]);
+
+    return documents.map(({ lastAlertDays, ...document }) => ({
+      ...document,
+      label: labelFor(document.type),
+      expiryStatus: expiryStatus(document.expiryDate, now),
+      daysLeft: document.expiryDate ? daysUntil(document.expiryDate, now) : null,
+      isCurrent: !isSuperseded(document, latest),
+    }));
+  }
+
+  static async get(vehicleId: number, documentId: number) {
+    const where = await visibleWhere(vehicleId);
+    return prisma.vehicleDocument.findFirst({ where: { ...where, id: documentId } });
+  }
+
+  static async create(vehicleId: number, input: VehicleDocumentInput, createdById: number): Promise<VehicleDocumentResult> {
+    const invalid = validate(input);
+    if (invalid) return invalid;
+
+    const document = await prisma.vehicleDocument.create({
+      data: { ...input, vehicleId, createdById },
+    });
+    return { ok: true, document };
+  }
+
+  // Fields left out keep their value; a new expiry date re-arms the alerts
+  static async update(vehicleId: number, documentId: number, input: Partial<VehicleDocumentInput>): Promise<VehicleDocumentResult> {
+    const existing = await VehicleDocumentService.get(vehicleId, documentId);
+    if (!existing) return { ok: false, reason: 'not_found' };
+
+    const merged = {
+      type: existing.type as DocumentType,
+      issueDate: existing.issueDate,
+      expiryDate: existing.expiryDate,
+      ...input,
+    };
+    const invalid = validate(merged);
+    if (invalid) return invalid;
+
+    const expiryChanged = input.expiryDate !== undefined && input.expiryDate?.getTime() !== existing.expiryDate?.getTime();
+    const document = await prisma.vehicleDocument.update({
+      where: { id: documentId },
+      data: { ...input, ...(expiryChanged && { lastAlertDays: null }) },
+    });
+    return { ok: true, document };
+  }
+
+  static async remove(vehicleId: number, documentId: number): Promise<boolean> {
+    const where = await visibleWhere(vehicleId);
+    const result = await prisma.vehicleDocument.deleteMany({ where: { ...where, id: documentId } });
+    return result.count > 0;
+  }
+
+  // Current documents across the owner's vehicles that have expired or run out within the window
+  static async expiring(userId: number, withinDays: number = EXPIRING_SOON_DAYS, now: Date = new Date()) {
+    const documents = await prisma.vehicleDocument.findMany({
+      where: { vehicle: { userId }, expiryDate: { not: null, lte: new Date(now.getTime() + withinDays * DAY_MS) } },
+      include: { vehicle: { select: { id: true, vehicleName: true, model: true, licensePlate: true, historyStartsAt: true } } },
+      orderBy: { expiryDate: 'asc' },
+    });
+    const latest = await latestExpiries([...new Set(documents.map(document => document.vehicleId))]);
+
+    return documents
+      .filter(document => !isSuperseded(document, latest))
+      .filter(document => !document.vehicle.historyStartsAt || document.createdAt >= document.vehicle.historyStartsAt)
+      .map(({ lastAlertDays, vehicle: { historyStartsAt, ...vehicle }, ...document }) => ({
+        ...document,
+        vehicle,
+        label: labelFor(document.type),
+        expiryStatus: expiryStatus(document.expiryDate, now),
+        daysLeft: daysUntil(document.expiryDate!, now),
+      }));
+  }
+
+  // Email owners once per alert window as their documents approach expiry, one email per owner
+  static async sendExpiryAlerts(now: Date = new Date()): Promise<number> {
+    if (ALERT_WINDOWS.length === 0) return 0;
+    const horizon = new Date(now.getTime() + ALERT_WINDOWS[ALERT_WINDOWS.length - 1] * DAY_MS);
+
+    const candidates = await prisma.vehicleDocument.findMany({
+      where: {
+        expiryDate: { not: null, lte: horizon },
+        vehicle: { user: { deletedAt: null, deletionScheduledFor: null, suspendedAt: null } },
+      },
+      include: {
+        vehicle: {
+          select: { id: true, vehicleName: true, model: true, licensePlate: true, historyStartsAt: true, user: { select: { id: true, email: true } } },
+        },
+      },
+      orderBy: { expiryDate: 'asc' },
+    });
+    const latest = await latestExpiries([...new Set(candidates.map(document => document.vehicleId))]);
+
+    // The smallest window the document has reached, if it has not been alerted for it yet
+    const due = new Map<number, { email: string; alerts: { document: (typeof candidates)[number]; window: number }[] }>();
+    for (const document of candidates) {
+      if (isSuperseded(document, latest)) continue;
+      if (document.vehicle.historyStartsAt && document.createdAt < document.vehicle.historyStartsAt) continue;
+
+      const days = daysUntil(document.expiryDate!, now);
+      const window = ALERT_WINDOWS.find(limit => days <= limit);
+      if (window === undefined) continue;
+      if (document.lastAlertDays !== null && document.lastAlertDays <= window) continue;
+
+      const owner = document.vehicle.user;
+      const entry = due.get(owner.id) || { email: owner.email, alerts: [] };
+      entry.alerts.push({ document, window });
+      due.set(owner.id, entry);
+    }
+
+    let sent = 0;
+    for (const [userId, { email, alerts }] of due) {
+      try {
+        const describe = ({ document }: { document: (typeof candidates)[number] }) => {
+          const date = document.expiryDate!.toDateString();
+          const status = document.expiryDate! < now ? `expired on ${date}` : `expires on ${date}`;
+          return `${labelFor(document.type)} for your ${describeVehicle(document.vehicle)} ${status}`;
+        };
+        const delivered = await EmailService.sendDocumentExpiryEmail(email, {
+          expired: alerts.filter(alert => alert.document.expiryDate! < now).map(describe),
+          expiringSoon: alerts.filter(alert => alert.document.expiryDate! >= now).map(describe),
+          documentsLink: `${FRONTEND_URL}/documents`,
+        });
+
+        // Undelivered alerts are retried on the next run
+        if (delivered) {
+          for (const { document, window } of alerts) {
+            await prisma.vehicleDocument.update({ where: { id: document.id }, data: { lastAlertDays: window } });
+          }
+          sent++;
+        }
+      } catch (error) {
+        console.error(`Document expiry alert failed for user ${userId}:`, error);
+      }
+    }
+    return sent;
+  }
+}
@@ -0,0 +1,257 @@
+import crypto from 'crypto';
+import { Vehicle } from '@prisma/client';
+import prisma from '../prisma';
+
+export type VehicleRole = 'owner' | 'co_owner' | 'driver' | 'viewer';
+
+// Roles that can be granted to someone other than the owner
+export type ShareRole = Exclude<VehicleRole, 'owner'>;
+
+export type VehiclePermission =
+  | 'vehicle:read'
+  | 'vehicle:update'
+  | 'vehicle:delete'
+  | 'history:write'
+  | 'history:update'
+  | 'history:delete'
+  | 'fuel:write'
+  | 'fuel:update'
+  | 'fuel:delete'
+  | 'odometer:write'
+  | 'odometer:import'
+  | 'odometer:delete'
+  | 'documents:write'
+  | 'maintenance:write'
+  | 'sharing:manage'
+  | 'ownership:transfer';
+
+export const SHARE_ROLES: ShareRole[] = ['co_owner', 'driver', 'viewer'];
+
+// What each role may do with the vehicle. Reading covers the service history,
+// fuel log, documents, odometer and maintenance schedule as well.
+export const VEHICLE_ROLE_PERMISSIONS: Record<VehicleRole, VehiclePermission[]> = {
+  owner: [
+    'vehicle:read', 'vehicle:update', 'vehicle:delete',
+    'history:write', 'history:update', 'history:delete',
+    'fuel:write', 'fuel:update', 'fuel:delete',
+    'odometer:write', 'odometer:import', 'odometer:delete',
+    'documents:write', 'maintenance:write',
+    'sharing:manage', 'ownership:transfer',
+  ],
+  co_owner: [
+    'vehicle:read', 'vehicle:update',
+    'history:write', 'history:update', 'history:delete',
+    'fuel:write', 'fuel:update', 'fuel:delete',
+    'odometer:write', 'odometer:import', 'odometer:delete',
+    'documents:write', 'maintenance:write',
+    'sharing:manage',
+  ],
+  // Someone who drives the car day to day and logs what they do with it; they can
+  // add entries but not change, remove or bulk-import them
+  driver: ['vehicle:read', 'history:write', 'fuel:write', 'odometer:write'],
+  viewer: ['vehicle:read'],
+};
+
+const INVITATION_TTL_DAYS = parseInt(process.env.VEHICLE_SHARE_INVITATION_TTL_DAYS || '7');
+
+export type ShareResult =
+  | { ok: true }
+  | { ok: false; reason: 'not_found' | 'forbidden' | 'self' | 'already_member' };
+
+export type AcceptShareResult =
+  | { ok: true; vehicleId: number; role: ShareRole }
+  | { ok: false; reason: 'invalid' | 'expired' | 'email_mismatch' | 'already_member' };
+
+const hashToken = (token: string): string => {
+  return crypto.createHash('sha256').update(token).digest('hex');
+};
+
+const normalizeEmail = (email: string): string => {
+  return String(email).trim().toLowerCase();
+};
+
+// Only the owner may grant, change or remove co-owners
+const canManageRole = (actorRole: VehicleRole, targetRole: VehicleRole): boolean => {
+  return actorRole === 'owner' || targetRole !== 'co_owner';
+};
+
+// Vehicle sharing service class
+export class VehicleSharingService {
+  static hasPermission(role: VehicleRole, permission: VehiclePermission): boolean {
+    return VEHICLE_ROLE_PERMISSIONS[role].includes(permission);
+  }
+
+  // The vehicle with the user's role on it, or null when they have no access
+  static async getAccess(vehicleId: number, userId: number): Promise<{ vehicle: Vehicle; role: VehicleRole } | null> {
+    const vehicle = await prisma.vehicle.findUnique({
+      where: { id: vehicleId },
+      include: { shares: { where: { userId } } },
+    });
+    if (!vehicle) return null;
+
+    const { shares, ...rest } = vehicle;
+    if (vehicle.userId === userId) return { vehicle: rest, role: 'owner' };
+    if (shares[0]) return { vehicle: rest, role: shares[0].role as ShareRole };
+    return null;
+  }
+
+  // Vehicles shared with the user, with the role they hold and who owns each
+  static async listSharedWithUser(userId: number) {
+    const shares = await prisma.vehicleShare.findMany({
+      where: { userId },
+      include: { vehicle: { include: { user: { select: { id: true, name: true, email: true } } } } },
+      orderBy: { createdAt: 'asc' },
+    });
+
+    return shares.map(({ vehicle: { user, ...vehicle }, role }) => ({
+      vehicle,
+      role: role as ShareRole,
+      owner: user,
+    }));
+  }
+
+  // Everyone with access, plus pending invitations for those who may manage them
+  static async listMembers(vehicleId: number, includeInvitations: boolean) {
+    const [vehicle, shares, invitations] = await Promise.all([
+      prisma.vehicle.findUnique({
+        where: { id: vehicleId },
+        select: { user: { select: { id: true, email: true, name: true } } },
+      }),
+      prisma.vehicleShare.findMany({
+        where: { vehicleId },
+        include: { user: { select: { id: true, email: true, name: true } } },
+        orderBy: { createdAt: 'asc' },
+      }),
+      includeInvitations
+        ? prisma.vehicleShareInvitation.findMany({
+            where: { vehicleId, acceptedAt: null, expiresAt: { gt: new Date() } },
+            select: { id: true, email: true, role: true, expiresAt: true, createdAt: true },
+            orderBy: { createdAt: 'desc' },
+          })
+        : Promise.resolve([]),
+    ]);
+
+    const members = shares.map(share => ({ ...share.user, role: share.role, memberSince: share.createdAt }));
+    return {
+      members: vehicle ? [{ ...vehicle.user, role: 'owner', memberSince: null }, ...members] : members,
+      ...(includeInvitations && { invitations }),
+    };
+  }
+
+  // Create an invitation and hand back its one-time token for the email link
+  static async invite(
+    vehicleId: number,
+    invitedBy: { userId: number; role: VehicleRole },
+    email: string,
+    role: ShareRole
+  ): Promise<{ ok: true; token: string; expiresInDays: number } | { ok: false; reason: 'forbidden' | 'already_member' }> {
+    if (!canManageRole(invitedBy.role, role)) return { ok: false, reason: 'forbidden' };
+
+    const normalized = normalizeEmail(email);
+    const existingUser = await prisma.user.findUnique({ where: { email: normalized } });
+    if (existingUser && await VehicleSharingService.getAccess(vehicleId, existingUser.id)) {
+      return { ok: false, reason: 'already_member' };
+    }
+
+    const token = crypto.randomBytes(32).toString('base64url');
+
+    // A new invitation replaces any pending one for the same address
+    await prisma.$transaction([
+      prisma.vehicleShareInvitation.deleteMany({
+        where: { vehicleId, email: normalized, acceptedAt: null },
+      }),
+      prisma.vehicleShareInvitation.create({
+        data: {
+          vehicleId,
+          email: normalized,
+          role,
+          tokenHash: hashToken(token),
+          invitedById: invitedBy.userId,
+          expiresAt: new Date(Date.now() + INVITATION_TTL_DAYS * 24 * 60 * 60 * 1000),
+        },
+      }),
+    ]);
+
+    return { ok: true, token, expiresInDays: INVITATION_TTL_DAYS };
+  }
+
+  // The invitation is bound to the invited address, so only that account can accept it
+  static async acceptInvitation(token: string, user: { id: number; email: string }): Promise<AcceptShareResult> {
+    const invitation = await prisma.vehicleShareInvitation.findUnique({
+      where: { tokenHash: hashToken(token) },
+      include: { vehicle: { select: { userId: true } } },
+    });
+    if (!invitation || invitation.acceptedAt) return { ok: false, reason: 'invalid' };
+    if (invitation.expiresAt < new Date()) return { ok: false, reason: 'expired' };
+    if (normalizeEmail(user.email) !== invitation.email) return { ok: false, reason: 'email_mismatch' };
+    // The vehicle may have been transferred to this user since the invitation went out
+    if (invitation.vehicle.userId === user.id) return { ok: false, reason: 'already_member' };
+
+    const role = invitation.role as ShareRole;
+    const accepted = await prisma.$transaction(async (tx) => {
+      const consumed = await tx.vehicleShareInvitation.updateMany({
+        where: { id: invitation.id, acceptedAt: null },
+        data: { acceptedAt: new Date() },
+      });
+      if (consumed.count === 0) return false;
+
+      await tx.vehicleShare.upsert({
+        where: { vehicleId_userId: { vehicleId: invitation.vehicleId, userId: user.id } },
+        update: { role },
+        create: { vehicleId: invitation.vehicleId, userId: user.id, role, invitedById: invitation.invitedById },
+      });
+      return true;
+    });
+
+    if (!accepted) return { ok: false, reason: 'invalid' };
+    return { ok: true, vehicleId: invitation.vehicleId, role };
+  }
+
+  static async revokeInvitation(vehicleId: number, invitationId: number, actorRole: VehicleRole): Promise<ShareResult> {
+    const invitation = await prisma.vehicleShareInvitation.findFirst({
+      where: { id: invitationId, vehicleId, acceptedAt: null },
+    });
+    if (!invitation) return { ok: false, reason: 'not_found' };
+    if (!canManageRole(actorRole, invitation.role as ShareRole)) return { ok: false, reason: 'forbidden' };
+
+    await prisma.vehicleShareInvitation.delete({ where: { id: invitation.id } });
+    return { ok: true };
+  }
+
+  static async changeRole(
+    vehicleId: number,
+    actor: { userId: number; role: VehicleRole },
+    userId: number,
+    role: ShareRole
+  ): Promise<ShareResult> {
+    if (actor.userId === userId) return { ok: false, reason: 'self' };
+
+    const share = await prisma.vehicleShare.findUnique({
+      where: { vehicleId_userId: { vehicleId, userId } },
+    });
+    if (!share) return { ok: false, reason: 'not_found' };
+    if (!canManageRole(actor.role, share.role as ShareRole) || !canManageRole(actor.role, role)) {
+      return { ok: false, reason: 'forbidden' };
+    }
+
+    await prisma.vehicleShare.update({ where: { id: share.id }, data: { role } });
+    return { ok: true };
+  }
+
+  // Anyone with access may leave; removing someone else needs sharing:manage
+  static async removeMember(vehicleId: number, actor: { userId: number; role: VehicleRole }, userId: number): Promise<ShareResult> {
+    const share = await prisma.vehicleShare.findUnique({
+      where: { vehicleId_userId: { vehicleId, userId } },
+    });
+    if (!share) return { ok: false, reason: 'not_found' };
+
+    if (actor.userId !== userId) {
+      if (!VehicleSharingService.hasPermission(actor.role, 'sharing:manage') || !canManageRole(actor.role, share.role as ShareRole)) {
+        return { ok: false, reason: 'forbidden' };
+      }
+    }
+
+    await prisma.vehicleShare.delete({ where: { id: share.id } });
+    return { ok: true };
+  }
+}
@@ -0,0 +1,185 @@
+import crypto from 'crypto';
+import prisma from '../prisma';
+
+const TRANSFER_TTL_DAYS = parseInt(process.env.VEHICLE_TRANSFER_TTL_DAYS || '14');
+
+export type InitiateTransferResult =
+  | { ok: true; token: string; expiresInDays: number; transferId: number }
+  | { ok: false; reason: 'not_found' | 'self' | 'not_car_owner' };
+
+export type RespondTransferResult =
+  | { ok: true; vehicleId: number; fromUserId: number; includeHistory: boolean }
+  | { ok: false; reason: 'invalid' | 'expired' | 'email_mismatch' | 'not_car_owner' };
+
+const hashToken = (token: string): string => {
+  return crypto.createHash('sha256').update(token).digest('hex');
+};
+
+const normalizeEmail = (email: string): string => {
+  return String(email).trim().toLowerCase();
+};
+
+// Thrown inside the accept transaction to roll back when the seller no longer owns the vehicle
+class StaleTransferError extends Error {}
+
+// Vehicle ownership transfer service class
+export class VehicleTransferService {
+  // Create a transfer offer and hand back its one-time token for the email link
+  static async initiate(
+    vehicleId: number,
+    fromUserId: number,
+    email: string,
+    includeHistory: boolean
+  ): Promise<InitiateTransferResult> {
+    const vehicle = await prisma.vehicle.findFirst({ where: { id: vehicleId, userId: fromUserId }, include: { user: true } });
+    if (!vehicle) return { ok: false, reason: 'not_found' };
+
+    const toEmail = normalizeEmail(email);
+    if (toEmail === normalizeEmail(vehicle.user.email)) return { ok: false, reason: 'self' };
+
+    // Buyers without an account can register with the address first
+    const recipient = await prisma.user.findUnique({ where: { email: toEmail } });
+    if (recipient && recipient.role !== 'car_owner') return { ok: false, reason: 'not_car_owner' };
+
+    const token = crypto.randomBytes(32).toString('base64url');
+
+    // A new offer replaces any pending one for the vehicle
+    const [, transfer] = await prisma.$transaction([
+      prisma.vehicleTransfer.updateMany({
+        where: { vehicleId, status: 'pending' },
+        data: { status: 'cancelled', respondedAt: new Date() },
+      }),
+      prisma.vehicleTransfer.create({
+        data: {
+          vehicleId,
+          fromUserId,
+          toEmail,
+          tokenHash: hashToken(token),
+          includeHistory,
+          expiresAt: new Date(Date.now() + TRANSFER_TTL_DAYS * 24 * 60 * 60 * 1000),
+        },
+      }),
+    ]);
+
+    return { ok: true, token, expiresInDays: TRANSFER_TTL_DAYS, transferId: transfer.id };
+  }
+
+  static async getPending(vehicleId: number) {
+    return prisma.vehicleTransfer.findFirst({
+      where: { vehicleId, status: 'pending', expiresAt: { gt: new Date() } },
+      select: { id: true, toEmail: true, includeHistory: true, expiresAt: true, createdAt: true },
+    });
+  }
+
+  // Returns the cancelled offer so the buyer can be told, or null when there was none
+  static async cancel(vehicleId: number) {
+    const pending = await VehicleTransferService.getPending(vehicleId);
+    if (!pending) return null;
+
+    const result = await prisma.vehicleTransfer.updateMany({
+      where: { id: pending.id, status: 'pending' },
+      data: { status: 'cancelled', respondedAt: new Date() },
+    });
+    return result.count > 0 ? pending : null;
+  }
+
+  // The offer is bound to the address it was sent to, so only that account can accept it.
+  // Ownership moves in one transaction: the seller's period ends and the buyer's starts.
+  static async accept(token: string, user: { id: number; email: string; role: string }): Promise<RespondTransferResult> {
+    const transfer = await VehicleTransferService.findOpen(token, user);
+    if (!transfer.ok) return transfer;
+    if (user.role !== 'car_owner') return { ok: false, reason: 'not_car_owner' };
+
+    const { id, vehicleId, fromUserId, includeHistory } = transfer.transfer;
+    const now = new Date();
+
+    const accepted = await prisma.$transaction(async (tx) => {
+      const consumed = await tx.vehicleTransfer.updateMany({
+        where: { id, status: 'pending' },
+        data: { status: 'accepted', toUserId: user.id, respondedAt: now },
+      });
+      if (consumed.count === 0) return false;
+
+      // The seller must still own the vehicle; otherwise the offer is stale
+      const moved = await tx.vehicle.updateMany({
+        where: { id: vehicleId, userId: fromUserId },
+        data: {
+          userId: user.id,
+          isPrimary: false,
+          ...(!includeHistory && { historyStartsAt: now }),
+        },
+      });
+      if (moved.count === 0) throw new StaleTransferError();
+
+      // People the seller shared the vehicle with lose access; the buyer shares it anew
+      await tx.vehicleShare.deleteMany({ where: { vehicleId } });
+      await tx.vehicleShareInvitation.deleteMany({ where: { vehicleId, acceptedAt: null } });
+
+      // Service centers the seller allowed to add records need the buyer's say-so again
+      await tx.vehicleServiceCenterAccess.deleteMany({ where: { vehicleId } });
+
+      // Vehicles added before ownership was tracked get their first period now
+      const closed = await tx.vehicleOwnership.updateMany({
+        where: { vehicleId, userId: fromUserId, endedAt: null },
+        data: { endedAt: now },
+      });
+      if (closed.count === 0) {
+        const vehicle = await tx.vehicle.findUnique({ where: { id: vehicleId }, select: { createdAt: true } });
+        await tx.vehicleOwnership.create({
+          data: { vehicleId, userId: fromUserId, startedAt: vehicle!.createdAt, endedAt: now },
+        });
+      }
+      await tx.vehicleOwnership.create({
+        data: { vehicleId, userId: user.id, startedAt: now, transferId: id },
+      });
+      return true;
+    }).catch((error) => {
+      if (error instanceof StaleTransferError) return false;
+      throw error;
+    });
+
+    if (!accepted) return { ok: false, reason: 'invalid' };
+    return { ok: true, vehicleId, fromUserId, includeHistory };
+  }
+
+  static async decline(token: string, user: { id: number; email: string }): Promise<RespondTransferResult> {
+    const transfer = await VehicleTransferService.findOpen(token, user);
+    if (!transfer.ok) return transfer;
+
+    const { id, vehicleId, fromUserId, includeHistory } = transfer.transfer;
+    const result = await prisma.vehicleTransfer.updateMany({
+      where: { id, status: 'pending' },
+      data: { status: 'declined', toUserId: user.id, respondedAt: new Date() },
+    });
+    if (result.count === 0) return { ok: false, reason: 'invalid' };
+    return { ok: true, vehicleId, fromUserId, includeHistory };
+  }
+
+  // Ownership periods, oldest first. Other owners are not identified to the caller.
+  static async ownershipHistory(vehicleId: number, userId: number) {
+    const periods = await prisma.vehicleOwnership.findMany({
+      where: { vehicleId },
+      orderBy: [{ startedAt: 'asc' }, { id: 'asc' }],
+    });
+    return periods.map(period => ({
+      startedAt: period.startedAt,
+      endedAt: period.endedAt,
+      isCurrent: period.endedAt === null,
+      isYou: period.userId === userId,
+      viaTransfer: period.transferId !== null,
+    }));
+  }
+
+  // First period for a newly added vehicle
+  static async recordInitialOwner(vehicleId: number, userId: number): Promise<void> {
+    await prisma.vehicleOwnership.create({ data: { vehicleId, userId } });
+  }
+
+  private static async findOpen(token: string, user: { email: string }) {
+    const transfer = await prisma.vehicleTransfer.findUnique({ where: { tokenHash: hashToken(token) } });
+    if (!transfer || transfer.status !== 'pending') return { ok: false as const, reason: 'invalid' as const };
+    if (transfer.expiresAt < new Date()) return { ok: false as const, reason: 'expired' as const };
+    if (normalizeEmail(user.email) !== transfer.toEmail) return { ok: false as const, reason: 'email_mismatch' as const };
+    return { ok: true as const, transfer };
+  }
+}
@@ -0,0 +1,135 @@
+import crypto from 'crypto';
+import prisma from '../prisma';
+
+export type VerificationPurpose = 'password_reset' | 'email_verification';
+
+const CODE_TTL_MINUTES = parseInt(process.env.OTP_TTL_MINUTES || '10');
+const RESEND_COOLDOWN_SECONDS = parseInt(process.env.OTP_RESEND_COOLDOWN_SECONDS || '60');
+const MAX_ATTEMPTS = parseInt(process.env.OTP_MAX_ATTEMPTS || '5');
+const LOCKOUT_MINUTES = parseInt(process.env.OTP_LOCKOUT_MINUTES || '30');
+
+// Key for the code hashes; with a guessable one the stored hashes give the 6-digit codes away
+let codeSecret: string | null = null;
+
+const getCodeSecret = (): string => {
+  if (codeSecret) return codeSecret;
+  if (process.env.OTP_SECRET) {
+    codeSecret = process.env.OTP_SECRET;
+  } else if (process.env.NODE_ENV === 'production') {
+    throw new Error('No OTP_SECRET configured. Set it to a long random value');
+  } else {
+    // Development only: codes sent before a restart stop working
+    codeSecret = crypto.randomBytes(32).toString('hex');
+    console.warn('No OTP_SECRET configured; using a temporary development secret');
+  }
+  return codeSecret;
+};
+
+export type IssueResult =
+  | { ok: true; code: string; expiresInMinutes: number }
+  | { ok: false; reason: 'cooldown' | 'locked'; retryAfterSeconds: number };
+
+export type VerifyResult =
+  | { ok: true }
+  | { ok: false; reason: 'invalid' | 'expired'; attemptsRemaining?: number }
+  | { ok: false; reason: 'locked'; retryAfterSeconds: number };
+
+const hashCode = (email: string, purpose: VerificationPurpose, code: string): string => {
+  return crypto.createHmac('sha256', getCodeSecret()).update(`${email}:${purpose}:${code}`).digest('hex');
+};
+
+const secondsUntil = (date: Date): number => {
+  return Math.max(1, Math.ceil((date.getTime() - Date.now()) / 1000));
+};
+
+// Verification code service class
+export class VerificationCodeService {
+  // Resolve the hashing secret up front so a misconfigured server fails at startup
+  static init(): void {
+    getCodeSecret();
+  }
+
+  // Generate a fresh 6-digit code, replacing any previous one for this email and purpose
+  static async issue(email: string, purpose: VerificationPurpose): Promise<IssueResult> {
+    const now = new Date();
+    const existing = await prisma.verificationCode.findUnique({
+      where: { email_purpose: { email, purpose } },
+    });
+
+    if (existing?.lockedUntil && existing.lockedUntil > now) {
+      return { ok: false, reason: 'locked', retryAfterSeconds: secondsUntil(existing.lockedUntil) };
+    }
+
+    const nextSendAt = existing ? new Date(existing.lastSentAt.getTime() + RESEND_COOLDOWN_SECONDS * 1000) : now;
+    if (nextSendAt > now) {
+      return { ok: false, reason: 'cooldown', retryAfterSeconds: secondsUntil(nextSendAt) };
+    }
+
+    const code = crypto.randomInt(0, 1000000).toString().padStart(6, '0');
+    const data = {
+      codeHash: hashCode(email, purpose, code),
+      expiresAt: new Date(now.getTime() + CODE_TTL_MINUTES * 60 * 1000),
+      attempts: 0,
+      lastSentAt: now,
+      lockedUntil: null,
+      consumedAt: null,
+    };
+
+    await prisma.verificationCode.upsert({
+      where: { email_purpose: { email, purpose } },
+      update: data,
+      create: { email, purpose, ...data },
+    });
+
+    return { ok: true, code, expiresInMinutes: CODE_TTL_MINUTES };
+  }
+
+  // Check a code; too many wrong guesses lock the email out for a while
+  static async verify(email: string, purpose: VerificationPurpose, code: string): Promise<VerifyResult> {
+    const now = new Date();
+    const record = await prisma.verificationCode.findUnique({
+      where: { email_purpose: { email, purpose } },
+    });
+
+    if (!record) return { ok: false, reason: 'invalid' };
+
+    if (record.lockedUntil && record.lockedUntil > now) {
+      return { ok: false, reason: 'locked', retryAfterSeconds: secondsUntil(record.lockedUntil) };
+    }
+
+    if (record.consumedAt || record.expiresAt < now) {
+      return { ok: false, reason: 'expired' };
+    }
+
+    const expected = Buffer.from(record.codeHash, 'hex');
+    const actual = Buffer.from(hashCode(email, purpose, String(code)), 'hex');
+
+    if (!crypto.timingSafeEqual(expected, actual)) {
+      const attempts = record.attempts + 1;
+
+      if (attempts >= MAX_ATTEMPTS) {
+        const lockedUntil = new Date(now.getTime() + LOCKOUT_MINUTES * 60 * 1000);
+        await prisma.verificationCode.update({
+          where: { id: record.id },
+          data: { attempts, lockedUntil, expiresAt: now },
+        });
+        return { ok: false, reason: 'locked', retryAfterSeconds: secondsUntil(lockedUntil) };
+      }
+
+      await prisma.verificationCode.update({
+        where: { id: record.id },
+        data: { attempts },
+      });
+      return { ok: false, reason: 'invalid', attemptsRemaining: MAX_ATTEMPTS - attempts };
+    }
+
+    // Consume atomically so the same code cannot be redeemed twice
+    const consumed = await prisma.verificationCode.updateMany({
+      where: { id: record.id, consumedAt: null },
+      data: { consumedAt: now },
+    });
+    if (consumed.count === 0) return { ok: false, reason: 'expired' };
+
+    return { ok: true };
+  }
+}
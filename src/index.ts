@@ -5,31 +5,73 @@ import { authenticateToken, AuthenticatedRequest } from './middleware/auth';
 
 // Import routes
 import authRoutes from './routes/auth'
+import twoFactorRoutes from './routes/twoFactor'
+import deviceRoutes from './routes/devices'
 import vehicleRoutes from './routes/vehicles'
 import profileRoutes from './routes/profiles'
+import accountRoutes from './routes/account'
 import subscriptionRoutes from './routes/subscriptions'
 import serviceTypesRouter from './routes/serviceTypes';
 import servicesRouter from './routes/services';
 import packagesRoutes from './routes/packages';
-import createServiceCentersRouter from './routes/createServiceCenters';
-import createSparePartSellersRouter from './routes/createSparePartSellers';
+import staffRoutes from './routes/staff';
+import serviceHistoryRoutes from './routes/serviceHistory';
+import maintenanceRoutes from './routes/maintenance';
+import vehicleTransferRoutes from './routes/vehicleTransfers';
+import vehicleDocumentRoutes from './routes/vehicleDocuments';
+import fuelRoutes from './routes/fuel';
+import serviceCenterRoutes from './routes/serviceCenters';
+import vehicleSharingRoutes from './routes/vehicleSharing';
+import adminRoutes from './routes/admin';
 import prisma from './prisma';
+import { startScheduledJobs } from './jobs';
+import { TokenService } from './Services/Token';
+import { VerificationCodeService } from './Services/VerificationCode';
+import { getStorage, LocalStorageDriver } from './Services/Storage';
+import { inlineImageJson } from './middleware/upload';
+
+// Fail fast when no signing key or OTP secret is configured in production
+TokenService.init()
+VerificationCodeService.init()
 
 const app = express()
 
+// Behind a load balancer or reverse proxy, set TRUST_PROXY (e.g. "1" or "loopback")
+// so req.ip reflects the real client address from X-Forwarded-For
+if (process.env.TRUST_PROXY) {
+  const trustProxy = process.env.TRUST_PROXY
+  app.set('trust proxy', /^\d+$/.test(trustProxy) ? parseInt(trustProxy) : trustProxy === 'true' ? true : trustProxy)
+}
+
 // CORS configuration
 app.use(cors({
   origin: ['http://localhost:5173', 'http://localhost:3000'],
   credentials: true
 }))
 
+// Routes that accept a base64 image get a larger body limit than the rest
+app.post('/vehicles/:userId/vehicles', inlineImageJson)
+app.put('/profiles/:userId', inlineImageJson)
+app.post('/auth/onboarding', inlineImageJson)
 app.use(express.json())
 
+// Uploaded images, when they are kept on this server's disk rather than in S3
+const storage = getStorage()
+if (storage instanceof LocalStorageDriver) {
+  app.use('/uploads', express.static(storage.root, { immutable: true, maxAge: '365d', index: false }))
+}
+
 // Health check endpoint
 app.get('/health', (req, res) => {
   res.json({ status: 'OK', timestamp: new Date().toISOString() })
 })
 
+// Public keys for verifying the access tokens we issue
+app.get('/.well-known/jwks.json', (req, res) => {
+  res.set('Cache-Control', 'public, max-age=300')
+  res.json(TokenService.jwks())
+})
+
 // Test database connection
 app.get('/test-db', async (req, res) => {
   try {
@@ -74,6 +116,10 @@ app.get('/user/status', authenticateToken, async (req: AuthenticatedRequest, res
       case 'part_seller':
         isSetupComplete = !!user.partSellerProfile;
         break;
+
+      case 'admin':
+        isSetupComplete = true;
+        break;
     }
 
     const hasActiveSubscription = !!(user.subscription && user.subscription.status === 'active');
@@ -97,20 +143,31 @@ app.get('/user/status', authenticateToken, async (req: AuthenticatedRequest, res
 
 // Mount routes
 app.use('/auth', authRoutes)
+app.use('/auth/2fa', twoFactorRoutes)
+app.use('/auth/devices', deviceRoutes)
 app.use('/vehicles', vehicleRoutes)
 app.use('/subscriptions', subscriptionRoutes)
 app.use('/profiles', profileRoutes)
+app.use('/account', accountRoutes)
 app.use('/service-types', serviceTypesRouter);
 app.use('/', servicesRouter);
 app.use('/', packagesRoutes);
-app.use('/admin/createServiceCenter', createServiceCentersRouter);
-app.use('/admin/createSparePartsSeller', createSparePartSellersRouter);
+app.use('/', staffRoutes);
+app.use('/', serviceHistoryRoutes);
+app.use('/', maintenanceRoutes);
+app.use('/', vehicleTransferRoutes);
+app.use('/', vehicleDocumentRoutes);
+app.use('/', fuelRoutes);
+app.use('/', serviceCenterRoutes);
+app.use('/', vehicleSharingRoutes);
+app.use('/admin', adminRoutes);
 
 const PORT = process.env.PORT || 3000
 app.listen(PORT, () => {
   console.log(`Server running on port ${PORT}`)
   console.log(`Health check: http://localhost:${PORT}/health`)
   console.log(`Database test: http://localhost:${PORT}/test-db`)
+  startScheduledJobs()
 })
 
 process.on('SIGINT', async () => {
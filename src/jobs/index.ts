@@ -0,0 +1,37 @@
+import { AccountDeletionService } from '../Services/AccountDeletion'
+import { AuditLogService } from '../Services/AuditLog'
+import { MaintenanceService } from '../Services/Maintenance'
+import { VehicleDocumentService } from '../Services/VehicleDocument'
+
+// In-process periodic jobs. Each run is awaited before the next is scheduled,
+// so a slow run never overlaps itself.
+const every = (name: string, minutes: number, task: () => Promise<void>) => {
+  const run = async () => {
+    try {
+      await task()
+    } catch (error) {
+      console.error(`Scheduled job ${name} failed:`, error)
+    }
+    setTimeout(run, minutes * 60 * 1000).unref()
+  }
+  setTimeout(run, 60 * 1000).unref()
+}
+
+export const startScheduledJobs = () => {
+  if (process.env.DISABLE_SCHEDULED_JOBS === 'true') return
+
+  every('account-deletion', parseInt(process.env.ACCOUNT_DELETION_SWEEP_MINUTES || '60'), async () => {
+    const purged = await AccountDeletionService.processDueDeletions()
+    for (const userId of purged) {
+      await AuditLogService.record({ action: 'account.deleted', entityType: 'user', entityId: userId })
+    }
+  })
+
+  every('maintenance-reminders', parseInt(process.env.MAINTENANCE_REMINDER_SWEEP_MINUTES || '360'), async () => {
+    await MaintenanceService.sendDueReminders()
+  })
+
+  every('document-expiry-alerts', parseInt(process.env.DOCUMENT_EXPIRY_SWEEP_MINUTES || '720'), async () => {
+    await VehicleDocumentService.sendExpiryAlerts()
+  })
+}
@@ -1,33 +1,63 @@
 import { Request, Response, NextFunction } from 'express'
-import jwt from 'jsonwebtoken'
+import { SessionService } from '../Services/Session'
+import { TokenService } from '../Services/Token'
+import { Role } from '../types'
 
 export interface AuthenticatedRequest extends Request {
   user?: {
     userId: number
     role: string
+    sessionId?: string
     isRegistrationComplete?: boolean
+    twoFactorSetupRequired?: boolean
   }
 }
 
-const JWT_SECRET = process.env.JWT_SECRET || 'mysecret'
+// Verify the bearer token and its session; tokens for accounts that still have to
+// enroll a required second factor are only accepted where allowSetupScope is set
+const verifyAccessToken = (allowSetupScope: boolean) => {
+  return async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    const authHeader = req.headers['authorization']
+    const token = authHeader && authHeader.split(' ')[1]
 
-export const authenticateToken = (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
-  const authHeader = req.headers['authorization']
-  const token = authHeader && authHeader.split(' ')[1]
-
-  if (!token) {
-    return res.status(401).json({ error: 'Access token required' })
-  }
+    if (!token) {
+      return res.status(401).json({ error: 'Access token required' })
+    }
 
-  jwt.verify(token, JWT_SECRET, (err: any, user: any) => {
-    if (err) {
+    let user: any
+    try {
+      user = TokenService.verify(token, 'access')
+    } catch (err) {
       return res.status(403).json({ error: 'Invalid or expired token' })
     }
+
+    // Access tokens are only honoured while their session has not been revoked
+    try {
+      if (!user?.sessionId || !(await SessionService.isSessionActive(user.sessionId, user.userId))) {
+        return res.status(401).json({ error: 'Session has been revoked' })
+      }
+    } catch (error) {
+      console.error('Session lookup error:', error)
+      return res.status(500).json({ error: 'Internal server error' })
+    }
+
+    if (user.twoFactorSetupRequired && !allowSetupScope) {
+      return res.status(403).json({
+        error: 'Enable two-factor authentication to continue',
+        code: 'two_factor_setup_required'
+      })
+    }
+
     req.user = user
     next()
-  })
+  }
 }
 
+export const authenticateToken = verifyAccessToken(false)
+
+// For the few routes needed to finish enrolling a required second factor
+export const authenticateSetupToken = verifyAccessToken(true)
+
 export const requireRegistrationComplete = (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
   if (!req.user?.isRegistrationComplete) {
     return res.status(403).json({ error: 'Registration must be completed first' })
@@ -35,9 +65,9 @@ export const requireRegistrationComplete = (req: AuthenticatedRequest, res: Resp
   next()
 }
 
-export const requireRole = (roles: string[]) => {
+export const requireRole = (roles: Role[]) => {
   return (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
-    if (!req.user || !roles.includes(req.user.role)) {
+    if (!req.user || !roles.includes(req.user.role as Role)) {
       return res.status(403).json({ error: 'Insufficient permissions' })
     }
     next()
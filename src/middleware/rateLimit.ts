@@ -0,0 +1,25 @@
+import { Request, Response, NextFunction } from 'express'
+import { AttemptLimiterService, AttemptScope } from '../Services/AttemptLimiter'
+import { getClientIp } from '../utils/clientInfo'
+
+// Reject requests for an email or IP that is currently delayed or locked out
+export const limitAttempts = (scope: AttemptScope) => {
+  return async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const result = await AttemptLimiterService.check(scope, { email: req.body?.email, ip: getClientIp(req) })
+      if (!result.allowed) {
+        res.set('Retry-After', String(result.retryAfterSeconds))
+        return res.status(429).json({
+          error: result.locked
+            ? 'Too many failed attempts. Try again later'
+            : 'Too many attempts. Please wait before trying again',
+          retryAfter: result.retryAfterSeconds
+        })
+      }
+      next()
+    } catch (error) {
+      console.error('Attempt limiter error:', error)
+      res.status(500).json({ error: 'Internal server error' })
+    }
+  }
+}
@@ -0,0 +1,38 @@
+import { Response, NextFunction } from 'express'
+import { AuthenticatedRequest } from './auth'
+import { ServiceCenterStaffService, CenterPermission, CenterRole } from '../Services/ServiceCenterStaff'
+
+export interface ServiceCenterRequest extends AuthenticatedRequest {
+  centerRole?: CenterRole
+}
+
+// Allow the request only when the caller's role at :centerId grants the permission.
+// Must run after authenticateToken. Platform admins act with owner rights.
+export const requireCenterPermission = (permission: CenterPermission) => {
+  return async (req: ServiceCenterRequest, res: Response, next: NextFunction) => {
+    const userId = req.user?.userId
+    const centerId = Number(req.params.centerId)
+    if (!userId) {
+      return res.status(401).json({ error: 'User not authenticated' })
+    }
+
+    try {
+      const role = req.user?.role === 'admin'
+        ? 'owner'
+        : await ServiceCenterStaffService.getRole(centerId, userId)
+
+      if (!role) {
+        return res.status(403).json({ error: 'You do not have access to this service center' })
+      }
+      if (!ServiceCenterStaffService.hasPermission(role, permission)) {
+        return res.status(403).json({ error: 'Insufficient permissions' })
+      }
+
+      req.centerRole = role
+      next()
+    } catch (error) {
+      console.error('Service center permission error:', error)
+      res.status(500).json({ error: 'Internal server error' })
+    }
+  }
+}
@@ -0,0 +1,41 @@
+import express, { Response, NextFunction } from 'express'
+import multer from 'multer'
+import { AuthenticatedRequest } from './auth'
+import { ACCEPTED_IMAGE_TYPES, IMAGE_ERRORS, MAX_IMAGE_BYTES } from '../Services/ImageUpload'
+
+const imageUpload = multer({
+  storage: multer.memoryStorage(),
+  limits: { fileSize: MAX_IMAGE_BYTES, files: 1, fields: 10 },
+})
+
+// JSON parser for the few routes that still take an image inline as base64, which
+// is a third larger than the file. Mounted before the app-wide parser in src/index.ts
+// so every other route keeps the default body limit.
+export const inlineImageJson = express.json({ limit: Math.ceil(MAX_IMAGE_BYTES * 4 / 3) + 64 * 1024 })
+
+// Accept one multipart image in the given field and leave it in req.file.
+// Must run after authenticateToken so anonymous uploads are never buffered.
+// The declared type is only a first filter; ImageUploadService checks the content.
+export const singleImage = (field: string) => {
+  const parse = imageUpload.single(field)
+
+  return (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    parse(req, res, (err: unknown) => {
+      if (err instanceof multer.MulterError) {
+        if (err.code === 'LIMIT_FILE_SIZE') {
+          return res.status(IMAGE_ERRORS.too_large.status).json({ error: IMAGE_ERRORS.too_large.error })
+        }
+        return res.status(400).json({ error: `Invalid upload: ${err.message}` })
+      }
+      if (err) return next(err)
+
+      if (!req.file) {
+        return res.status(400).json({ error: `Attach an image in the "${field}" field` })
+      }
+      if (!ACCEPTED_IMAGE_TYPES.includes(req.file.mimetype)) {
+        return res.status(IMAGE_ERRORS.unsupported_type.status).json({ error: IMAGE_ERRORS.unsupported_type.error })
+      }
+      next()
+    })
+  }
+}
@@ -0,0 +1,47 @@
+import { Response, NextFunction } from 'express'
+import { Vehicle } from '@prisma/client'
+import { AuthenticatedRequest } from './auth'
+import { VehicleSharingService, VehiclePermission, VehicleRole } from '../Services/VehicleSharing'
+
+export interface VehicleRequest extends AuthenticatedRequest {
+  vehicle?: Vehicle
+  vehicleRole?: VehicleRole
+}
+
+// Allow the request only when the caller owns :vehicleId or it is shared with them
+// with a role that grants the permission. :userId is the caller, not the owner.
+// Must run after authenticateToken. Loads the vehicle into req.vehicle.
+export const requireVehiclePermission = (permission: VehiclePermission) => {
+  return async (req: VehicleRequest, res: Response, next: NextFunction) => {
+    const userId = req.user?.userId
+    if (!userId) {
+      return res.status(401).json({ error: 'User not authenticated' })
+    }
+    if (userId !== Number(req.params.userId)) {
+      return res.status(403).json({ error: 'Unauthorized' })
+    }
+
+    const vehicleId = Number(req.params.vehicleId)
+    if (!Number.isInteger(vehicleId)) {
+      return res.status(404).json({ error: 'Vehicle not found' })
+    }
+
+    try {
+      // Vehicles the caller cannot see at all look the same as ones that do not exist
+      const access = await VehicleSharingService.getAccess(vehicleId, userId)
+      if (!access) {
+        return res.status(404).json({ error: 'Vehicle not found' })
+      }
+      if (!VehicleSharingService.hasPermission(access.role, permission)) {
+        return res.status(403).json({ error: 'Insufficient permissions' })
+      }
+
+      req.vehicle = access.vehicle
+      req.vehicleRole = access.role
+      next()
+    } catch (error) {
+      console.error('Vehicle permission error:', error)
+      res.status(500).json({ error: 'Internal server error' })
+    }
+  }
+}
@@ -0,0 +1,81 @@
+import { Router, Response } from 'express';
+import { authenticateToken, AuthenticatedRequest } from '../middleware/auth';
+import { DataExportService } from '../Services/DataExport';
+import { AuditLogService } from '../Services/AuditLog';
+
+const router = Router();
+
+// POST /account/exports
+router.post('/exports', authenticateToken, async (req: AuthenticatedRequest, res: Response) => {
+  const userId = req.user?.userId;
+  if (!userId) return res.status(401).json({ error: 'Unauthorized' });
+  try {
+    const result = await DataExportService.request(userId);
+    if (!result.ok) {
+      if (result.reason === 'too_soon') {
+        res.set('Retry-After', String(result.retryAfterSeconds));
+        return res.status(429).json({
+          error: 'You recently exported your data. Please try again later',
+          retryAfter: result.retryAfterSeconds
+        });
+      }
+      return res.status(409).json({ error: 'An export is already being prepared' });
+    }
+
+    await AuditLogService.record({
+      actorId: userId,
+      action: 'account.data_export_requested',
+      entityType: 'data_export',
+      entityId: result.exportId
+    }, req);
+
+    res.status(202).json({
+      message: 'Your data export is being prepared. We will email you when it is ready',
+      exportId: result.exportId
+    });
+  } catch (error) {
+    console.error('Request data export error:', error);
+    res.status(500).json({ error: 'Failed to request data export' });
+  }
+});
+
+// GET /account/exports
+router.get('/exports', authenticateToken, async (req: AuthenticatedRequest, res: Response) => {
+  const userId = req.user?.userId;
+  if (!userId) return res.status(401).json({ error: 'Unauthorized' });
+  try {
+    const exports = await DataExportService.list(userId);
+    res.json({ exports });
+  } catch (error) {
+    console.error('List data exports error:', error);
+    res.status(500).json({ error: 'Failed to fetch data exports' });
+  }
+});
+
+// GET /account/exports/:exportId/download
+router.get('/exports/:exportId/download', authenticateToken, async (req: AuthenticatedRequest, res: Response) => {
+  const userId = req.user?.userId;
+  if (!userId) return res.status(401).json({ error: 'Unauthorized' });
+  try {
+    const result = await DataExportService.getDownload(userId, req.params.exportId);
+    if (!result.ok) {
+      if (result.reason === 'not_found') return res.status(404).json({ error: 'Export not found' });
+      if (result.reason === 'expired') return res.status(410).json({ error: 'This export has expired. Please request a new one' });
+      return res.status(409).json({ error: 'This export is not ready yet' });
+    }
+
+    await AuditLogService.record({
+      actorId: userId,
+      action: 'account.data_export_downloaded',
+      entityType: 'data_export',
+      entityId: req.params.exportId
+    }, req);
+
+    res.download(result.filePath, result.fileName);
+  } catch (error) {
+    console.error('Download data export error:', error);
+    res.status(500).json({ error: 'Failed to download data export' });
+  }
+});
+
+export default router;
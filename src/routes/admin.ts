@@ -0,0 +1,180 @@
+import { Router, Request, Response, NextFunction } from 'express';
+import { body, param, query, validationResult } from 'express-validator';
+import { authenticateToken, requireRole, AuthenticatedRequest } from '../middleware/auth';
+import { UserAdminService, AdminActionResult } from '../Services/UserAdmin';
+import { AuditLogService } from '../Services/AuditLog';
+import { ROLES } from '../utils/validation';
+import { Role } from '../types';
+import createServiceCentersRouter from './createServiceCenters';
+import createSparePartSellersRouter from './createSparePartSellers';
+
+const router = Router();
+
+// Every admin endpoint requires a signed-in admin
+router.use(authenticateToken, requireRole(['admin']));
+
+// Middleware for validation errors
+function handleValidationErrors(req: Request, res: Response, next: NextFunction) {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    return res.status(400).json({ errors: errors.array() });
+  }
+  next();
+}
+
+const ACTION_ERRORS: Record<Exclude<AdminActionResult, { ok: true }>['reason'], { status: number; error: string }> = {
+  not_found: { status: 404, error: 'User not found' },
+  self: { status: 400, error: 'You cannot perform this action on your own account' },
+  already_suspended: { status: 409, error: 'User is already suspended' },
+  not_suspended: { status: 409, error: 'User is not suspended' },
+};
+
+const sendActionError = (res: Response, result: Exclude<AdminActionResult, { ok: true }>) => {
+  const { status, error } = ACTION_ERRORS[result.reason];
+  res.status(status).json({ error });
+};
+
+// Business account creation
+router.use('/createServiceCenter', createServiceCentersRouter);
+router.use('/createSparePartsSeller', createSparePartSellersRouter);
+
+// GET /admin/users
+router.get('/users', [
+  query('search').optional().isString().trim(),
+  query('role').optional().isIn(ROLES),
+  query('status').optional().isIn(['active', 'suspended']),
+  query('page').optional().isInt({ min: 1 }),
+  query('limit').optional().isInt({ min: 1, max: 100 }),
+  handleValidationErrors
+], async (req: Request, res: Response) => {
+  try {
+    const result = await UserAdminService.searchUsers({
+      search: (req.query.search as string) || undefined,
+      role: req.query.role as Role | undefined,
+      status: req.query.status as 'active' | 'suspended' | undefined,
+      page: Number(req.query.page) || 1,
+      limit: Number(req.query.limit) || 20,
+    });
+    res.json(result);
+  } catch (error) {
+    console.error('Admin list users error:', error);
+    res.status(500).json({ error: 'Failed to fetch users' });
+  }
+});
+
+// GET /admin/users/:userId
+router.get('/users/:userId', [
+  param('userId').isInt(),
+  handleValidationErrors
+], async (req: Request, res: Response) => {
+  try {
+    const user = await UserAdminService.getUser(Number(req.params.userId));
+    if (!user) return res.status(404).json({ error: 'User not found' });
+    res.json(user);
+  } catch (error) {
+    console.error('Admin get user error:', error);
+    res.status(500).json({ error: 'Failed to fetch user' });
+  }
+});
+
+// POST /admin/users/:userId/suspend
+router.post('/users/:userId/suspend', [
+  param('userId').isInt(),
+  body('reason').optional().isString().trim().isLength({ max: 500 }),
+  handleValidationErrors
+], async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const result = await UserAdminService.suspend(req.user!.userId, Number(req.params.userId), req.body.reason);
+    if (!result.ok) return sendActionError(res, result);
+    await AuditLogService.record({
+      actorId: req.user!.userId,
+      action: 'admin.user.suspended',
+      entityType: 'user',
+      entityId: req.params.userId,
+      metadata: { reason: req.body.reason }
+    }, req);
+    res.json({ message: 'User suspended' });
+  } catch (error) {
+    console.error('Admin suspend user error:', error);
+    res.status(500).json({ error: 'Failed to suspend user' });
+  }
+});
+
+// POST /admin/users/:userId/reactivate
+router.post('/users/:userId/reactivate', [
+  param('userId').isInt(),
+  handleValidationErrors
+], async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const result = await UserAdminService.reactivate(Number(req.params.userId));
+    if (!result.ok) return sendActionError(res, result);
+    await AuditLogService.record({
+      actorId: req.user!.userId,
+      action: 'admin.user.reactivated',
+      entityType: 'user',
+      entityId: req.params.userId
+    }, req);
+    res.json({ message: 'User reactivated' });
+  } catch (error) {
+    console.error('Admin reactivate user error:', error);
+    res.status(500).json({ error: 'Failed to reactivate user' });
+  }
+});
+
+// PUT /admin/users/:userId/role
+router.put('/users/:userId/role', [
+  param('userId').isInt(),
+  body('role').isIn(ROLES),
+  handleValidationErrors
+], async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const result = await UserAdminService.changeRole(req.user!.userId, Number(req.params.userId), req.body.role);
+    if (!result.ok) return sendActionError(res, result);
+    if (result.previousRole !== req.body.role) {
+      await AuditLogService.record({
+        actorId: req.user!.userId,
+        action: 'admin.user.role_changed',
+        entityType: 'user',
+        entityId: req.params.userId,
+        before: { role: result.previousRole },
+        after: { role: req.body.role }
+      }, req);
+    }
+    res.json({ message: 'Role updated', role: req.body.role });
+  } catch (error) {
+    console.error('Admin change role error:', error);
+    res.status(500).json({ error: 'Failed to change role' });
+  }
+});
+
+// GET /admin/audit-logs
+router.get('/audit-logs', [
+  query('actorId').optional().isInt(),
+  query('action').optional().isString(),
+  query('entityType').optional().isString(),
+  query('entityId').optional().isString(),
+  query('from').optional().isISO8601(),
+  query('to').optional().isISO8601(),
+  query('page').optional().isInt({ min: 1 }),
+  query('limit').optional().isInt({ min: 1, max: 200 }),
+  handleValidationErrors
+], async (req: Request, res: Response) => {
+  try {
+    const result = await AuditLogService.query({
+      actorId: req.query.actorId ? Number(req.query.actorId) : undefined,
+      action: (req.query.action as string) || undefined,
+      entityType: (req.query.entityType as string) || undefined,
+      entityId: (req.query.entityId as string) || undefined,
+      from: req.query.from ? new Date(req.query.from as string) : undefined,
+      to: req.query.to ? new Date(req.query.to as string) : undefined,
+      page: Number(req.query.page) || 1,
+      limit: Number(req.query.limit) || 50,
+    });
+    res.json(result);
+  } catch (error) {
+    console.error('Admin audit log query error:', error);
+    res.status(500).json({ error: 'Failed to fetch audit logs' });
+  }
+});
+
+export default router;
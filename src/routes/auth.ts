@@ -1,32 +1,172 @@
-import { Router, Request, Response } from 'express'
+import express, { Router, Request, Response } from 'express'
 import bcrypt from 'bcrypt'
+import crypto from 'crypto'
 import jwt from 'jsonwebtoken'
-import { OAuth2Client } from 'google-auth-library'
 import { PrismaClient } from '@prisma/client'
-import { authenticateToken, AuthenticatedRequest } from '../middleware/auth'
-import { validateRegistrationData, validateCompleteRegistrationData, validateEmail } from '../utils/validation'
+import { authenticateToken, authenticateSetupToken, AuthenticatedRequest } from '../middleware/auth'
+import { validateRegistrationData, validateCompleteRegistrationData, validateEmail, validateImageUrl } from '../utils/validation'
 import { checkSetupStatus } from '../utils/setupFlow'
 import { RegistrationData, CompleteRegistrationData, AuthResponse, SetupStatus } from '../types'
 import prisma from '../prisma';
 import { EmailService } from '../Services/Email';
+import { SessionService } from '../Services/Session';
+import { VerificationCodeService } from '../Services/VerificationCode';
+import { TwoFactorService } from '../Services/TwoFactor';
+import { AttemptLimiterService, AttemptScope } from '../Services/AttemptLimiter';
+import { limitAttempts } from '../middleware/rateLimit';
+import { KnownDeviceService } from '../Services/KnownDevice';
+import { getClientInfo, getClientIp } from '../utils/clientInfo';
+import { describeLocation } from '../utils/geoip';
+import { IdentityService, ExternalProfile } from '../Services/Identity';
+import { AuditLogService } from '../Services/AuditLog';
+import { AccountDeletionService } from '../Services/AccountDeletion';
+import { ImageUploadService, IMAGE_ERRORS } from '../Services/ImageUpload';
+import { PasswordService } from '../Services/Password';
+import { TokenService } from '../Services/Token';
+import {
+  getOAuthProvider,
+  listOAuthProviders,
+  OAuthStateService,
+  resolveFrontendCallback,
+  defaultFrontendCallback
+} from '../Services/OAuth';
 
 const router = Router()
-const googleClient = new OAuth2Client(
-  process.env.GOOGLE_CLIENT_ID,
-  process.env.GOOGLE_CLIENT_SECRET,
-  process.env.GOOGLE_REDIRECT_URI || 'http://localhost:3000/auth/google/callback'
-)
-const JWT_SECRET = process.env.JWT_SECRET || 'secret'
-
-// Helper function to generate JWT token with setup status
-const generateToken = (user: any, setupStatus?: SetupStatus) => {
-  return jwt.sign({
+const ACCESS_TOKEN_EXPIRES_IN = process.env.ACCESS_TOKEN_EXPIRES_IN || '15m'
+const FRONTEND_URL = process.env.FRONTEND_URL || 'http://localhost:5173'
+
+// Compared against when the account does not exist so response timing does not reveal it
+const DUMMY_PASSWORD_HASH = bcrypt.hashSync('motortrace-timing-equalizer', 10)
+
+// Helper function to generate a short-lived access token bound to a session.
+// Until a required second factor is enrolled the token only opens the setup routes.
+const generateToken = (user: any, setupStatus: SetupStatus | undefined, sessionId: string) => {
+  return TokenService.sign('access', {
     userId: user.id,
     role: user.role,
+    sessionId,
     isRegistrationComplete: setupStatus?.isRegistrationComplete,
     isSetupComplete: setupStatus?.isSetupComplete,
-    hasActiveSubscription: setupStatus?.hasActiveSubscription
-  }, JWT_SECRET, { expiresIn: '1d' })
+    hasActiveSubscription: setupStatus?.hasActiveSubscription,
+    ...(setupStatus?.missingSteps.includes('two_factor') && { twoFactorSetupRequired: true })
+  }, ACCESS_TOKEN_EXPIRES_IN)
+}
+
+// Helper function to open a new session and issue its access/refresh token pair
+const startSession = async (user: any, setupStatus: SetupStatus, req: Request) => {
+  const client = getClientInfo(req)
+  const { device, isNew, deviceToken } = await KnownDeviceService.recognize(user.id, client)
+  const { sessionId, refreshToken } = await SessionService.createSession(user.id, {
+    userAgent: client.userAgent,
+    ip: client.ip,
+    deviceId: device.id,
+  })
+  return { token: generateToken(user, setupStatus, sessionId), refreshToken, device, deviceToken, isNewDevice: isNew }
+}
+
+// Helper function to alert the user about a sign-in from a device we have not seen before
+const sendNewDeviceAlert = async (user: any, device: { id: number; label: string; lastIp: string | null }) => {
+  const revokeToken = TokenService.sign('device_revoke', { userId: user.id, deviceId: device.id, type: 'device_revoke' }, '7d')
+
+  const success = await EmailService.sendLoginNotificationEmail(user.email, {
+    timestamp: new Date(),
+    location: describeLocation(device.lastIp || undefined),
+    device: device.label,
+    ip: device.lastIp || undefined,
+    secureAccountLink: `${FRONTEND_URL}/secure-account?token=${encodeURIComponent(revokeToken)}`,
+  });
+  console.log("Email Success", success);
+}
+
+// Helper function to issue the single-use token exchanged at /auth/login/2fa
+const generateTwoFactorChallenge = (user: any) => {
+  return TwoFactorService.createChallenge(user.id)
+}
+
+const IDENTITY_ERRORS: Record<string, string> = {
+  email_missing: 'Email missing in the token!',
+  email_unverified: 'Your email address is not verified with this provider',
+  account_exists: 'An account with this email already exists. Sign in with your password and link this provider from your account settings',
+}
+
+const ACCOUNT_SUSPENDED = 'This account has been suspended. Contact support for help'
+
+// Helper function to tie a reset token to the password it replaces; once the
+// password changes the stamp no longer matches, so each token works only once
+const passwordStamp = (user: { password: string | null }) => {
+  return crypto.createHash('sha256').update(user.password || '').digest('hex').slice(0, 32)
+}
+
+// Helper function to count a failed sign-in and email an unlock link when it locks the account
+const recordLoginFailure = async (email: string, req: Request, scope: AttemptScope = 'login') => {
+  const { emailLocked, lockoutMinutes } = await AttemptLimiterService.recordFailure(scope, { email, ip: getClientIp(req) })
+  await AuditLogService.record({ action: 'auth.login_failed', metadata: { email, lockedOut: emailLocked } }, req)
+  if (!emailLocked) return
+
+  const user = await prisma.user.findUnique({ where: { email } })
+  if (!user) return
+
+  const unlockToken = TokenService.sign('unlock', { email: user.email, type: 'unlock' }, '1d')
+  const unlockLink = `${FRONTEND_URL}/unlock-account?token=${encodeURIComponent(unlockToken)}`
+  await EmailService.sendAccountLockedEmail(user.email, unlockLink, lockoutMinutes)
+}
+
+// Helper function to cancel a pending account deletion when its owner signs back in
+const cancelPendingDeletion = async (user: any, req: Request): Promise<boolean> => {
+  if (!user.deletionScheduledFor) return false
+
+  const cancelled = await AccountDeletionService.cancel(user.id)
+  if (cancelled) {
+    await AuditLogService.record({ actorId: user.id, action: 'account.deletion_cancelled', entityType: 'user', entityId: user.id }, req)
+  }
+  return cancelled
+}
+
+// Helper function to finish a login once every factor has been checked
+const completeLogin = async (user: any, req: Request, res: Response, method: string = 'password') => {
+  if (user.suspendedAt) {
+    return res.status(403).json({ error: ACCOUNT_SUSPENDED })
+  }
+
+  // Failures are only forgotten once every factor has passed, so a correct
+  // password cannot be used to wipe the count of wrong second-factor codes
+  await AttemptLimiterService.reset('login', user.email)
+  await AttemptLimiterService.reset('two_factor', user.email)
+
+  // Check setup status
+  const setupStatus = await checkSetupStatus(user.id)
+  const { token, refreshToken, device, deviceToken, isNewDevice } = await startSession(user, setupStatus, req)
+  await AuditLogService.record({
+    actorId: user.id,
+    action: 'auth.login',
+    entityType: 'user',
+    entityId: user.id,
+    metadata: { method, deviceId: device.id }
+  }, req)
+  const deletionCancelled = await cancelPendingDeletion(user, req)
+
+  // Only unfamiliar devices trigger a security alert
+  if (isNewDevice) {
+    await sendNewDeviceAlert(user, device)
+  }
+
+  res.json({ 
+    message: 'Login success', 
+    token,
+    refreshToken,
+    deviceToken,
+    user: {
+      id: user.id,
+      email: user.email,
+      name: user.name,
+      phone: user.phone,
+      role: user.role
+    },
+    isRegistrationComplete: user.isRegistrationComplete,
+    setupStatus,
+    requiresSetup: setupStatus.missingSteps.length > 0,
+    ...(deletionCancelled && { deletionCancelled: true })
+  })
 }
 
 // REGISTER
@@ -54,7 +194,7 @@ router.post('/register', async (req: Request, res: Response) => {
       return res.status(400).json({ error: 'User already exists' })
     }
 
-    const hashed = await bcrypt.hash(password, 10)
+    const hashed = await PasswordService.hash(password)
 
     // Create user with transaction
     const result = await prisma.$transaction(async (tx) => {
@@ -99,17 +239,33 @@ router.post('/register', async (req: Request, res: Response) => {
 
       return user
     })
+    await PasswordService.recordHistory(result.id, hashed)
 
     // Check setup status for new user
     const setupStatus = await checkSetupStatus(result.id)
-    const token = generateToken(result, setupStatus)
+    const { token, refreshToken, deviceToken } = await startSession(result, setupStatus, req)
+    await AuditLogService.record({
+      actorId: result.id,
+      action: 'auth.register',
+      entityType: 'user',
+      entityId: result.id,
+      metadata: { method: 'password', role: result.role }
+    }, req)
 
     const emailresult = await EmailService.sendWelcomeEmail(email);
     console.log("Email Success", emailresult);
 
+    // Ask the user to confirm they own the address
+    const verification = await VerificationCodeService.issue(email, 'email_verification')
+    if (verification.ok) {
+      await EmailService.sendEmailVerificationEmail(email, verification.code, verification.expiresInMinutes)
+    }
+
     res.json({ 
       message: 'User created successfully', 
       token,
+      refreshToken,
+      deviceToken,
       user: { 
         id: result.id, 
         email: result.email, 
@@ -127,7 +283,7 @@ router.post('/register', async (req: Request, res: Response) => {
 })
 
 // LOGIN
-router.post('/login', async (req: Request, res: Response) => {
+router.post('/login', limitAttempts('login'), async (req: Request, res: Response) => {
   try {
     const { email, password } = req.body
 
@@ -135,221 +291,477 @@ router.post('/login', async (req: Request, res: Response) => {
       return res.status(400).json({ error: 'Email and password are required' })
     }
 
+    // Unknown email, passwordless account and wrong password all look the same to the caller
     const user = await prisma.user.findUnique({ where: { email } })
-    if (!user) return res.status(404).json({ error: 'User not found' })
-
-    if (!user.password) return res.status(401).json({ error: 'Invalid password' })
-
-    const valid = await bcrypt.compare(password, user.password)
-    if (!valid) return res.status(401).json({ error: 'Invalid password' })
-
-    // Check setup status
-    const setupStatus = await checkSetupStatus(user.id)
-    const token = generateToken(user, setupStatus)
-
-    const userEmail = user.email;
+    const valid = await bcrypt.compare(String(password), user?.password || DUMMY_PASSWORD_HASH)
+    if (!user || !user.password || !valid) {
+      await recordLoginFailure(email, req)
+      return res.status(401).json({ error: 'Invalid email or password' })
+    }
 
-    const loginDetails = {
-      timestamp: new Date(),
-      location: 'Colombo 14, Sri-Lanka',
-      device: 'Pixel 9 Pro',
-      ip: '192.168.1.1',
-    };
+    if (user.suspendedAt) {
+      return res.status(403).json({ error: ACCOUNT_SUSPENDED })
+    }
 
-    const success = await EmailService.sendLoginNotificationEmail(userEmail, loginDetails);
-    console.log("Email Success", success);
+    // Accounts with a second factor get a challenge instead of a session
+    if (await TwoFactorService.isEnabled(user.id)) {
+      const challengeToken = await generateTwoFactorChallenge(user)
+      return res.json({
+        message: 'Two-factor authentication required',
+        requiresTwoFactor: true,
+        challengeToken
+      })
+    }
 
-    res.json({ 
-      message: 'Login success', 
-      token,
-      user: {
-        id: user.id,
-        email: user.email,
-        name: user.name,
-        phone: user.phone,
-        role: user.role
-      },
-      isRegistrationComplete: user.isRegistrationComplete,
-      setupStatus,
-      requiresSetup: setupStatus.missingSteps.length > 0
-    })
+    await completeLogin(user, req, res)
   } catch (error) {
     console.error('Login error:', error)
     res.status(500).json({ error: 'Internal server error' })
   }
 })
 
-// GOOGLE OAUTH REDIRECT FLOW
-router.get('/google', async (req: Request, res: Response) => {
+// LOGIN - SECOND FACTOR
+router.post('/login/2fa', async (req: Request, res: Response) => {
   try {
-    const { callback } = req.query
-    
-    // Store callback URL in session or pass it through state parameter
-    const state = callback ? encodeURIComponent(callback as string) : ''
-    
-    const googleAuthUrl = `https://accounts.google.com/o/oauth2/v2/auth?` +
-      `client_id=${process.env.GOOGLE_CLIENT_ID}&` +
-      `redirect_uri=${encodeURIComponent(process.env.GOOGLE_REDIRECT_URI || 'http://localhost:3000/auth/google/callback')}&` +
-      `response_type=code&` +
-      `scope=openid email profile&` +
-      `access_type=offline&` +
-      `prompt=consent&` +
-      `state=${state}`
-    
-    res.redirect(googleAuthUrl)
+    const { challengeToken, code, recoveryCode } = req.body
+
+    if (!challengeToken || (!code && !recoveryCode)) {
+      return res.status(400).json({ error: 'Challenge token and code or recovery code are required' })
+    }
+
+    // Each challenge is good for one attempt; after a wrong code the user signs in again
+    const userId = await TwoFactorService.consumeChallenge(challengeToken)
+    if (!userId) return res.status(401).json({ error: 'Invalid or expired challenge' })
+
+    const user = await prisma.user.findUnique({ where: { id: userId } })
+    if (!user) return res.status(401).json({ error: 'Invalid or expired challenge' })
+
+    const throttle = await AttemptLimiterService.check('two_factor', { email: user.email, ip: getClientIp(req) })
+    if (!throttle.allowed) {
+      res.set('Retry-After', String(throttle.retryAfterSeconds))
+      return res.status(429).json({
+        error: 'Too many failed attempts. Try again later',
+        retryAfter: throttle.retryAfterSeconds
+      })
+    }
+
+    const valid = await TwoFactorService.verify(user.id, { code, recoveryCode })
+    if (!valid) {
+      await recordLoginFailure(user.email, req, 'two_factor')
+      return res.status(401).json({ error: 'Invalid two-factor code. Sign in again to get a new challenge' })
+    }
+
+    await completeLogin(user, req, res, code ? 'password+totp' : 'password+recovery_code')
   } catch (error) {
-    console.error('Google OAuth redirect error:', error)
-    res.status(500).json({ error: 'OAuth redirect failed' })
+    console.error('Two-factor login error:', error)
+    res.status(500).json({ error: 'Internal server error' })
   }
 })
 
-router.get('/google/callback', async (req: Request, res: Response) => {
-  try {
-    const { code, state } = req.query
-    
-    if (!code) {
-      return res.status(400).json({ error: 'Authorization code missing' })
-    }
+// Helper function to redirect back to the frontend after a browser OAuth flow
+const redirectToFrontend = (res: Response, callback: string, params: Record<string, string>) => {
+  const separator = callback.includes('?') ? '&' : '?'
+  res.redirect(`${callback}${separator}${new URLSearchParams(params).toString()}`)
+}
 
-    // Exchange code for tokens
-    const { tokens } = await googleClient.getToken(code as string)
-    
-    if (!tokens.id_token) {
-      return res.status(400).json({ error: 'No ID token received' })
+// Helper function to start the browser OAuth flow for a provider
+const beginOAuth = async (providerName: string, req: Request, res: Response) => {
+  const provider = getOAuthProvider(providerName)
+  if (!provider) {
+    return res.status(404).json({ error: 'Unknown sign-in provider' })
+  }
+
+  const redirectTo = resolveFrontendCallback(req.query.callback)
+  if (!redirectTo) {
+    return res.status(400).json({ error: 'Callback URL is not allowed' })
+  }
+
+  const authorization = await OAuthStateService.create(provider.name, redirectTo)
+  res.redirect(await provider.getAuthorizationUrl(authorization))
+}
+
+// Helper function to finish the browser OAuth flow and hand tokens to the frontend
+const finishOAuth = async (providerName: string, req: Request, res: Response) => {
+  const params = { ...req.query, ...(req.body || {}) } as Record<string, unknown>
+  const provider = getOAuthProvider(providerName)
+  const stored = provider ? await OAuthStateService.consume(params.state, provider.name) : null
+
+  // Without a valid state we do not know where the request came from, so only the default page is safe
+  if (!provider || !stored) {
+    return redirectToFrontend(res, defaultFrontendCallback(), { error: 'Authentication failed' })
+  }
+
+  try {
+    if (params.error || typeof params.code !== 'string') {
+      return redirectToFrontend(res, stored.redirectTo, { error: 'Authentication cancelled' })
     }
 
-    // Verify the ID token
-    const ticket = await googleClient.verifyIdToken({
-      idToken: tokens.id_token,
-      audience: process.env.GOOGLE_CLIENT_ID,
+    const profile = await provider.exchangeCode({
+      code: params.code,
+      codeVerifier: stored.codeVerifier,
+      nonce: stored.nonce,
+      callbackParams: params,
     })
-    
-    const payload = ticket.getPayload()
-    if (!payload || !payload.email) {
-      return res.status(400).json({ error: 'Invalid token payload' })
-    }
 
-    const { email, name } = payload
+    const resolved = await IdentityService.resolveLogin(profile)
+    if (!resolved.ok) {
+      return redirectToFrontend(res, stored.redirectTo, { error: IDENTITY_ERRORS[resolved.reason] })
+    }
+    const { user, isNewUser } = resolved
 
-    let user = await prisma.user.findUnique({ where: { email } })
-    let isNewUser = false
+    if (user.suspendedAt) {
+      return redirectToFrontend(res, stored.redirectTo, { error: ACCOUNT_SUSPENDED })
+    }
 
-    if (!user) {
-      user = await prisma.user.create({
-        data: {
-          email,
-          name,
-          password: '',
-          role: 'car_owner',
-          isRegistrationComplete: false,
-        },
+    if (await TwoFactorService.isEnabled(user.id)) {
+      return redirectToFrontend(res, stored.redirectTo, {
+        requiresTwoFactor: 'true',
+        challengeToken: await generateTwoFactorChallenge(user)
       })
-      isNewUser = true
     }
 
     // Check setup status
     const setupStatus = await checkSetupStatus(user.id)
-    const token = generateToken(user, setupStatus)
-    
+    const { token, refreshToken, device, deviceToken, isNewDevice } = await startSession(user, setupStatus, req)
+    await AuditLogService.record({
+      actorId: user.id,
+      action: isNewUser ? 'auth.register' : 'auth.login',
+      entityType: 'user',
+      entityId: user.id,
+      metadata: { method: provider.name, deviceId: device.id }
+    }, req)
+    const deletionCancelled = await cancelPendingDeletion(user, req)
+    if (isNewDevice && !isNewUser) {
+      await sendNewDeviceAlert(user, device)
+    }
+
     // Redirect back to frontend with token
-    const frontendCallback = state ? decodeURIComponent(state as string) : (process.env.FRONTEND_URL || 'http://localhost:5173') + '/auth/callback'
-    const redirectUrl = `${frontendCallback}?` +
-      `token=${encodeURIComponent(token)}&` +
-      `user=${encodeURIComponent(JSON.stringify({
+    redirectToFrontend(res, stored.redirectTo, {
+      token,
+      refreshToken,
+      deviceToken,
+      user: JSON.stringify({
         id: user.id,
         email: user.email,
         name: user.name,
         phone: user.phone,
         role: user.role,
         isRegistrationComplete: setupStatus.isRegistrationComplete
-      }))}&` +
-      `setupStatus=${encodeURIComponent(JSON.stringify(setupStatus))}&` +
-      `requiresSetup=${setupStatus.missingSteps.length > 0}`
-    
-    res.redirect(redirectUrl)
+      }),
+      setupStatus: JSON.stringify(setupStatus),
+      requiresSetup: String(setupStatus.missingSteps.length > 0),
+      ...(deletionCancelled && { deletionCancelled: 'true' })
+    })
   } catch (error) {
-    console.error('Google OAuth callback error:', error)
-    console.error('Error details:', {
-      message: error instanceof Error ? error.message : 'Unknown error',
-      stack: error instanceof Error ? error.stack : undefined
+    console.error(`${providerName} OAuth callback error:`, error)
+    redirectToFrontend(res, stored.redirectTo, { error: 'Authentication failed' })
+  }
+}
+
+// Helper function to sign in with a token obtained by a native SDK (mobile apps)
+const tokenLogin = async (providerName: string, req: Request, res: Response) => {
+  const provider = getOAuthProvider(providerName)
+  if (!provider) {
+    return res.status(404).json({ error: 'Unknown sign-in provider' })
+  }
+
+  const providerToken = req.body.idToken || req.body.accessToken || req.body.token
+  if (!providerToken) {
+    return res.status(400).json({ error: 'Missing the idToken' })
+  }
+
+  let profile: ExternalProfile
+  try {
+    profile = await provider.verifyToken(providerToken)
+  } catch (err) {
+    return res.status(401).json({ error: `Invalid ${provider.name} token` })
+  }
+
+  const resolved = await IdentityService.resolveLogin(profile)
+  if (!resolved.ok) {
+    const status = resolved.reason === 'account_exists' ? 409 : 400
+    return res.status(status).json({ error: IDENTITY_ERRORS[resolved.reason], reason: resolved.reason })
+  }
+  const { user, isNewUser } = resolved
+
+  if (user.suspendedAt) {
+    return res.status(403).json({ error: ACCOUNT_SUSPENDED })
+  }
+
+  if (await TwoFactorService.isEnabled(user.id)) {
+    return res.json({
+      message: 'Two-factor authentication required',
+      requiresTwoFactor: true,
+      challengeToken: await generateTwoFactorChallenge(user)
     })
-    const { state } = req.query
-    const frontendCallback = state ? decodeURIComponent(state as string) : (process.env.FRONTEND_URL || 'http://localhost:5173') + '/auth/callback'
-    res.redirect(`${frontendCallback}?error=${encodeURIComponent('Authentication failed')}`)
   }
+
+  // Check setup status
+  const setupStatus = await checkSetupStatus(user.id)
+  const { token, refreshToken, device, deviceToken, isNewDevice } = await startSession(user, setupStatus, req)
+  await AuditLogService.record({
+    actorId: user.id,
+    action: isNewUser ? 'auth.register' : 'auth.login',
+    entityType: 'user',
+    entityId: user.id,
+    metadata: { method: provider.name, deviceId: device.id }
+  }, req)
+  const deletionCancelled = await cancelPendingDeletion(user, req)
+  if (isNewDevice && !isNewUser) {
+    await sendNewDeviceAlert(user, device)
+  }
+
+  res.json({
+    message: isNewUser ? 'Login successful - setup required' : 'Login successful',
+    token,
+    refreshToken,
+    deviceToken,
+    user: {
+      id: user.id,
+      email: user.email,
+      name: user.name,
+      phone: user.phone,
+      role: user.role,
+      isRegistrationComplete: setupStatus.isRegistrationComplete
+    },
+    setupStatus,
+    requiresSetup: setupStatus.missingSteps.length > 0,
+    ...(deletionCancelled && { deletionCancelled: true })
+  })
+}
+
+// OAUTH PROVIDERS
+router.get('/oauth/providers', (req: Request, res: Response) => {
+  res.json({ providers: listOAuthProviders() })
+})
+
+// OAUTH REDIRECT FLOW
+router.get('/oauth/:provider', async (req: Request, res: Response) => {
+  try {
+    await beginOAuth(req.params.provider, req, res)
+  } catch (error) {
+    console.error('OAuth redirect error:', error)
+    res.status(500).json({ error: 'OAuth redirect failed' })
+  }
+})
+
+router.get('/oauth/:provider/callback', async (req: Request, res: Response) => {
+  await finishOAuth(req.params.provider, req, res)
+})
+
+// Apple posts the callback as a form
+router.post('/oauth/:provider/callback', express.urlencoded({ extended: false }), async (req: Request, res: Response) => {
+  await finishOAuth(req.params.provider, req, res)
+})
+
+// NATIVE SDK SIGN-IN
+router.post('/oauth/:provider', async (req: Request, res: Response) => {
+  try {
+    await tokenLogin(req.params.provider, req, res)
+  } catch (error) {
+    console.error('OAuth token login error:', error)
+    res.status(500).json({ error: 'Internal server error' })
+  }
+})
+
+// GOOGLE OAUTH REDIRECT FLOW (kept for existing clients and the registered Google redirect URI)
+router.get('/google', async (req: Request, res: Response) => {
+  try {
+    await beginOAuth('google', req, res)
+  } catch (error) {
+    console.error('Google OAuth redirect error:', error)
+    res.status(500).json({ error: 'OAuth redirect failed' })
+  }
+})
+
+router.get('/google/callback', async (req: Request, res: Response) => {
+  await finishOAuth('google', req, res)
 })
 
 // GOOGLE OAUTH
 router.post('/google', async (req: Request, res: Response) => {
   try {
-    const idToken = req.body.idToken || req.body.token;
+    await tokenLogin('google', req, res)
+  } catch (error) {
+    console.error('Google login error:', error)
+    res.status(500).json({ error: 'Internal server error' })
+  }
+})
 
-    if (!idToken) {
+// LIST SIGN-IN METHODS
+router.get('/identities', authenticateToken, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const userId = req.user?.userId
+    if (!userId) {
+      return res.status(401).json({ error: 'User not authenticated' })
+    }
+
+    const user = await prisma.user.findUnique({ where: { id: userId } })
+    if (!user) {
+      return res.status(404).json({ error: 'User not found' })
+    }
+
+    const identities = await IdentityService.listIdentities(userId)
+    res.json({ hasPassword: !!user.password, identities })
+  } catch (error) {
+    console.error('List identities error:', error)
+    res.status(500).json({ error: 'Internal server error' })
+  }
+})
+
+// LINK A SIGN-IN PROVIDER TO THE SIGNED-IN ACCOUNT
+router.post('/identities/:provider', authenticateToken, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const userId = req.user?.userId
+    const providerToken = req.body.idToken || req.body.accessToken || req.body.token
+    if (!userId) {
+      return res.status(401).json({ error: 'User not authenticated' })
+    }
+
+    const provider = getOAuthProvider(req.params.provider)
+    if (!provider) {
+      return res.status(404).json({ error: 'Unknown sign-in provider' })
+    }
+    if (!providerToken) {
       return res.status(400).json({ error: 'Missing the idToken' })
     }
 
-    let payload
+    let profile: ExternalProfile
     try {
-      const ticket = await googleClient.verifyIdToken({
-        idToken,
-        audience: process.env.GOOGLE_CLIENT_ID,
-      })
-      payload = ticket.getPayload()
+      profile = await provider.verifyToken(providerToken)
     } catch (err) {
-      return res.status(401).json({ error: 'Invalid google token' })
+      return res.status(401).json({ error: `Invalid ${provider.name} token` })
     }
 
-    if (!payload) {
-      return res.status(400).json({ error: 'Invalid token payload' })
+    const result = await IdentityService.link(userId, profile)
+    if (!result.ok) {
+      return res.status(409).json({
+        error: result.reason === 'linked_to_other_user'
+          ? 'This account is already linked to another user'
+          : `A different ${provider.name} account is already linked`
+      })
     }
 
-    const { email, name } = payload
-    if (!email) {
-      return res.status(400).json({ error: 'Email missing in the token!' })
+    res.json({ message: 'Account linked', success: true })
+  } catch (error) {
+    console.error('Link identity error:', error)
+    res.status(500).json({ error: 'Internal server error' })
+  }
+})
+
+// UNLINK A SIGN-IN PROVIDER
+router.delete('/identities/:provider', authenticateToken, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const userId = req.user?.userId
+    if (!userId) {
+      return res.status(401).json({ error: 'User not authenticated' })
     }
 
-    let user = await prisma.user.findUnique({ where: { email } })
-    let isNewUser = false
+    const result = await IdentityService.unlink(userId, req.params.provider)
+    if (!result.ok) {
+      return result.reason === 'not_linked'
+        ? res.status(404).json({ error: 'Provider not linked' })
+        : res.status(400).json({ error: 'Set a password before removing your only sign-in method' })
+    }
+
+    res.json({ message: 'Provider unlinked', success: true })
+  } catch (error) {
+    console.error('Unlink identity error:', error)
+    res.status(500).json({ error: 'Internal server error' })
+  }
+})
+
+// SET A PASSWORD (accounts created through an external sign-in)
+router.post('/set-password', authenticateToken, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const userId = req.user?.userId
+    const { password } = req.body
+    if (!userId) {
+      return res.status(401).json({ error: 'User not authenticated' })
+    }
+    if (!password) {
+      return res.status(400).json({ error: 'Password is required' })
+    }
 
+    const user = await prisma.user.findUnique({ where: { id: userId } })
     if (!user) {
-      user = await prisma.user.create({
-        data: {
-          email,
-          name,
-          password: '',
-          role: 'car_owner',
-          isRegistrationComplete: false,
-        },
+      return res.status(404).json({ error: 'User not found' })
+    }
+    if (user.password) {
+      return res.status(400).json({ error: 'Password already set' })
+    }
+
+    const errors = await PasswordService.validate(password, user)
+    if (errors.length > 0) {
+      return res.status(400).json({ error: errors.join(', '), errors })
+    }
+
+    await PasswordService.setPassword(userId, password)
+    await AuditLogService.record({ actorId: userId, action: 'auth.password_set', entityType: 'user', entityId: userId }, req)
+
+    res.json({ message: 'Password set successfully', success: true })
+  } catch (error) {
+    console.error('Set password error:', error)
+    res.status(500).json({ error: 'Internal server error' })
+  }
+})
+
+// CHANGE PASSWORD
+router.post('/change-password', authenticateToken, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const userId = req.user?.userId
+    const { currentPassword, newPassword } = req.body
+    if (!userId) {
+      return res.status(401).json({ error: 'User not authenticated' })
+    }
+    if (!currentPassword || !newPassword) {
+      return res.status(400).json({ error: 'Current password and new password are required' })
+    }
+
+    const user = await prisma.user.findUnique({ where: { id: userId } })
+    if (!user) {
+      return res.status(404).json({ error: 'User not found' })
+    }
+    if (!user.password) {
+      return res.status(400).json({ error: 'No password is set for this account. Use set-password instead' })
+    }
+
+    // Guessing the current password here counts the same as a failed sign-in
+    const throttle = await AttemptLimiterService.check('login', { email: user.email, ip: getClientIp(req) })
+    if (!throttle.allowed) {
+      res.set('Retry-After', String(throttle.retryAfterSeconds))
+      return res.status(429).json({
+        error: 'Too many failed attempts. Try again later',
+        retryAfter: throttle.retryAfterSeconds
       })
-      isNewUser = true
+    }
+    if (!(await bcrypt.compare(String(currentPassword), user.password))) {
+      await recordLoginFailure(user.email, req)
+      return res.status(401).json({ error: 'Current password is incorrect' })
     }
 
-    // Check setup status
-    const setupStatus = await checkSetupStatus(user.id)
-    const token = generateToken(user, setupStatus)
-    
-    res.json({
-      message: isNewUser ? 'Google login successful - setup required' : 'Google login successful', 
-      token,
-      user: {
-        id: user.id,
-        email: user.email,
-        name: user.name,
-        phone: user.phone,
-        role: user.role,
-        isRegistrationComplete: setupStatus.isRegistrationComplete
-      },
-      setupStatus,
-      requiresSetup: setupStatus.missingSteps.length > 0
-    })
+    const errors = await PasswordService.validate(newPassword, user)
+    if (errors.length > 0) {
+      return res.status(400).json({ error: errors.join(', '), errors })
+    }
+
+    await PasswordService.setPassword(userId, newPassword)
+
+    // Keep this device signed in, sign out everywhere else
+    const revokedSessions = req.user?.sessionId
+      ? await SessionService.revokeOtherSessions(userId, req.user.sessionId, 'password_changed')
+      : await SessionService.revokeAllSessions(userId, 'password_changed')
+    await AuditLogService.record({ actorId: userId, action: 'auth.password_changed', entityType: 'user', entityId: userId }, req)
+
+    res.json({ message: 'Password changed successfully', revokedSessions, success: true })
   } catch (error) {
-    console.error('Google login error:', error)
+    console.error('Change password error:', error)
     res.status(500).json({ error: 'Internal server error' })
   }
 })
 
 // SETUP STATUS CHECK
-router.get('/setup-status', authenticateToken, async (req: AuthenticatedRequest, res: Response) => {
+router.get('/setup-status', authenticateSetupToken, async (req: AuthenticatedRequest, res: Response) => {
   try {
     const userId = req.user?.userId
 
@@ -396,6 +808,11 @@ router.post('/setup/details', authenticateToken, async (req: AuthenticatedReques
       return res.status(404).json({ error: 'User not found' })
     }
 
+    // An admin's role is only changed through the admin API
+    if (currentUser.role === 'admin') {
+      return res.status(403).json({ error: 'Admin accounts cannot change their own role' })
+    }
+
     // Update user and create profile with transaction
     const result = await prisma.$transaction(async (tx) => {
       const updatedUser = await tx.user.update({
@@ -461,7 +878,7 @@ router.post('/setup/details', authenticateToken, async (req: AuthenticatedReques
 
     // Check updated setup status
     const setupStatus = await checkSetupStatus(result.id)
-    const newToken = generateToken(result, setupStatus)
+    const newToken = generateToken(result, setupStatus, req.user!.sessionId!)
 
     res.json({ 
       message: 'Setup details completed successfully', 
@@ -482,7 +899,7 @@ router.post('/setup/details', authenticateToken, async (req: AuthenticatedReques
   }
 })
 
-router.post('/signout', authenticateToken, async (req: AuthenticatedRequest, res: Response) => {
+router.post('/signout', authenticateSetupToken, async (req: AuthenticatedRequest, res: Response) => {
   try {
     const userId = req.user?.userId
 
@@ -490,15 +907,8 @@ router.post('/signout', authenticateToken, async (req: AuthenticatedRequest, res
       return res.status(401).json({ error: 'User not authenticated' })
     }
 
-    // Optional: Update last signout time in database
-    await prisma.user.update({
-      where: { id: userId },
-      data: {
-        updatedAt: new Date()
-      }
-    }).catch(error => {
-      console.warn('Failed to update signout timestamp:', error)
-    })
+    // Revoke the current session so its access and refresh tokens stop working
+    await SessionService.revokeSession(req.user!.sessionId!, 'signout')
 
     res.json({ 
       message: 'Signed out successfully',
@@ -510,6 +920,86 @@ router.post('/signout', authenticateToken, async (req: AuthenticatedRequest, res
   }
 })
 
+// SIGN OUT EVERYWHERE
+router.post('/signout-all', authenticateToken, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const userId = req.user?.userId
+
+    if (!userId) {
+      return res.status(401).json({ error: 'User not authenticated' })
+    }
+
+    const revokedSessions = await SessionService.revokeAllSessions(userId, 'signout_all')
+
+    res.json({
+      message: 'Signed out from all devices',
+      revokedSessions,
+      success: true
+    })
+  } catch (error) {
+    console.error('Signout all error:', error)
+    res.status(500).json({ error: 'Internal server error' })
+  }
+})
+
+// REFRESH ACCESS TOKEN
+router.post('/refresh', async (req: Request, res: Response) => {
+  try {
+    const { refreshToken } = req.body
+
+    if (!refreshToken || typeof refreshToken !== 'string') {
+      return res.status(400).json({ error: 'Refresh token is required' })
+    }
+
+    const result = await SessionService.rotateRefreshToken(refreshToken)
+    if (!result.ok) {
+      return res.status(401).json({ error: 'Invalid or expired refresh token' })
+    }
+
+    const user = await prisma.user.findUnique({ where: { id: result.userId } })
+    if (!user || user.suspendedAt) {
+      return res.status(401).json({ error: 'Invalid or expired refresh token' })
+    }
+
+    const setupStatus = await checkSetupStatus(user.id)
+    const token = generateToken(user, setupStatus, result.sessionId)
+
+    res.json({
+      message: 'Token refreshed',
+      token,
+      refreshToken: result.refreshToken,
+      setupStatus,
+      requiresSetup: setupStatus.missingSteps.length > 0
+    })
+  } catch (error) {
+    console.error('Refresh token error:', error)
+    res.status(500).json({ error: 'Internal server error' })
+  }
+})
+
+// LIST ACTIVE SESSIONS
+router.get('/sessions', authenticateToken, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const userId = req.user?.userId
+
+    if (!userId) {
+      return res.status(401).json({ error: 'User not authenticated' })
+    }
+
+    const sessions = await SessionService.listActiveSessions(userId)
+
+    res.json({
+      sessions: sessions.map(session => ({
+        ...session,
+        isCurrent: session.id === req.user?.sessionId
+      }))
+    })
+  } catch (error) {
+    console.error('List sessions error:', error)
+    res.status(500).json({ error: 'Internal server error' })
+  }
+})
+
 router.post('/welcome-email', async (req: Request, res: Response) => {
   try {
     const { email, username } = req.body;
@@ -593,7 +1083,7 @@ router.post('/notification-email', async (req: Request, res: Response) => {
   }
 });
 
-// Verify email route
+// CONFIRM EMAIL ADDRESS
 router.post('/verify-email', async (req: Request, res: Response) => {
   try {
     const { email, otp } = req.body;
@@ -605,35 +1095,91 @@ router.post('/verify-email', async (req: Request, res: Response) => {
       });
     }
 
-    // Validate email format
-    const correctEmail = validateEmail(email);
-    if (!correctEmail) {
-      return res.status(400).json({ 
-        error: 'Invalid email address' 
-      });
+    const user = await prisma.user.findUnique({ where: { email } });
+    if (!user) {
+      return res.status(400).json({ error: 'Invalid or expired OTP' });
     }
 
-    // Send verification email
-    const result = await EmailService.VerifyEmail(email, otp);
-    
-    if (result) {
-      res.json({
-        message: 'Verification email sent successfully',
-        success: true
-      });
-    } else {
-      return res.status(400).json({ 
-        error: 'Error sending verification email' 
+    if (user.emailVerifiedAt) {
+      return res.json({ message: 'Email already verified', success: true });
+    }
+
+    const result = await VerificationCodeService.verify(email, 'email_verification', otp);
+    if (!result.ok) {
+      if (result.reason === 'locked') {
+        res.set('Retry-After', String(result.retryAfterSeconds));
+        return res.status(429).json({
+          error: 'Too many failed attempts. Try again later',
+          retryAfter: result.retryAfterSeconds
+        });
+      }
+      return res.status(400).json({
+        error: 'Invalid or expired OTP',
+        ...(result.attemptsRemaining !== undefined && { attemptsRemaining: result.attemptsRemaining })
       });
     }
+
+    await prisma.user.update({
+      where: { id: user.id },
+      data: { emailVerifiedAt: new Date() }
+    });
+
+    const setupStatus = await checkSetupStatus(user.id);
+
+    res.json({
+      message: 'Email verified successfully',
+      success: true,
+      setupStatus,
+      requiresSetup: setupStatus.missingSteps.length > 0
+    });
   } catch (error) {
-    console.error('Verification email error:', error);
+    console.error('Verify email error:', error);
     res.status(500).json({ 
       error: 'Internal server error' 
     });
   }
 });
 
+// RESEND EMAIL VERIFICATION CODE
+router.post('/verify-email/resend', authenticateSetupToken, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const userId = req.user?.userId;
+    if (!userId) {
+      return res.status(401).json({ error: 'User not authenticated' });
+    }
+
+    const user = await prisma.user.findUnique({ where: { id: userId } });
+    if (!user) {
+      return res.status(404).json({ error: 'User not found' });
+    }
+
+    if (user.emailVerifiedAt) {
+      return res.status(400).json({ error: 'Email already verified' });
+    }
+
+    const result = await VerificationCodeService.issue(user.email, 'email_verification');
+    if (!result.ok) {
+      res.set('Retry-After', String(result.retryAfterSeconds));
+      return res.status(429).json({
+        error: result.reason === 'locked'
+          ? 'Too many failed attempts. Try again later'
+          : 'Please wait before requesting another code',
+        retryAfter: result.retryAfterSeconds
+      });
+    }
+
+    const sent = await EmailService.sendEmailVerificationEmail(user.email, result.code, result.expiresInMinutes);
+    if (!sent) {
+      return res.status(400).json({ error: 'Error sending verification email' });
+    }
+
+    res.json({ message: 'Verification email sent successfully', success: true });
+  } catch (error) {
+    console.error('Resend verification email error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
 // Test email route (for development)
 router.post('/test-email', async (req: Request, res: Response) => {
   try {
@@ -700,6 +1246,20 @@ router.post('/onboarding', authenticateToken, async (req: AuthenticatedRequest,
       return res.status(403).json({ error: 'Onboarding only allowed for car owners' });
     }
 
+    // The photo arrives as base64 from the app; links to hosted images are kept as they are.
+    // Either form replaces a photo still held in the deprecated imageBase64 column.
+    let avatar: { image: string; imageThumbnail: string | null; imageBase64: null } | undefined;
+    if (profileImage && validateImageUrl(profileImage)) {
+      avatar = { image: profileImage, imageThumbnail: null, imageBase64: null };
+    } else if (profileImage) {
+      const upload = await ImageUploadService.storeBase64('avatar', userId, profileImage);
+      if (!upload.ok) {
+        const { status, error } = IMAGE_ERRORS[upload.reason];
+        return res.status(status).json({ error });
+      }
+      avatar = { image: upload.image.url, imageThumbnail: upload.image.thumbnailUrl, imageBase64: null };
+    }
+
     // Update phone in User
     await prisma.user.update({
       where: { id: userId },
@@ -707,11 +1267,15 @@ router.post('/onboarding', authenticateToken, async (req: AuthenticatedRequest,
     });
 
     // Upsert CarOwnerProfile (update if exists, create if not)
+    const previous = await prisma.carOwnerProfile.findUnique({ where: { userId } });
     await prisma.carOwnerProfile.upsert({
       where: { userId },
-      update: { name: name || '', imageBase64: profileImage || '' },
-      create: { userId, name: name || '', imageBase64: profileImage || '' },
+      update: { name: name || '', ...avatar },
+      create: { userId, name: name || '', ...avatar },
     });
+    if (avatar && previous && previous.image !== avatar.image) {
+      await ImageUploadService.remove('avatar', userId, previous.image, previous.imageThumbnail);
+    }
 
     res.json({ message: 'Onboarding completed successfully' });
   } catch (error) {
@@ -727,69 +1291,187 @@ router.delete('/delete-account', authenticateToken, async (req: AuthenticatedReq
       return res.status(401).json({ error: 'User not authenticated' });
     }
 
-    // Delete the user (this will also delete CarOwnerProfile and Vehicles if cascade is set)
-    await prisma.carOwnerProfile.delete({ where: { userId: userId } });
-    await prisma.user.delete({ where: { id: userId } });
+    const result = await AccountDeletionService.schedule(userId);
+    if (!result.ok) {
+      if (result.reason === 'last_admin') {
+        return res.status(409).json({ error: 'Promote another admin before deleting the last admin account' });
+      }
+      return res.status(404).json({ error: 'User not found' });
+    }
 
-    res.json({ message: 'Account deleted successfully', success: true });
+    const user = await prisma.user.findUnique({ where: { id: userId } });
+    if (user) {
+      await EmailService.sendAccountDeletionScheduledEmail(user.email, result.scheduledFor);
+    }
+    await AuditLogService.record({
+      actorId: userId,
+      action: 'account.deletion_scheduled',
+      entityType: 'user',
+      entityId: userId,
+      metadata: { scheduledFor: result.scheduledFor.toISOString() }
+    }, req);
+
+    res.json({
+      message: `Your account will be deleted on ${result.scheduledFor.toDateString()}. Sign in before then to cancel`,
+      scheduledFor: result.scheduledFor,
+      success: true
+    });
   } catch (error) {
     console.error('Delete account error:', error);
     res.status(500).json({ error: 'Failed to delete account' });
   }
 });
 
-const otpStore = new Map();
+router.post('/forgot-password', limitAttempts('forgot_password'), async (req: Request, res: Response) => {
+  try {
+    const { email } = req.body;
+    if (!email) return res.status(400).json({ error: 'Email required' });
+
+    // Every request counts, whether or not the account exists
+    await AttemptLimiterService.recordFailure('forgot_password', { email, ip: getClientIp(req) });
 
-router.post('/forgot-password', async (req, res) => {
-  const { email } = req.body;
-  if (!email) return res.status(400).json({ error: 'Email required' });
+    const user = await prisma.user.findUnique({ where: { email } });
+    if (user) {
+      const result = await VerificationCodeService.issue(email, 'password_reset');
 
-  const user = await prisma.user.findUnique({ where: { email } });
-  if (!user) return res.status(404).json({ error: 'User not found' });
+      // Send OTP email
+      if (result.ok) {
+        await EmailService.sendCustomEmail(
+          email,
+          'Your OTP Code',
+          `<h1>Your OTP: ${result.code}</h1><p>Valid for ${result.expiresInMinutes} minutes.</p>`,
+          true
+        );
+      }
+    }
+
+    // Same answer either way so the endpoint cannot be used to probe for accounts
+    res.json({ message: 'If an account exists for this email, an OTP has been sent' });
+  } catch (error) {
+    console.error('Forgot password error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+router.post('/verify-otp', limitAttempts('verify_otp'), async (req: Request, res: Response) => {
+  try {
+    const { email, otp } = req.body;
+    if (!email || !otp) return res.status(400).json({ error: 'Email and OTP are required' });
+
+    const result = await VerificationCodeService.verify(email, 'password_reset', otp);
+    if (!result.ok) {
+      await AttemptLimiterService.recordFailure('verify_otp', { email, ip: getClientIp(req) });
+
+      if (result.reason === 'locked') {
+        res.set('Retry-After', String(result.retryAfterSeconds));
+        return res.status(429).json({
+          error: 'Too many failed attempts. Try again later',
+          retryAfter: result.retryAfterSeconds
+        });
+      }
+      return res.status(400).json({
+        error: 'Invalid or expired OTP',
+        ...(result.attemptsRemaining !== undefined && { attemptsRemaining: result.attemptsRemaining })
+      });
+    }
 
-  // Generate 6-digit OTP
-  const otp = Math.floor(100000 + Math.random() * 900000).toString();
-  otpStore.set(email, { otp, expires: Date.now() + 10 * 60 * 1000 }); // 10 min expiry
+    await AttemptLimiterService.reset('verify_otp', email);
 
-  // Send OTP email
-  await EmailService.sendCustomEmail(
-    email,
-    'Your OTP Code',
-    `<h1>Your OTP: ${otp}</h1><p>Valid for 10 minutes.</p>`,
-    true
-  );
+    const user = await prisma.user.findUnique({ where: { email } });
+    if (!user) return res.status(400).json({ error: 'Invalid or expired OTP' });
 
-  res.json({ message: 'OTP sent to email' });
+    // Generate a short-lived reset token (JWT)
+    const resetToken = TokenService.sign('reset', { email, type: 'reset', pwd: passwordStamp(user) }, '15m');
+    res.json({ message: 'OTP verified', resetToken });
+  } catch (error) {
+    console.error('Verify OTP error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
 });
 
-router.post('/verify-otp', async (req, res) => {
-  const { email, otp } = req.body;
-  const record = otpStore.get(email);
-  if (!record || record.otp !== otp || Date.now() > record.expires) {
-    return res.status(400).json({ error: 'Invalid or expired OTP' });
+// "THIS WASN'T ME" (link from the new device alert)
+router.post('/secure-account', async (req: Request, res: Response) => {
+  try {
+    const { token } = req.body;
+    if (!token) return res.status(400).json({ error: 'Token is required' });
+
+    let payload: jwt.JwtPayload;
+    try {
+      payload = TokenService.verify(token, 'device_revoke');
+    } catch (err) {
+      return res.status(400).json({ error: 'Invalid or expired token' });
+    }
+    if (payload.type !== 'device_revoke' || typeof payload.userId !== 'number' || typeof payload.deviceId !== 'number') {
+      return res.status(400).json({ error: 'Invalid or expired token' });
+    }
+
+    await KnownDeviceService.revokeDevice(payload.userId, payload.deviceId);
+
+    res.json({
+      message: 'The device has been signed out. We recommend resetting your password',
+      success: true
+    });
+  } catch (error) {
+    console.error('Secure account error:', error);
+    res.status(500).json({ error: 'Internal server error' });
   }
-  otpStore.delete(email);
+});
 
-  // Generate a short-lived reset token (JWT)
-  const resetToken = jwt.sign({ email, type: 'reset' }, JWT_SECRET, { expiresIn: '15m' });
-  res.json({ message: 'OTP verified', resetToken });
+// UNLOCK ACCOUNT (link from the lockout email)
+router.post('/unlock', async (req: Request, res: Response) => {
+  try {
+    const { token } = req.body;
+    if (!token) return res.status(400).json({ error: 'Token is required' });
+
+    let payload: jwt.JwtPayload;
+    try {
+      payload = TokenService.verify(token, 'unlock');
+    } catch (err) {
+      return res.status(400).json({ error: 'Invalid or expired token' });
+    }
+    if (payload.type !== 'unlock' || typeof payload.email !== 'string') {
+      return res.status(400).json({ error: 'Invalid or expired token' });
+    }
+
+    await AttemptLimiterService.unlock(payload.email);
+    res.json({ message: 'Account unlocked. You can sign in again', success: true });
+  } catch (error) {
+    console.error('Unlock account error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
 });
 
 router.post('/reset-password', async (req, res) => {
   const { email, password, token } = req.body;
   try {
-    const payload = jwt.verify(token, JWT_SECRET) as jwt.JwtPayload;
+    let payload: jwt.JwtPayload;
+    try {
+      payload = TokenService.verify(token, 'reset');
+    } catch (err) {
+      return res.status(400).json({ error: 'Invalid or expired token' });
+    }
     if (!payload || typeof payload !== 'object' || Array.isArray(payload)) {
       return res.status(400).json({ error: 'Invalid token' });
     }
     if (payload.email !== email || payload.type !== 'reset') {
       return res.status(400).json({ error: 'Invalid token' });
     }
-    const hashed = await bcrypt.hash(password, 10);
-    await prisma.user.update({ where: { email }, data: { password: hashed } });
+
+    const user = await prisma.user.findUnique({ where: { email } });
+    if (!user || payload.pwd !== passwordStamp(user)) return res.status(400).json({ error: 'Invalid or expired token' });
+
+    const errors = await PasswordService.validate(password, user);
+    if (errors.length > 0) {
+      return res.status(400).json({ error: errors.join(', '), errors });
+    }
+
+    await PasswordService.setPassword(user.id, password);
+    await SessionService.revokeAllSessions(user.id, 'password_reset');
+    await AuditLogService.record({ actorId: user.id, action: 'auth.password_reset', entityType: 'user', entityId: user.id }, req);
     res.json({ message: 'Password reset successful' });
   } catch (err) {
-    res.status(400).json({ error: 'Invalid or expired token' });
+    console.error('Reset password error:', err);
+    res.status(500).json({ error: 'Internal server error' });
   }
 });
 
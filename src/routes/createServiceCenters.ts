@@ -1,7 +1,8 @@
 import { Router, Request, Response } from 'express';
-import bcrypt from 'bcrypt';
 import prisma from '../prisma';
 import { EmailService } from '../Services/Email';
+import { PasswordService } from '../Services/Password';
+import { checkPasswordPolicy } from '../utils/passwordPolicy';
 
 const router = Router();
 
@@ -33,7 +34,11 @@ router.post('/', async (req: Request, res: Response) => {
       if (!password || !businessName || !address || !businessRegistrationNumber) {
         return res.status(400).json({ error: 'Missing required service center fields' });
       }
-      const hashed = await bcrypt.hash(password, 10);
+      const passwordErrors = checkPasswordPolicy(password, { email, name });
+      if (passwordErrors.length > 0) {
+        return res.status(400).json({ error: passwordErrors.join(', '), errors: passwordErrors });
+      }
+      const hashed = await PasswordService.hash(password);
       user = await prisma.user.create({
         data: {
           name,
@@ -44,6 +49,7 @@ router.post('/', async (req: Request, res: Response) => {
           isRegistrationComplete: true,
         },
       });
+      await PasswordService.recordHistory(user.id, hashed);
       await prisma.serviceCenterProfile.create({
         data: {
           userId: user.id,
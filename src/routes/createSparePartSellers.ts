@@ -1,7 +1,8 @@
 import { Router, Request, Response } from 'express';
-import bcrypt from 'bcrypt';
 import prisma from '../prisma';
 import { EmailService } from '../Services/Email';
+import { PasswordService } from '../Services/Password';
+import { checkPasswordPolicy } from '../utils/passwordPolicy';
 
 const router = Router();
 
@@ -30,8 +31,13 @@ router.post('/', async (req: Request, res: Response) => {
       return res.status(400).json({ error: 'User already exists' });
     }
 
+    const passwordErrors = checkPasswordPolicy(password, { email, name });
+    if (passwordErrors.length > 0) {
+      return res.status(400).json({ error: passwordErrors.join(', '), errors: passwordErrors });
+    }
+
     // Hash password
-    const hashed = await bcrypt.hash(password, 10);
+    const hashed = await PasswordService.hash(password);
 
     // Create user
     const user = await prisma.user.create({
@@ -45,6 +51,8 @@ router.post('/', async (req: Request, res: Response) => {
       },
     });
 
+    await PasswordService.recordHistory(user.id, hashed);
+
     // Create part seller profile
     await prisma.partSellerProfile.create({
       data: {
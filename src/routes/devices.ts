@@ -0,0 +1,57 @@
+import { Router, Request, Response, NextFunction } from 'express';
+import { param, validationResult } from 'express-validator';
+import { authenticateToken, AuthenticatedRequest } from '../middleware/auth';
+import { KnownDeviceService } from '../Services/KnownDevice';
+import prisma from '../prisma';
+
+const router = Router();
+
+function handleValidationErrors(req: Request, res: Response, next: NextFunction) {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    return res.status(400).json({ errors: errors.array() });
+  }
+  next();
+}
+
+// GET /auth/devices
+router.get('/', authenticateToken, async (req: AuthenticatedRequest, res: Response) => {
+  const userId = req.user?.userId;
+  if (!userId) return res.status(401).json({ error: 'Unauthorized' });
+  try {
+    const devices = await KnownDeviceService.listDevices(userId);
+
+    // Flag the device behind the current session
+    const session = req.user?.sessionId
+      ? await prisma.session.findUnique({ where: { id: req.user.sessionId } })
+      : null;
+
+    res.json({
+      devices: devices.map(device => ({ ...device, isCurrent: device.id === session?.deviceId })),
+    });
+  } catch (error) {
+    console.error('List devices error:', error);
+    res.status(500).json({ error: 'Failed to fetch devices' });
+  }
+});
+
+// DELETE /auth/devices/:deviceId
+router.delete('/:deviceId', [
+  param('deviceId').isInt(),
+  handleValidationErrors,
+  authenticateToken
+], async (req: AuthenticatedRequest, res: Response) => {
+  const userId = req.user?.userId;
+  const { deviceId } = req.params;
+  if (!userId) return res.status(401).json({ error: 'Unauthorized' });
+  try {
+    const revoked = await KnownDeviceService.revokeDevice(userId, Number(deviceId));
+    if (!revoked) return res.status(404).json({ error: 'Device not found' });
+    res.json({ message: 'Device signed out and removed' });
+  } catch (error) {
+    console.error('Revoke device error:', error);
+    res.status(500).json({ error: 'Failed to remove device' });
+  }
+});
+
+export default router;
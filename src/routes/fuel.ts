@@ -0,0 +1,195 @@
+import express from 'express';
+import { body, param, query, validationResult } from 'express-validator';
+import { Request, Response, NextFunction } from 'express';
+import { authenticateToken } from '../middleware/auth';
+import { requireVehiclePermission, VehicleRequest } from '../middleware/vehicleAccess';
+import { FuelService, FuelEntryResult, FuelRange } from '../Services/Fuel';
+import { MaintenanceService } from '../Services/Maintenance';
+
+const router = express.Router();
+
+function handleValidationErrors(req: Request, res: Response, next: NextFunction) {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    return res.status(400).json({ errors: errors.array() });
+  }
+  next();
+}
+
+const FUEL_ERRORS: Record<Exclude<FuelEntryResult, { ok: true }>['reason'], { status: number; error: string }> = {
+  not_found: { status: 404, error: 'Fuel entry not found' },
+  cost_required: { status: 400, error: 'Enter the total cost or the price per litre' },
+  odometer_out_of_order: { status: 400, error: 'Odometer value is lower than an earlier reading or higher than a later one' },
+};
+
+const sendFuelError = (res: Response, result: Exclude<FuelEntryResult, { ok: true }>) => {
+  const { status, error } = FUEL_ERRORS[result.reason];
+  res.status(status).json({ error });
+};
+
+const entryValidators = [
+  body('filledAt').isISO8601().toDate(),
+  body('odometer').isInt({ min: 0, max: 2000000 }).toInt(),
+  body('litres').isFloat({ gt: 0, max: 1000 }).toFloat(),
+  body('pricePerLitre').optional({ values: 'null' }).isFloat({ gt: 0 }).toFloat(),
+  body('totalCost').optional({ values: 'null' }).isFloat({ min: 0 }).toFloat(),
+  body('isFullTank').optional().isBoolean().toBoolean(),
+  body('missedPrevious').optional().isBoolean().toBoolean(),
+  body('fuelType').optional({ values: 'null' }).isString().trim().isLength({ max: 50 }),
+  body('station').optional({ values: 'null' }).isString().trim().isLength({ max: 200 }),
+  body('notes').optional({ values: 'null' }).isString().trim().isLength({ max: 2000 }),
+];
+
+const rangeValidators = [
+  query('from').optional().isISO8601(),
+  query('to').optional().isISO8601(),
+];
+
+const entryInput = (source: Record<string, any>) => ({
+  filledAt: source.filledAt,
+  odometer: source.odometer,
+  litres: source.litres,
+  pricePerLitre: source.pricePerLitre,
+  totalCost: source.totalCost,
+  isFullTank: source.isFullTank,
+  missedPrevious: source.missedPrevious,
+  fuelType: source.fuelType,
+  station: source.station,
+  notes: source.notes,
+});
+
+const rangeOf = (req: Request): FuelRange => ({
+  ...(req.query.from && { from: new Date(String(req.query.from)) }),
+  ...(req.query.to && { to: new Date(String(req.query.to)) }),
+});
+
+// GET /vehicles/:userId/vehicles/:vehicleId/fuel
+router.get('/vehicles/:userId/vehicles/:vehicleId/fuel', [
+  param('userId').isInt(),
+  param('vehicleId').isInt(),
+  ...rangeValidators,
+  handleValidationErrors,
+  authenticateToken,
+  requireVehiclePermission('vehicle:read')
+], async (req: VehicleRequest, res: Response) => {
+  try {
+    const vehicle = req.vehicle!;
+
+    const entries = await FuelService.list(vehicle.id, rangeOf(req));
+    res.json({ entries });
+  } catch (err) {
+    console.error('List fuel entries error:', err);
+    res.status(500).json({ error: 'Failed to fetch fuel log' });
+  }
+});
+
+// GET /vehicles/:userId/vehicles/:vehicleId/fuel/stats
+// Economy per tank, totals and monthly figures for charts
+router.get('/vehicles/:userId/vehicles/:vehicleId/fuel/stats', [
+  param('userId').isInt(),
+  param('vehicleId').isInt(),
+  ...rangeValidators,
+  handleValidationErrors,
+  authenticateToken,
+  requireVehiclePermission('vehicle:read')
+], async (req: VehicleRequest, res: Response) => {
+  try {
+    const vehicle = req.vehicle!;
+
+    const stats = await FuelService.statistics(vehicle.id, rangeOf(req));
+    res.json(stats);
+  } catch (err) {
+    console.error('Fuel statistics error:', err);
+    res.status(500).json({ error: 'Failed to compute fuel statistics' });
+  }
+});
+
+// GET /vehicles/:userId/vehicles/:vehicleId/fuel/export
+router.get('/vehicles/:userId/vehicles/:vehicleId/fuel/export', [
+  param('userId').isInt(),
+  param('vehicleId').isInt(),
+  ...rangeValidators,
+  handleValidationErrors,
+  authenticateToken,
+  requireVehiclePermission('vehicle:read')
+], async (req: VehicleRequest, res: Response) => {
+  try {
+    const vehicle = req.vehicle!;
+
+    const csv = await FuelService.exportCsv(vehicle.id, rangeOf(req));
+    const fileName = `fuel-log-${vehicle.licensePlate.replace(/[^A-Za-z0-9-]/g, '')}.csv`;
+    res.attachment(fileName).type('text/csv').send(csv);
+  } catch (err) {
+    console.error('Export fuel log error:', err);
+    res.status(500).json({ error: 'Failed to export fuel log' });
+  }
+});
+
+// POST /vehicles/:userId/vehicles/:vehicleId/fuel
+router.post('/vehicles/:userId/vehicles/:vehicleId/fuel', [
+  param('userId').isInt(),
+  param('vehicleId').isInt(),
+  ...entryValidators,
+  handleValidationErrors,
+  authenticateToken,
+  requireVehiclePermission('fuel:write')
+], async (req: VehicleRequest, res: Response) => {
+  try {
+    const vehicle = req.vehicle!;
+
+    const result = await FuelService.create(vehicle.id, entryInput(req.body), req.user!.userId);
+    if (!result.ok) return sendFuelError(res, result);
+    await MaintenanceService.refreshStatus(vehicle.id);
+    res.status(201).json(result.entry);
+  } catch (err) {
+    console.error('Create fuel entry error:', err);
+    res.status(500).json({ error: 'Failed to add fuel entry' });
+  }
+});
+
+// PUT /vehicles/:userId/vehicles/:vehicleId/fuel/:entryId
+router.put('/vehicles/:userId/vehicles/:vehicleId/fuel/:entryId', [
+  param('userId').isInt(),
+  param('vehicleId').isInt(),
+  param('entryId').isInt(),
+  ...entryValidators,
+  handleValidationErrors,
+  authenticateToken,
+  requireVehiclePermission('fuel:update')
+], async (req: VehicleRequest, res: Response) => {
+  try {
+    const vehicle = req.vehicle!;
+
+    const result = await FuelService.update(vehicle.id, Number(req.params.entryId), entryInput(req.body));
+    if (!result.ok) return sendFuelError(res, result);
+    await MaintenanceService.refreshStatus(vehicle.id);
+    res.json(result.entry);
+  } catch (err) {
+    console.error('Update fuel entry error:', err);
+    res.status(500).json({ error: 'Failed to update fuel entry' });
+  }
+});
+
+// DELETE /vehicles/:userId/vehicles/:vehicleId/fuel/:entryId
+router.delete('/vehicles/:userId/vehicles/:vehicleId/fuel/:entryId', [
+  param('userId').isInt(),
+  param('vehicleId').isInt(),
+  param('entryId').isInt(),
+  handleValidationErrors,
+  authenticateToken,
+  requireVehiclePermission('fuel:delete')
+], async (req: VehicleRequest, res: Response) => {
+  try {
+    const vehicle = req.vehicle!;
+
+    const removed = await FuelService.remove(vehicle.id, Number(req.params.entryId));
+    if (!removed) return res.status(404).json({ error: 'Fuel entry not found' });
+    await MaintenanceService.refreshStatus(vehicle.id);
+    res.status(204).end();
+  } catch (err) {
+    console.error('Delete fuel entry error:', err);
+    res.status(500).json({ error: 'Failed to delete fuel entry' });
+  }
+});
+
+export default router;
@@ -0,0 +1,112 @@
+import express from 'express';
+import { body, param, query, validationResult } from 'express-validator';
+import { Request, Response, NextFunction } from 'express';
+import { authenticateToken } from '../middleware/auth';
+import { requireVehiclePermission, VehicleRequest } from '../middleware/vehicleAccess';
+import { MaintenanceService } from '../Services/Maintenance';
+import { MAINTENANCE_TEMPLATES, VEHICLE_TYPES, VehicleType } from '../utils/maintenanceTemplates';
+
+const router = express.Router();
+
+function handleValidationErrors(req: Request, res: Response, next: NextFunction) {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    return res.status(400).json({ errors: errors.array() });
+  }
+  next();
+}
+
+// GET /maintenance/templates
+router.get('/maintenance/templates', [
+  query('vehicleType').optional().isIn(VEHICLE_TYPES),
+  handleValidationErrors,
+  authenticateToken
+], (req: Request, res: Response) => {
+  const vehicleType = req.query.vehicleType as VehicleType | undefined;
+  res.json(vehicleType ? { [vehicleType]: MAINTENANCE_TEMPLATES[vehicleType] } : MAINTENANCE_TEMPLATES);
+});
+
+// GET /vehicles/:userId/vehicles/:vehicleId/maintenance
+router.get('/vehicles/:userId/vehicles/:vehicleId/maintenance', [
+  param('userId').isInt(),
+  param('vehicleId').isInt(),
+  handleValidationErrors,
+  authenticateToken,
+  requireVehiclePermission('vehicle:read')
+], async (req: VehicleRequest, res: Response) => {
+  try {
+    const vehicle = req.vehicle!;
+
+    const schedule = await MaintenanceService.refreshStatus(vehicle.id);
+    res.json(schedule);
+  } catch (err) {
+    console.error('Get maintenance schedule error:', err);
+    res.status(500).json({ error: 'Failed to fetch maintenance schedule' });
+  }
+});
+
+// PUT /vehicles/:userId/vehicles/:vehicleId/maintenance/:task
+// Change a default task for this vehicle, or add a custom one
+router.put('/vehicles/:userId/vehicles/:vehicleId/maintenance/:task', [
+  param('userId').isInt(),
+  param('vehicleId').isInt(),
+  param('task').matches(/^[a-z0-9_]{1,50}$/),
+  body('name').optional({ values: 'null' }).isString().trim().isLength({ min: 1, max: 100 }),
+  body('intervalKm').optional({ values: 'null' }).isInt({ min: 100, max: 500000 }).toInt(),
+  body('intervalMonths').optional({ values: 'null' }).isInt({ min: 1, max: 240 }).toInt(),
+  body('enabled').optional().isBoolean().toBoolean(),
+  body('lastDoneAt').optional({ values: 'null' }).isISO8601().toDate(),
+  body('lastDoneOdometer').optional({ values: 'null' }).isInt({ min: 0 }).toInt(),
+  handleValidationErrors,
+  authenticateToken,
+  requireVehiclePermission('maintenance:write')
+], async (req: VehicleRequest, res: Response) => {
+  try {
+    const vehicle = req.vehicle!;
+
+    const { name, intervalKm, intervalMonths, enabled, lastDoneAt, lastDoneOdometer } = req.body;
+    const result = await MaintenanceService.upsertRule(vehicle.id, req.params.task, {
+      ...(name !== undefined && { name }),
+      ...(intervalKm !== undefined && { intervalKm }),
+      ...(intervalMonths !== undefined && { intervalMonths }),
+      ...(enabled !== undefined && { enabled }),
+      ...(lastDoneAt !== undefined && { lastDoneAt }),
+      ...(lastDoneOdometer !== undefined && { lastDoneOdometer })
+    });
+    if (!result.ok) {
+      return res.status(400).json({ error: 'A custom task needs a name and an interval in km or months' });
+    }
+
+    const schedule = await MaintenanceService.refreshStatus(vehicle.id);
+    res.json({ rule: result.rule, schedule });
+  } catch (err) {
+    console.error('Update maintenance rule error:', err);
+    res.status(500).json({ error: 'Failed to update maintenance schedule' });
+  }
+});
+
+// DELETE /vehicles/:userId/vehicles/:vehicleId/maintenance/:task
+// Return a task to its default, or remove a custom task
+router.delete('/vehicles/:userId/vehicles/:vehicleId/maintenance/:task', [
+  param('userId').isInt(),
+  param('vehicleId').isInt(),
+  param('task').matches(/^[a-z0-9_]{1,50}$/),
+  handleValidationErrors,
+  authenticateToken,
+  requireVehiclePermission('maintenance:write')
+], async (req: VehicleRequest, res: Response) => {
+  try {
+    const vehicle = req.vehicle!;
+
+    const removed = await MaintenanceService.removeRule(vehicle.id, req.params.task);
+    if (!removed) return res.status(404).json({ error: 'This task has no changes to remove' });
+
+    const schedule = await MaintenanceService.refreshStatus(vehicle.id);
+    res.json({ message: 'Maintenance task reset', schedule });
+  } catch (err) {
+    console.error('Reset maintenance rule error:', err);
+    res.status(500).json({ error: 'Failed to update maintenance schedule' });
+  }
+});
+
+export default router;
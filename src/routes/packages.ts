@@ -2,6 +2,8 @@ import express from 'express';
 import prisma from '../prisma';
 import { body, param, validationResult } from 'express-validator';
 import { Request, Response, NextFunction } from 'express';
+import { authenticateToken } from '../middleware/auth';
+import { requireCenterPermission } from '../middleware/serviceCenter';
 
 const router = express.Router();
 
@@ -13,6 +15,22 @@ function handleValidationErrors(req: Request, res: Response, next: NextFunction)
   next();
 }
 
+// Look a package up within its center so ids from another center are treated as missing
+const findCenterPackage = (centerId: string, packageId: string) => {
+  return prisma.servicePackage.findFirst({
+    where: { id: Number(packageId), serviceCenterId: Number(centerId) }
+  });
+};
+
+// A package may only bundle services offered by the same center
+const servicesBelongToCenter = async (centerId: string, serviceIds: number[]): Promise<boolean> => {
+  const uniqueIds = [...new Set(serviceIds.map(Number))];
+  const count = await prisma.shopService.count({
+    where: { id: { in: uniqueIds }, serviceCenterId: Number(centerId) }
+  });
+  return count === uniqueIds.length;
+};
+
 // List all packages for a service center
 router.get('/service-centers/:centerId/packages', [
   param('centerId').isInt(),
@@ -40,10 +58,10 @@ router.get('/service-centers/:centerId/packages/:packageId', [
   param('packageId').isInt(),
   handleValidationErrors
 ], async (req: Request, res: Response) => {
-  const { packageId } = req.params;
+  const { centerId, packageId } = req.params;
   try {
-    const pkg = await prisma.servicePackage.findUnique({
-      where: { id: Number(packageId) },
+    const pkg = await prisma.servicePackage.findFirst({
+      where: { id: Number(packageId), serviceCenterId: Number(centerId) },
       include: {
         services: {
           include: { service: true }
@@ -69,7 +87,10 @@ router.post('/service-centers/:centerId/packages', [
   body('discountValue').optional().isNumeric(),
   body('customTotal').optional().isNumeric(),
   body('serviceIds').isArray(),
-  handleValidationErrors
+  body('serviceIds.*').isInt(),
+  handleValidationErrors,
+  authenticateToken,
+  requireCenterPermission('packages:write')
 ], async (req: Request, res: Response) => {
   const { centerId } = req.params;
   const {
@@ -77,6 +98,9 @@ router.post('/service-centers/:centerId/packages', [
     discountType, discountValue, customTotal, serviceIds
   } = req.body;
   try {
+    if (!(await servicesBelongToCenter(centerId, serviceIds))) {
+      return res.status(400).json({ error: 'All services must belong to this service center' });
+    }
     const pkg = await prisma.servicePackage.create({
       data: {
         name,
@@ -89,7 +113,7 @@ router.post('/service-centers/:centerId/packages', [
         customTotal,
         serviceCenterId: Number(centerId),
         services: {
-          create: serviceIds.map((serviceId: number) => ({ serviceId }))
+          create: serviceIds.map((serviceId: number) => ({ serviceId: Number(serviceId) }))
         }
       },
       include: {
@@ -115,17 +139,25 @@ router.put('/service-centers/:centerId/packages/:packageId', [
   body('discountValue').optional().isNumeric(),
   body('customTotal').optional().isNumeric(),
   body('serviceIds').optional().isArray(),
-  handleValidationErrors
+  body('serviceIds.*').isInt(),
+  handleValidationErrors,
+  authenticateToken,
+  requireCenterPermission('packages:write')
 ], async (req: Request, res: Response) => {
-  const { packageId } = req.params;
+  const { centerId, packageId } = req.params;
   const {
     name, description, category, isActive, createdBy,
     discountType, discountValue, customTotal, serviceIds
   } = req.body;
   try {
+    const existing = await findCenterPackage(centerId, packageId);
+    if (!existing) return res.status(404).json({ error: 'Package not found' });
+    if (serviceIds && !(await servicesBelongToCenter(centerId, serviceIds))) {
+      return res.status(400).json({ error: 'All services must belong to this service center' });
+    }
     // Update package details
-    const pkg = await prisma.servicePackage.update({
-      where: { id: Number(packageId) },
+    await prisma.servicePackage.update({
+      where: { id: existing.id },
       data: {
         ...(name !== undefined && { name }),
         ...(description !== undefined && { description }),
@@ -140,15 +172,15 @@ router.put('/service-centers/:centerId/packages/:packageId', [
     // Update services if provided
     if (serviceIds) {
       // Remove all existing
-      await prisma.serviceInPackage.deleteMany({ where: { packageId: Number(packageId) } });
+      await prisma.serviceInPackage.deleteMany({ where: { packageId: existing.id } });
       // Add new
       await prisma.serviceInPackage.createMany({
-        data: serviceIds.map((serviceId: number) => ({ packageId: Number(packageId), serviceId }))
+        data: serviceIds.map((serviceId: number) => ({ packageId: existing.id, serviceId: Number(serviceId) }))
       });
     }
     // Return updated package
     const updated = await prisma.servicePackage.findUnique({
-      where: { id: Number(packageId) },
+      where: { id: existing.id },
       include: { services: { include: { service: true } } }
     });
     res.json(updated);
@@ -161,13 +193,17 @@ router.put('/service-centers/:centerId/packages/:packageId', [
 router.delete('/service-centers/:centerId/packages/:packageId', [
   param('centerId').isInt(),
   param('packageId').isInt(),
-  handleValidationErrors
+  handleValidationErrors,
+  authenticateToken,
+  requireCenterPermission('packages:delete')
 ], async (req: Request, res: Response) => {
-  const { packageId } = req.params;
+  const { centerId, packageId } = req.params;
   try {
+    const pkg = await findCenterPackage(centerId, packageId);
+    if (!pkg) return res.status(404).json({ error: 'Package not found' });
     // Delete all ServiceInPackage entries first (to avoid FK constraint errors)
-    await prisma.serviceInPackage.deleteMany({ where: { packageId: Number(packageId) } });
-    await prisma.servicePackage.delete({ where: { id: Number(packageId) } });
+    await prisma.serviceInPackage.deleteMany({ where: { packageId: pkg.id } });
+    await prisma.servicePackage.delete({ where: { id: pkg.id } });
     res.status(204).end();
   } catch (err) {
     res.status(500).json({ error: 'Failed to delete package' });
@@ -2,6 +2,9 @@ import { Router, Response, Request, NextFunction } from 'express';
 import prisma from '../prisma';
 import { authenticateToken, AuthenticatedRequest } from '../middleware/auth';
 import { body, param, validationResult } from 'express-validator';
+import { validateImageUrl } from '../utils/validation';
+import { ImageUploadService, IMAGE_ERRORS } from '../Services/ImageUpload';
+import { singleImage } from '../middleware/upload';
 
 const router = Router();
 
@@ -69,7 +72,8 @@ router.put('/:userId', [
   param('userId').isInt(),
   body('name').isString().notEmpty(),
   body('phone').isString().notEmpty(),
-  body('image').isString().notEmpty(),
+  // base64 or an http(s) link; leave it out to keep the current photo
+  body('image').optional().isString().notEmpty(),
   handleValidationErrors
 ], authenticateToken, async (req: AuthenticatedRequest, res: Response) => {
   const { userId } = req.params;
@@ -94,14 +98,29 @@ router.put('/:userId', [
         },
       });
 
-      // Remove all vehicles and re-add (simple approach)
+      let avatar: { image: string; imageThumbnail: string | null; imageBase64: null } | undefined;
+      if (image && validateImageUrl(image)) {
+        avatar = { image, imageThumbnail: null, imageBase64: null };
+      } else if (image) {
+        const upload = await ImageUploadService.storeBase64('avatar', user.id, image);
+        if (!upload.ok) {
+          const { status, error } = IMAGE_ERRORS[upload.reason];
+          return res.status(status).json({ error });
+        }
+        avatar = { image: upload.image.url, imageThumbnail: upload.image.thumbnailUrl, imageBase64: null };
+      }
+
+      const previous = await prisma.carOwnerProfile.findUnique({ where: { userId: user.id } });
       await prisma.carOwnerProfile.update({
         where: { userId: user.id },
         data: {
           name,
-          imageBase64: image,
+          ...avatar,
         },
       });
+      if (avatar && previous && previous.image !== avatar.image) {
+        await ImageUploadService.remove('avatar', user.id, previous.image, previous.imageThumbnail);
+      }
     } 
     // else if (user.role === 'service_center') {
     //   await prisma.serviceCenterProfile.update({
@@ -134,4 +153,68 @@ router.put('/:userId', [
   }
 });
 
+// POST /profiles/:userId/avatar
+// Upload or replace the car owner's profile photo (multipart, field "image")
+router.post('/:userId/avatar', [
+  param('userId').isInt(),
+  handleValidationErrors
+], authenticateToken, singleImage('image'), async (req: AuthenticatedRequest, res: Response) => {
+  const userId = parseInt(req.params.userId);
+  if (userId !== req.user?.userId) {
+    return res.status(403).json({ error: 'Unauthorized' });
+  }
+  try {
+    const user = await prisma.user.findUnique({ where: { id: userId }, include: { carOwnerProfile: true } });
+    if (!user) return res.status(404).json({ error: 'User not found' });
+    if (user.role !== 'car_owner') {
+      return res.status(400).json({ error: 'Only car owners have a profile photo' });
+    }
+
+    const upload = await ImageUploadService.store('avatar', userId, req.file!.buffer);
+    if (!upload.ok) {
+      const { status, error } = IMAGE_ERRORS[upload.reason];
+      return res.status(status).json({ error });
+    }
+
+    const avatar = { image: upload.image.url, imageThumbnail: upload.image.thumbnailUrl, imageBase64: null };
+    await prisma.carOwnerProfile.upsert({
+      where: { userId },
+      update: avatar,
+      create: { userId, name: user.name, ...avatar },
+    });
+    await ImageUploadService.remove('avatar', userId, user.carOwnerProfile?.image, user.carOwnerProfile?.imageThumbnail);
+
+    res.json({ message: 'Profile photo updated successfully', image: upload.image.url, imageThumbnail: upload.image.thumbnailUrl });
+  } catch (error) {
+    console.error('Upload avatar error:', error);
+    res.status(500).json({ error: 'Failed to upload profile photo' });
+  }
+});
+
+// DELETE /profiles/:userId/avatar
+router.delete('/:userId/avatar', [
+  param('userId').isInt(),
+  handleValidationErrors
+], authenticateToken, async (req: AuthenticatedRequest, res: Response) => {
+  const userId = parseInt(req.params.userId);
+  if (userId !== req.user?.userId) {
+    return res.status(403).json({ error: 'Unauthorized' });
+  }
+  try {
+    const profile = await prisma.carOwnerProfile.findUnique({ where: { userId } });
+    if (!profile) return res.status(404).json({ error: 'Profile not found' });
+
+    await prisma.carOwnerProfile.update({
+      where: { userId },
+      data: { image: null, imageThumbnail: null, imageBase64: null },
+    });
+    await ImageUploadService.remove('avatar', userId, profile.image, profile.imageThumbnail);
+
+    res.json({ message: 'Profile photo removed successfully' });
+  } catch (error) {
+    console.error('Remove avatar error:', error);
+    res.status(500).json({ error: 'Failed to remove profile photo' });
+  }
+});
+
 export default router;
\ No newline at end of file
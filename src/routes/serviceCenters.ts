@@ -0,0 +1,75 @@
+import express from 'express';
+import prisma from '../prisma';
+import { param, validationResult } from 'express-validator';
+import { Request, Response, NextFunction } from 'express';
+import { authenticateToken } from '../middleware/auth';
+import { requireCenterPermission, ServiceCenterRequest } from '../middleware/serviceCenter';
+import { singleImage } from '../middleware/upload';
+import { ImageUploadService, IMAGE_ERRORS } from '../Services/ImageUpload';
+
+const router = express.Router();
+
+function handleValidationErrors(req: Request, res: Response, next: NextFunction) {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    return res.status(400).json({ errors: errors.array() });
+  }
+  next();
+}
+
+// Upload or replace the service center logo (multipart, field "logo")
+router.post('/service-centers/:centerId/logo', [
+  param('centerId').isInt(),
+  handleValidationErrors,
+  authenticateToken,
+  requireCenterPermission('profile:write'),
+  singleImage('logo')
+], async (req: ServiceCenterRequest, res: Response) => {
+  try {
+    const center = await prisma.serviceCenterProfile.findUnique({ where: { id: Number(req.params.centerId) } });
+    if (!center) return res.status(404).json({ error: 'Service center not found' });
+
+    const upload = await ImageUploadService.store('logo', center.id, req.file!.buffer);
+    if (!upload.ok) {
+      const { status, error } = IMAGE_ERRORS[upload.reason];
+      return res.status(status).json({ error });
+    }
+
+    await prisma.serviceCenterProfile.update({
+      where: { id: center.id },
+      data: { logo: upload.image.url, logoThumbnail: upload.image.thumbnailUrl },
+    });
+    await ImageUploadService.remove('logo', center.id, center.logo, center.logoThumbnail);
+
+    res.json({ message: 'Logo updated', logo: upload.image.url, logoThumbnail: upload.image.thumbnailUrl });
+  } catch (err) {
+    console.error('Upload service center logo error:', err);
+    res.status(500).json({ error: 'Failed to upload logo' });
+  }
+});
+
+// Remove the service center logo
+router.delete('/service-centers/:centerId/logo', [
+  param('centerId').isInt(),
+  handleValidationErrors,
+  authenticateToken,
+  requireCenterPermission('profile:write')
+], async (req: ServiceCenterRequest, res: Response) => {
+  try {
+    const center = await prisma.serviceCenterProfile.findUnique({ where: { id: Number(req.params.centerId) } });
+    if (!center) return res.status(404).json({ error: 'Service center not found' });
+
+    await prisma.serviceCenterProfile.update({
+      where: { id: center.id },
+      data: { logo: null, logoThumbnail: null },
+    });
+    await ImageUploadService.remove('logo', center.id, center.logo, center.logoThumbnail);
+
+    res.status(204).end();
+  } catch (err) {
+    console.error('Remove service center logo error:', err);
+    res.status(500).json({ error: 'Failed to remove logo' });
+  }
+});
+
+export default router;
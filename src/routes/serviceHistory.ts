@@ -0,0 +1,302 @@
+import express from 'express';
+import prisma from '../prisma';
+import { body, param, query, validationResult } from 'express-validator';
+import { Request, Response, NextFunction } from 'express';
+import { authenticateToken, AuthenticatedRequest } from '../middleware/auth';
+import { requireVehiclePermission, VehicleRequest } from '../middleware/vehicleAccess';
+import { requireCenterPermission } from '../middleware/serviceCenter';
+import { ServiceHistoryService, ServiceRecordResult } from '../Services/ServiceHistory';
+import { MaintenanceService } from '../Services/Maintenance';
+import { AuditLogService } from '../Services/AuditLog';
+import { EmailService } from '../Services/Email';
+import { normalizeVin } from '../utils/vin';
+
+const router = express.Router();
+
+const FRONTEND_URL = process.env.FRONTEND_URL || 'http://localhost:5173';
+
+function handleValidationErrors(req: Request, res: Response, next: NextFunction) {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    return res.status(400).json({ errors: errors.array() });
+  }
+  next();
+}
+
+const RECORD_ERRORS: Record<Exclude<ServiceRecordResult, { ok: true }>['reason'], { status: number; error: string }> = {
+  not_found: { status: 404, error: 'Service record not found' },
+  verified: { status: 409, error: 'This record was verified by a service center and cannot be changed or deleted' },
+  center_not_found: { status: 400, error: 'Service center not found' },
+  invalid_services: { status: 400, error: 'Each service needs a name or one of the service center\'s own services' },
+  odometer_out_of_order: { status: 400, error: 'Odometer value is lower than an earlier reading or higher than a later one' },
+};
+
+const sendRecordError = (res: Response, result: Exclude<ServiceRecordResult, { ok: true }>) => {
+  const { status, error } = RECORD_ERRORS[result.reason];
+  res.status(status).json({ error });
+};
+
+// Fields shared by owner and service center entries
+const recordValidators = [
+  body('serviceDate').isISO8601(),
+  body('odometer').optional({ values: 'null' }).isInt({ min: 0 }).toInt(),
+  body('description').optional({ values: 'null' }).isString().trim().isLength({ max: 2000 }),
+  body('cost').optional({ values: 'null' }).isFloat({ min: 0 }).toFloat(),
+  body('notes').optional({ values: 'null' }).isString().trim().isLength({ max: 2000 }),
+  body('services').optional().isArray({ max: 50 }),
+  body('services.*.shopServiceId').optional().isInt().toInt(),
+  body('services.*.name').optional().isString().trim().notEmpty(),
+  body('services.*.price').optional().isFloat({ min: 0 }).toFloat(),
+  body('services.*.maintenanceTask').optional({ values: 'null' }).matches(/^[a-z0-9_]{1,50}$/),
+  body('parts').optional().isArray({ max: 100 }),
+  body('parts.*.name').isString().trim().notEmpty(),
+  body('parts.*.partNumber').optional().isString().trim(),
+  body('parts.*.quantity').optional().isInt({ min: 1 }).toInt(),
+  body('parts.*.unitPrice').optional().isFloat({ min: 0 }).toFloat(),
+  body('attachments').optional().isArray({ max: 20 }),
+  body('attachments.*.url').isURL(),
+  body('attachments.*.fileName').optional().isString().trim(),
+  body('attachments.*.mimeType').optional().isString().trim(),
+];
+
+// Owners may also name where the work was done
+const ownerRecordValidators = [
+  ...recordValidators,
+  body('serviceCenterId').optional({ values: 'null' }).isInt().toInt(),
+  body('serviceCenterName').optional({ values: 'null' }).isString().trim().isLength({ max: 200 }),
+];
+
+// GET /vehicles/:userId/vehicles/:vehicleId/history
+router.get('/vehicles/:userId/vehicles/:vehicleId/history', [
+  param('userId').isInt(),
+  param('vehicleId').isInt(),
+  query('page').optional().isInt({ min: 1 }),
+  query('limit').optional().isInt({ min: 1, max: 100 }),
+  handleValidationErrors,
+  authenticateToken,
+  requireVehiclePermission('vehicle:read')
+], async (req: VehicleRequest, res: Response) => {
+  try {
+    const vehicle = req.vehicle!;
+
+    const result = await ServiceHistoryService.list(vehicle.id, {
+      page: Number(req.query.page) || 1,
+      limit: Number(req.query.limit) || 20,
+    });
+    res.json(result);
+  } catch (err) {
+    console.error('List service history error:', err);
+    res.status(500).json({ error: 'Failed to fetch service history' });
+  }
+});
+
+// POST /vehicles/:userId/vehicles/:vehicleId/history
+router.post('/vehicles/:userId/vehicles/:vehicleId/history', [
+  param('userId').isInt(),
+  param('vehicleId').isInt(),
+  ...ownerRecordValidators,
+  handleValidationErrors,
+  authenticateToken,
+  requireVehiclePermission('history:write')
+], async (req: VehicleRequest, res: Response) => {
+  try {
+    const vehicle = req.vehicle!;
+
+    const result = await ServiceHistoryService.create(vehicle.id, req.body, req.user!.userId);
+    if (!result.ok) return sendRecordError(res, result);
+    await MaintenanceService.refreshStatus(vehicle.id);
+    res.status(201).json(result.record);
+  } catch (err) {
+    console.error('Create service record error:', err);
+    res.status(500).json({ error: 'Failed to create service record' });
+  }
+});
+
+// GET /vehicles/:userId/vehicles/:vehicleId/history/:recordId
+router.get('/vehicles/:userId/vehicles/:vehicleId/history/:recordId', [
+  param('userId').isInt(),
+  param('vehicleId').isInt(),
+  param('recordId').isInt(),
+  handleValidationErrors,
+  authenticateToken,
+  requireVehiclePermission('vehicle:read')
+], async (req: VehicleRequest, res: Response) => {
+  try {
+    const vehicle = req.vehicle!;
+
+    const record = await ServiceHistoryService.get(vehicle.id, Number(req.params.recordId));
+    if (!record) return res.status(404).json({ error: 'Service record not found' });
+    res.json(record);
+  } catch (err) {
+    console.error('Get service record error:', err);
+    res.status(500).json({ error: 'Failed to fetch service record' });
+  }
+});
+
+// PUT /vehicles/:userId/vehicles/:vehicleId/history/:recordId
+router.put('/vehicles/:userId/vehicles/:vehicleId/history/:recordId', [
+  param('userId').isInt(),
+  param('vehicleId').isInt(),
+  param('recordId').isInt(),
+  ...ownerRecordValidators,
+  handleValidationErrors,
+  authenticateToken,
+  requireVehiclePermission('history:update')
+], async (req: VehicleRequest, res: Response) => {
+  try {
+    const vehicle = req.vehicle!;
+
+    const result = await ServiceHistoryService.update(vehicle.id, Number(req.params.recordId), req.body);
+    if (!result.ok) return sendRecordError(res, result);
+    await MaintenanceService.refreshStatus(vehicle.id);
+    res.json(result.record);
+  } catch (err) {
+    console.error('Update service record error:', err);
+    res.status(500).json({ error: 'Failed to update service record' });
+  }
+});
+
+// DELETE /vehicles/:userId/vehicles/:vehicleId/history/:recordId
+router.delete('/vehicles/:userId/vehicles/:vehicleId/history/:recordId', [
+  param('userId').isInt(),
+  param('vehicleId').isInt(),
+  param('recordId').isInt(),
+  handleValidationErrors,
+  authenticateToken,
+  requireVehiclePermission('history:delete')
+], async (req: VehicleRequest, res: Response) => {
+  try {
+    const vehicle = req.vehicle!;
+
+    const result = await ServiceHistoryService.remove(vehicle.id, Number(req.params.recordId));
+    if (!result.ok) return sendRecordError(res, result);
+    await MaintenanceService.refreshStatus(vehicle.id);
+    res.json({ message: 'Service record deleted' });
+  } catch (err) {
+    console.error('Delete service record error:', err);
+    res.status(500).json({ error: 'Failed to delete service record' });
+  }
+});
+
+// GET /vehicles/:userId/vehicles/:vehicleId/service-centers
+// Service centers allowed to add verified records to this vehicle
+router.get('/vehicles/:userId/vehicles/:vehicleId/service-centers', [
+  param('userId').isInt(),
+  param('vehicleId').isInt(),
+  handleValidationErrors,
+  authenticateToken,
+  requireVehiclePermission('vehicle:read')
+], async (req: VehicleRequest, res: Response) => {
+  try {
+    const serviceCenters = await ServiceHistoryService.listServiceCenters(req.vehicle!.id);
+    res.json({ serviceCenters });
+  } catch (err) {
+    console.error('List vehicle service centers error:', err);
+    res.status(500).json({ error: 'Failed to fetch service centers' });
+  }
+});
+
+// PUT /vehicles/:userId/vehicles/:vehicleId/service-centers/:centerId
+// Allow a service center to add verified records to this vehicle
+router.put('/vehicles/:userId/vehicles/:vehicleId/service-centers/:centerId', [
+  param('userId').isInt(),
+  param('vehicleId').isInt(),
+  param('centerId').isInt(),
+  handleValidationErrors,
+  authenticateToken,
+  requireVehiclePermission('vehicle:update')
+], async (req: VehicleRequest, res: Response) => {
+  try {
+    const allowed = await ServiceHistoryService.allowServiceCenter(
+      req.vehicle!.id,
+      Number(req.params.centerId),
+      req.user!.userId
+    );
+    if (!allowed) return res.status(404).json({ error: 'Service center not found' });
+    res.json({ message: 'Service center can now add records to this vehicle' });
+  } catch (err) {
+    console.error('Allow service center error:', err);
+    res.status(500).json({ error: 'Failed to give the service center access' });
+  }
+});
+
+// DELETE /vehicles/:userId/vehicles/:vehicleId/service-centers/:centerId
+// Stop a service center adding records; the ones it already added stay
+router.delete('/vehicles/:userId/vehicles/:vehicleId/service-centers/:centerId', [
+  param('userId').isInt(),
+  param('vehicleId').isInt(),
+  param('centerId').isInt(),
+  handleValidationErrors,
+  authenticateToken,
+  requireVehiclePermission('vehicle:update')
+], async (req: VehicleRequest, res: Response) => {
+  try {
+    const removed = await ServiceHistoryService.removeServiceCenter(req.vehicle!.id, Number(req.params.centerId));
+    if (!removed) return res.status(404).json({ error: 'This service center does not have access to the vehicle' });
+    res.status(204).end();
+  } catch (err) {
+    console.error('Remove vehicle service center error:', err);
+    res.status(500).json({ error: 'Failed to remove the service center\'s access' });
+  }
+});
+
+// POST /service-centers/:centerId/service-records
+// A service center records a job it did on a customer's vehicle, found by plate or VIN.
+// Only vehicles whose owner has given the center access can be found.
+router.post('/service-centers/:centerId/service-records', [
+  param('centerId').isInt(),
+  body('licensePlate').optional().isString().trim().notEmpty(),
+  body('vin').optional().isString().trim().notEmpty(),
+  body().custom(value => !!(value?.licensePlate || value?.vin)).withMessage('licensePlate or vin is required'),
+  ...recordValidators,
+  handleValidationErrors,
+  authenticateToken,
+  requireCenterPermission('history:verify')
+], async (req: AuthenticatedRequest, res: Response) => {
+  const { centerId } = req.params;
+  const { licensePlate, vin } = req.body;
+  try {
+    const vehicle = await prisma.vehicle.findFirst({
+      where: {
+        ...(licensePlate && { licensePlate }),
+        ...(vin && { vin: normalizeVin(vin) }),
+        serviceCenterAccess: { some: { serviceCenterId: Number(centerId) } }
+      },
+      include: { user: { select: { email: true, deletedAt: true } } }
+    });
+    if (!vehicle || vehicle.user.deletedAt) {
+      return res.status(404).json({ error: 'No vehicle with this license plate or VIN has given your service center access' });
+    }
+
+    const result = await ServiceHistoryService.create(vehicle.id, req.body, req.user!.userId, {
+      serviceCenterId: Number(centerId)
+    });
+    if (!result.ok) return sendRecordError(res, result);
+
+    await AuditLogService.record({
+      actorId: req.user!.userId,
+      action: 'service_record.created',
+      entityType: 'service_record',
+      entityId: result.record.id,
+      metadata: { serviceCenterId: Number(centerId), vehicleId: vehicle.id, verified: true }
+    }, req);
+
+    // The owner should know their history changed; the record stands even if the email fails
+    await EmailService.sendServiceRecordAddedEmail(vehicle.user.email, {
+      businessName: result.record.serviceCenterName || 'A service center',
+      vehicle: `${vehicle.vehicleName} ${vehicle.model} (${vehicle.licensePlate})`,
+      serviceDate: result.record.serviceDate,
+      historyLink: `${FRONTEND_URL}/vehicles/${vehicle.id}/history`,
+    }).catch(error => console.error('Service record email error:', error));
+
+    // Last, once the record, its audit entry and the owner's email are all in place
+    await MaintenanceService.refreshStatus(vehicle.id);
+
+    res.status(201).json(result.record);
+  } catch (err) {
+    console.error('Create verified service record error:', err);
+    res.status(500).json({ error: 'Failed to create service record' });
+  }
+});
+
+export default router;
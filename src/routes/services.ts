@@ -2,6 +2,9 @@ import express from 'express';
 import prisma from '../prisma';
 import { body, param, query, validationResult } from 'express-validator';
 import { Request, Response, NextFunction } from 'express';
+import { authenticateToken, AuthenticatedRequest } from '../middleware/auth';
+import { requireCenterPermission } from '../middleware/serviceCenter';
+import { AuditLogService } from '../Services/AuditLog';
 
 const router = express.Router();
 
@@ -14,6 +17,27 @@ function handleValidationErrors(req: Request, res: Response, next: NextFunction)
   next();
 }
 
+// Only these fields may be changed from a request body; the center always comes from the URL
+const pickServiceFields = (data: Record<string, any>) => {
+  const { name, description, price, unit, duration, discount, serviceTypeId } = data;
+  return {
+    ...(name !== undefined && { name }),
+    ...(description !== undefined && { description }),
+    ...(price !== undefined && { price }),
+    ...(unit !== undefined && { unit }),
+    ...(duration !== undefined && { duration }),
+    ...(discount !== undefined && { discount }),
+    ...(serviceTypeId !== undefined && { serviceTypeId })
+  };
+};
+
+// Look a service up within its center so ids from another center are treated as missing
+const findCenterService = (centerId: string, serviceId: string) => {
+  return prisma.shopService.findFirst({
+    where: { id: Number(serviceId), serviceCenterId: Number(centerId) }
+  });
+};
+
 // List all services (with optional filters)
 router.get('/service-centers/:centerId/services', [
   param('centerId').isInt(),
@@ -57,16 +81,33 @@ router.post('/service-centers/:centerId/services', [
   body('duration').optional().isFloat(),
   body('discount').optional().isFloat(),
   body('serviceTypeId').optional().isInt(),
-  handleValidationErrors
-], async (req: Request, res: Response) => {
+  handleValidationErrors,
+  authenticateToken,
+  requireCenterPermission('services:write')
+], async (req: AuthenticatedRequest, res: Response) => {
   const { centerId } = req.params;
+  const { name, description, price, unit, duration, discount, serviceTypeId } = req.body;
   try {
     const service = await prisma.shopService.create({
       data: {
-        ...req.body,
+        name,
+        description,
+        price,
+        unit,
+        duration,
+        discount,
+        serviceTypeId,
         serviceCenterId: Number(centerId)
       }
     });
+    await AuditLogService.record({
+      actorId: req.user?.userId,
+      action: 'service.created',
+      entityType: 'shop_service',
+      entityId: service.id,
+      before: null,
+      after: service
+    }, req);
     res.status(201).json(service);
   } catch (err) {
     res.status(500).json({ error: 'Failed to create service' });
@@ -79,10 +120,10 @@ router.get('/service-centers/:centerId/services/:serviceId', [
   param('serviceId').isInt(),
   handleValidationErrors
 ], async (req: Request, res: Response) => {
-  const { serviceId } = req.params;
+  const { centerId, serviceId } = req.params;
   try {
-    const service = await prisma.shopService.findUnique({
-      where: { id: Number(serviceId) },
+    const service = await prisma.shopService.findFirst({
+      where: { id: Number(serviceId), serviceCenterId: Number(centerId) },
       include: { serviceType: true }
     });
     if (!service) return res.status(404).json({ error: 'Service not found' });
@@ -103,14 +144,26 @@ router.put('/service-centers/:centerId/services/:serviceId', [
   body('duration').optional().isFloat(),
   body('discount').optional().isFloat(),
   body('serviceTypeId').optional().isInt(),
-  handleValidationErrors
-], async (req: Request, res: Response) => {
-  const { serviceId } = req.params;
+  handleValidationErrors,
+  authenticateToken,
+  requireCenterPermission('services:write')
+], async (req: AuthenticatedRequest, res: Response) => {
+  const { centerId, serviceId } = req.params;
   try {
+    const existing = await findCenterService(centerId, serviceId);
+    if (!existing) return res.status(404).json({ error: 'Service not found' });
     const service = await prisma.shopService.update({
-      where: { id: Number(serviceId) },
-      data: req.body
+      where: { id: existing.id },
+      data: pickServiceFields(req.body)
     });
+    await AuditLogService.record({
+      actorId: req.user?.userId,
+      action: 'service.updated',
+      entityType: 'shop_service',
+      entityId: service.id,
+      before: existing,
+      after: service
+    }, req);
     res.json(service);
   } catch (err) {
     res.status(500).json({ error: 'Failed to update service' });
@@ -121,16 +174,26 @@ router.put('/service-centers/:centerId/services/:serviceId', [
 router.patch('/service-centers/:centerId/services/:serviceId/toggle', [
   param('centerId').isInt(),
   param('serviceId').isInt(),
-  handleValidationErrors
-], async (req: Request, res: Response) => {
-  const { serviceId } = req.params;
+  handleValidationErrors,
+  authenticateToken,
+  requireCenterPermission('services:write')
+], async (req: AuthenticatedRequest, res: Response) => {
+  const { centerId, serviceId } = req.params;
   try {
-    const service = await prisma.shopService.findUnique({ where: { id: Number(serviceId) } });
+    const service = await findCenterService(centerId, serviceId);
     if (!service) return res.status(404).json({ error: 'Service not found' });
     const updated = await prisma.shopService.update({
-      where: { id: Number(serviceId) },
+      where: { id: service.id },
       data: { isActive: !service.isActive }
     });
+    await AuditLogService.record({
+      actorId: req.user?.userId,
+      action: 'service.updated',
+      entityType: 'shop_service',
+      entityId: updated.id,
+      before: service,
+      after: updated
+    }, req);
     res.json(updated);
   } catch (err) {
     res.status(500).json({ error: 'Failed to toggle service status' });
@@ -141,11 +204,23 @@ router.patch('/service-centers/:centerId/services/:serviceId/toggle', [
 router.delete('/service-centers/:centerId/services/:serviceId', [
   param('centerId').isInt(),
   param('serviceId').isInt(),
-  handleValidationErrors
-], async (req: Request, res: Response) => {
-  const { serviceId } = req.params;
+  handleValidationErrors,
+  authenticateToken,
+  requireCenterPermission('services:delete')
+], async (req: AuthenticatedRequest, res: Response) => {
+  const { centerId, serviceId } = req.params;
   try {
-    await prisma.shopService.delete({ where: { id: Number(serviceId) } });
+    const service = await findCenterService(centerId, serviceId);
+    if (!service) return res.status(404).json({ error: 'Service not found' });
+    await prisma.shopService.delete({ where: { id: service.id } });
+    await AuditLogService.record({
+      actorId: req.user?.userId,
+      action: 'service.deleted',
+      entityType: 'shop_service',
+      entityId: service.id,
+      before: service,
+      after: null
+    }, req);
     res.status(204).end();
   } catch (err) {
     res.status(500).json({ error: 'Failed to delete service' });
@@ -155,7 +230,9 @@ router.delete('/service-centers/:centerId/services/:serviceId', [
 // Metrics endpoint
 router.get('/service-centers/:centerId/services/metrics', [
   param('centerId').isInt(),
-  handleValidationErrors
+  handleValidationErrors,
+  authenticateToken,
+  requireCenterPermission('services:read')
 ], async (req: Request, res: Response) => {
   const { centerId } = req.params;
   try {
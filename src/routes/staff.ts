@@ -0,0 +1,208 @@
+import express from 'express';
+import prisma from '../prisma';
+import { body, param, validationResult } from 'express-validator';
+import { Request, Response, NextFunction } from 'express';
+import { authenticateToken, AuthenticatedRequest } from '../middleware/auth';
+import { requireCenterPermission, ServiceCenterRequest } from '../middleware/serviceCenter';
+import { ServiceCenterStaffService, CENTER_ROLES, StaffResult } from '../Services/ServiceCenterStaff';
+import { EmailService } from '../Services/Email';
+
+const router = express.Router();
+
+const FRONTEND_URL = process.env.FRONTEND_URL || 'http://localhost:5173';
+
+function handleValidationErrors(req: Request, res: Response, next: NextFunction) {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    return res.status(400).json({ errors: errors.array() });
+  }
+  next();
+}
+
+const STAFF_ERRORS: Record<Exclude<StaffResult, { ok: true }>['reason'], { status: number; error: string }> = {
+  not_found: { status: 404, error: 'Staff member not found' },
+  forbidden: { status: 403, error: 'Only owners can manage owners' },
+  self: { status: 400, error: 'You cannot change your own membership' },
+  already_member: { status: 409, error: 'This user already works at this service center' },
+};
+
+const ACCEPT_ERRORS = {
+  invalid: 'Invalid invitation',
+  expired: 'This invitation has expired. Ask for a new one',
+  email_mismatch: 'This invitation was sent to a different email address',
+};
+
+// List the service centers the current user works at
+router.get('/staff/centers', authenticateToken, async (req: AuthenticatedRequest, res: Response) => {
+  const userId = req.user?.userId;
+  if (!userId) return res.status(401).json({ error: 'Unauthorized' });
+  try {
+    const centers = await ServiceCenterStaffService.listCentersForUser(userId);
+    res.json({ centers });
+  } catch (err) {
+    console.error('List staff centers error:', err);
+    res.status(500).json({ error: 'Failed to fetch service centers' });
+  }
+});
+
+// Accept an invitation with the token from the email
+router.post('/staff/invitations/accept', [
+  body('token').isString().notEmpty(),
+  handleValidationErrors,
+  authenticateToken
+], async (req: AuthenticatedRequest, res: Response) => {
+  const userId = req.user?.userId;
+  if (!userId) return res.status(401).json({ error: 'Unauthorized' });
+  try {
+    const user = await prisma.user.findUnique({ where: { id: userId } });
+    if (!user) return res.status(404).json({ error: 'User not found' });
+
+    const result = await ServiceCenterStaffService.acceptInvitation(req.body.token, user);
+    if (!result.ok) {
+      return res.status(result.reason === 'email_mismatch' ? 403 : 400).json({ error: ACCEPT_ERRORS[result.reason] });
+    }
+
+    res.json({ message: 'Invitation accepted', serviceCenterId: result.serviceCenterId, role: result.role });
+  } catch (err) {
+    console.error('Accept staff invitation error:', err);
+    res.status(500).json({ error: 'Failed to accept invitation' });
+  }
+});
+
+// List staff and pending invitations
+router.get('/service-centers/:centerId/staff', [
+  param('centerId').isInt(),
+  handleValidationErrors,
+  authenticateToken,
+  requireCenterPermission('staff:read')
+], async (req: ServiceCenterRequest, res: Response) => {
+  try {
+    const staff = await ServiceCenterStaffService.listStaff(Number(req.params.centerId));
+    res.json(staff);
+  } catch (err) {
+    console.error('List staff error:', err);
+    res.status(500).json({ error: 'Failed to fetch staff' });
+  }
+});
+
+// Invite someone by email
+router.post('/service-centers/:centerId/staff/invitations', [
+  param('centerId').isInt(),
+  body('email').isEmail(),
+  body('role').isIn(CENTER_ROLES),
+  handleValidationErrors,
+  authenticateToken,
+  requireCenterPermission('staff:manage')
+], async (req: ServiceCenterRequest, res: Response) => {
+  const centerId = Number(req.params.centerId);
+  try {
+    const center = await prisma.serviceCenterProfile.findUnique({ where: { id: centerId } });
+    if (!center) return res.status(404).json({ error: 'Service center not found' });
+
+    const result = await ServiceCenterStaffService.invite(
+      centerId,
+      { userId: req.user!.userId, role: req.centerRole! },
+      req.body.email,
+      req.body.role
+    );
+    if (!result.ok) {
+      const { status, error } = STAFF_ERRORS[result.reason];
+      return res.status(status).json({ error });
+    }
+
+    const inviter = await prisma.user.findUnique({ where: { id: req.user!.userId } });
+    await EmailService.sendStaffInvitationEmail(req.body.email, {
+      businessName: center.businessName,
+      role: req.body.role,
+      invitedBy: inviter?.name || inviter?.email || center.businessName,
+      acceptLink: `${FRONTEND_URL}/staff-invitations/accept?token=${encodeURIComponent(result.token)}`,
+      expiresInDays: result.expiresInDays,
+    });
+
+    res.status(201).json({ message: 'Invitation sent' });
+  } catch (err) {
+    console.error('Invite staff error:', err);
+    res.status(500).json({ error: 'Failed to send invitation' });
+  }
+});
+
+// Cancel a pending invitation
+router.delete('/service-centers/:centerId/staff/invitations/:invitationId', [
+  param('centerId').isInt(),
+  param('invitationId').isInt(),
+  handleValidationErrors,
+  authenticateToken,
+  requireCenterPermission('staff:manage')
+], async (req: ServiceCenterRequest, res: Response) => {
+  try {
+    const result = await ServiceCenterStaffService.revokeInvitation(
+      Number(req.params.centerId),
+      Number(req.params.invitationId),
+      req.centerRole!
+    );
+    if (!result.ok) {
+      const { status, error } = result.reason === 'not_found'
+        ? { status: 404, error: 'Invitation not found' }
+        : STAFF_ERRORS[result.reason];
+      return res.status(status).json({ error });
+    }
+    res.status(204).end();
+  } catch (err) {
+    console.error('Revoke staff invitation error:', err);
+    res.status(500).json({ error: 'Failed to cancel invitation' });
+  }
+});
+
+// Change a staff member's role
+router.put('/service-centers/:centerId/staff/:userId', [
+  param('centerId').isInt(),
+  param('userId').isInt(),
+  body('role').isIn(CENTER_ROLES),
+  handleValidationErrors,
+  authenticateToken,
+  requireCenterPermission('staff:manage')
+], async (req: ServiceCenterRequest, res: Response) => {
+  try {
+    const result = await ServiceCenterStaffService.changeRole(
+      Number(req.params.centerId),
+      { userId: req.user!.userId, role: req.centerRole! },
+      Number(req.params.userId),
+      req.body.role
+    );
+    if (!result.ok) {
+      const { status, error } = STAFF_ERRORS[result.reason];
+      return res.status(status).json({ error });
+    }
+    res.json({ message: 'Role updated', role: req.body.role });
+  } catch (err) {
+    console.error('Change staff role error:', err);
+    res.status(500).json({ error: 'Failed to change role' });
+  }
+});
+
+// Remove a staff member
+router.delete('/service-centers/:centerId/staff/:userId', [
+  param('centerId').isInt(),
+  param('userId').isInt(),
+  handleValidationErrors,
+  authenticateToken,
+  requireCenterPermission('staff:manage')
+], async (req: ServiceCenterRequest, res: Response) => {
+  try {
+    const result = await ServiceCenterStaffService.removeMember(
+      Number(req.params.centerId),
+      { userId: req.user!.userId, role: req.centerRole! },
+      Number(req.params.userId)
+    );
+    if (!result.ok) {
+      const { status, error } = STAFF_ERRORS[result.reason];
+      return res.status(status).json({ error });
+    }
+    res.status(204).end();
+  } catch (err) {
+    console.error('Remove staff member error:', err);
+    res.status(500).json({ error: 'Failed to remove staff member' });
+  }
+});
+
+export default router;
@@ -1,6 +1,7 @@
 import { Router, Response } from 'express';
 import prisma from '../prisma';
 import { authenticateToken, AuthenticatedRequest } from '../middleware/auth';
+import { AuditLogService } from '../Services/AuditLog';
 
 const router = Router();
 
@@ -27,6 +28,14 @@ router.post('/', authenticateToken, async (req: AuthenticatedRequest, res: Respo
         paymentData: JSON.stringify(paymentData),
       },
     });
+    await AuditLogService.record({
+      actorId: userId,
+      action: 'subscription.created',
+      entityType: 'subscription',
+      entityId: subscription.id,
+      before: null,
+      after: subscription
+    }, req);
     res.json({ message: 'Subscription created', subscription });
   } catch (error) {
     console.error('Create subscription error:', error);
@@ -70,6 +79,14 @@ router.put('/:id', authenticateToken, async (req: AuthenticatedRequest, res: Res
         endDate,
       },
     });
+    await AuditLogService.record({
+      actorId: userId,
+      action: 'subscription.updated',
+      entityType: 'subscription',
+      entityId: updated.id,
+      before: subscription,
+      after: updated
+    }, req);
     res.json({ message: 'Subscription updated', subscription: { ...updated, paymentData: JSON.parse(updated.paymentData) } });
   } catch (error) {
     console.error('Update subscription error:', error);
@@ -86,6 +103,14 @@ router.delete('/:id', authenticateToken, async (req: AuthenticatedRequest, res:
     if (!subscription) return res.status(404).json({ error: 'Subscription not found' });
     if (subscription.userId !== userId) return res.status(403).json({ error: 'Unauthorized' });
     await prisma.subscription.delete({ where: { id: parseInt(id) } });
+    await AuditLogService.record({
+      actorId: userId,
+      action: 'subscription.deleted',
+      entityType: 'subscription',
+      entityId: subscription.id,
+      before: subscription,
+      after: null
+    }, req);
     res.json({ message: 'Subscription deleted' });
   } catch (error) {
     console.error('Delete subscription error:', error);
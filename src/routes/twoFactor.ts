@@ -0,0 +1,114 @@
+import { Router, Response } from 'express';
+import prisma from '../prisma';
+import { authenticateToken, authenticateSetupToken, AuthenticatedRequest } from '../middleware/auth';
+import { TwoFactorService } from '../Services/TwoFactor';
+
+const router = Router();
+
+// GET /auth/2fa
+router.get('/', authenticateSetupToken, async (req: AuthenticatedRequest, res: Response) => {
+  const userId = req.user?.userId;
+  if (!userId) return res.status(401).json({ error: 'Unauthorized' });
+  try {
+    const user = await prisma.user.findUnique({ where: { id: userId } });
+    if (!user) return res.status(404).json({ error: 'User not found' });
+
+    const enabled = await TwoFactorService.isEnabled(userId);
+    res.json({
+      enabled,
+      required: TwoFactorService.isRequiredForRole(user.role),
+      recoveryCodesRemaining: enabled ? await TwoFactorService.remainingRecoveryCodes(userId) : 0,
+    });
+  } catch (error) {
+    console.error('Get two-factor status error:', error);
+    res.status(500).json({ error: 'Failed to fetch two-factor status' });
+  }
+});
+
+// POST /auth/2fa/enroll
+router.post('/enroll', authenticateSetupToken, async (req: AuthenticatedRequest, res: Response) => {
+  const userId = req.user?.userId;
+  if (!userId) return res.status(401).json({ error: 'Unauthorized' });
+  try {
+    const user = await prisma.user.findUnique({ where: { id: userId } });
+    if (!user) return res.status(404).json({ error: 'User not found' });
+
+    const enrollment = await TwoFactorService.startEnrollment(userId, user.email);
+    if (!enrollment) return res.status(400).json({ error: 'Two-factor authentication is already enabled' });
+
+    res.json({
+      message: 'Scan the QR code with your authenticator app, then confirm with a code',
+      secret: enrollment.secret,
+      otpauthUri: enrollment.otpauthUri,
+    });
+  } catch (error) {
+    console.error('Two-factor enroll error:', error);
+    res.status(500).json({ error: 'Failed to start two-factor enrollment' });
+  }
+});
+
+// POST /auth/2fa/confirm
+router.post('/confirm', authenticateSetupToken, async (req: AuthenticatedRequest, res: Response) => {
+  const userId = req.user?.userId;
+  const { code } = req.body;
+  if (!userId) return res.status(401).json({ error: 'Unauthorized' });
+  if (!code) return res.status(400).json({ error: 'Code is required' });
+  try {
+    const recoveryCodes = await TwoFactorService.confirmEnrollment(userId, code);
+    if (!recoveryCodes) return res.status(400).json({ error: 'Invalid code or no pending enrollment' });
+
+    // A setup-only access token stays limited; refreshing it now yields a full one
+    res.json({
+      message: 'Two-factor authentication enabled. Store these recovery codes somewhere safe; they will not be shown again',
+      recoveryCodes,
+      ...(req.user?.twoFactorSetupRequired && { refreshRequired: true }),
+    });
+  } catch (error) {
+    console.error('Two-factor confirm error:', error);
+    res.status(500).json({ error: 'Failed to confirm two-factor enrollment' });
+  }
+});
+
+// POST /auth/2fa/recovery-codes
+router.post('/recovery-codes', authenticateToken, async (req: AuthenticatedRequest, res: Response) => {
+  const userId = req.user?.userId;
+  const { code } = req.body;
+  if (!userId) return res.status(401).json({ error: 'Unauthorized' });
+  if (!code) return res.status(400).json({ error: 'Code is required' });
+  try {
+    const valid = await TwoFactorService.verify(userId, { code });
+    if (!valid) return res.status(400).json({ error: 'Invalid code' });
+
+    const recoveryCodes = await TwoFactorService.regenerateRecoveryCodes(userId);
+    res.json({ message: 'Recovery codes regenerated', recoveryCodes });
+  } catch (error) {
+    console.error('Regenerate recovery codes error:', error);
+    res.status(500).json({ error: 'Failed to regenerate recovery codes' });
+  }
+});
+
+// POST /auth/2fa/disable
+router.post('/disable', authenticateToken, async (req: AuthenticatedRequest, res: Response) => {
+  const userId = req.user?.userId;
+  const { code, recoveryCode } = req.body;
+  if (!userId) return res.status(401).json({ error: 'Unauthorized' });
+  if (!code && !recoveryCode) return res.status(400).json({ error: 'Code or recovery code is required' });
+  try {
+    const user = await prisma.user.findUnique({ where: { id: userId } });
+    if (!user) return res.status(404).json({ error: 'User not found' });
+    if (TwoFactorService.isRequiredForRole(user.role)) {
+      return res.status(403).json({ error: 'Two-factor authentication is required for your account type' });
+    }
+
+    const valid = await TwoFactorService.verify(userId, { code, recoveryCode });
+    if (!valid) return res.status(400).json({ error: 'Invalid code' });
+
+    await TwoFactorService.disable(userId);
+    res.json({ message: 'Two-factor authentication disabled' });
+  } catch (error) {
+    console.error('Two-factor disable error:', error);
+    res.status(500).json({ error: 'Failed to disable two-factor authentication' });
+  }
+});
+
+export default router;
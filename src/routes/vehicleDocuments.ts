@@ -0,0 +1,163 @@
+import express from 'express';
+import { body, param, query, validationResult } from 'express-validator';
+import { Request, Response, NextFunction } from 'express';
+import { authenticateToken, AuthenticatedRequest } from '../middleware/auth';
+import { requireVehiclePermission, VehicleRequest } from '../middleware/vehicleAccess';
+import { VehicleDocumentService, VehicleDocumentResult, VehicleDocumentInput, DOCUMENT_TYPES } from '../Services/VehicleDocument';
+
+const router = express.Router();
+
+function handleValidationErrors(req: Request, res: Response, next: NextFunction) {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    return res.status(400).json({ errors: errors.array() });
+  }
+  next();
+}
+
+const DOCUMENT_ERRORS: Record<Exclude<VehicleDocumentResult, { ok: true }>['reason'], { status: number; error: string }> = {
+  not_found: { status: 404, error: 'Document not found' },
+  expiry_required: { status: 400, error: 'This type of document needs an expiry date' },
+  dates_out_of_order: { status: 400, error: 'Issue date must be before the expiry date' },
+};
+
+const sendDocumentError = (res: Response, result: Exclude<VehicleDocumentResult, { ok: true }>) => {
+  const { status, error } = DOCUMENT_ERRORS[result.reason];
+  res.status(status).json({ error });
+};
+
+// Everything but the type; a null clears the field
+const documentFieldValidators = [
+  body('documentNumber').optional({ values: 'null' }).isString().trim().isLength({ max: 100 }),
+  body('issuer').optional({ values: 'null' }).isString().trim().isLength({ max: 200 }),
+  body('issueDate').optional({ values: 'null' }).isISO8601().toDate(),
+  body('expiryDate').optional({ values: 'null' }).isISO8601().toDate(),
+  body('fileUrl').optional({ values: 'null' }).isURL(),
+  body('fileName').optional({ values: 'null' }).isString().trim().isLength({ max: 255 }),
+  body('mimeType').optional({ values: 'null' }).isString().trim().isLength({ max: 100 }),
+  body('notes').optional({ values: 'null' }).isString().trim().isLength({ max: 2000 }),
+];
+
+const DOCUMENT_FIELDS = [
+  'type', 'documentNumber', 'issuer', 'issueDate', 'expiryDate', 'fileUrl', 'fileName', 'mimeType', 'notes',
+] as const;
+
+// Only the fields that were sent, so an update leaves the rest alone
+const pickDocumentFields = (source: Record<string, unknown>): Partial<VehicleDocumentInput> => {
+  return Object.fromEntries(DOCUMENT_FIELDS.filter(field => source[field] !== undefined).map(field => [field, source[field]]));
+};
+
+const isOwner = (req: AuthenticatedRequest) => req.user?.userId === Number(req.params.userId);
+
+// GET /vehicles/:userId/documents/expiring
+// Expired and soon-to-expire documents across all of the owner's vehicles, for the dashboard
+router.get('/vehicles/:userId/documents/expiring', [
+  param('userId').isInt(),
+  query('days').optional().isInt({ min: 0, max: 365 }),
+  handleValidationErrors,
+  authenticateToken
+], async (req: AuthenticatedRequest, res: Response) => {
+  if (!isOwner(req)) return res.status(403).json({ error: 'Unauthorized' });
+  try {
+    const days = req.query.days !== undefined ? Number(req.query.days) : undefined;
+    const documents = await VehicleDocumentService.expiring(Number(req.params.userId), days);
+    res.json({
+      documents,
+      expired: documents.filter(document => document.expiryStatus === 'expired').length,
+      expiringSoon: documents.filter(document => document.expiryStatus !== 'expired').length,
+    });
+  } catch (err) {
+    console.error('List expiring documents error:', err);
+    res.status(500).json({ error: 'Failed to fetch expiring documents' });
+  }
+});
+
+// GET /vehicles/:userId/vehicles/:vehicleId/documents
+router.get('/vehicles/:userId/vehicles/:vehicleId/documents', [
+  param('userId').isInt(),
+  param('vehicleId').isInt(),
+  handleValidationErrors,
+  authenticateToken,
+  requireVehiclePermission('vehicle:read')
+], async (req: VehicleRequest, res: Response) => {
+  try {
+    const vehicle = req.vehicle!;
+
+    const documents = await VehicleDocumentService.list(vehicle.id);
+    res.json({ documents });
+  } catch (err) {
+    console.error('List vehicle documents error:', err);
+    res.status(500).json({ error: 'Failed to fetch documents' });
+  }
+});
+
+// POST /vehicles/:userId/vehicles/:vehicleId/documents
+router.post('/vehicles/:userId/vehicles/:vehicleId/documents', [
+  param('userId').isInt(),
+  param('vehicleId').isInt(),
+  body('type').isIn(Object.keys(DOCUMENT_TYPES)),
+  ...documentFieldValidators,
+  handleValidationErrors,
+  authenticateToken,
+  requireVehiclePermission('documents:write')
+], async (req: VehicleRequest, res: Response) => {
+  try {
+    const vehicle = req.vehicle!;
+
+    const result = await VehicleDocumentService.create(vehicle.id, {
+      type: req.body.type,
+      ...pickDocumentFields(req.body),
+    }, req.user!.userId);
+    if (!result.ok) return sendDocumentError(res, result);
+    res.status(201).json(result.document);
+  } catch (err) {
+    console.error('Create vehicle document error:', err);
+    res.status(500).json({ error: 'Failed to add document' });
+  }
+});
+
+// PUT /vehicles/:userId/vehicles/:vehicleId/documents/:documentId
+router.put('/vehicles/:userId/vehicles/:vehicleId/documents/:documentId', [
+  param('userId').isInt(),
+  param('vehicleId').isInt(),
+  param('documentId').isInt(),
+  body('type').optional().isIn(Object.keys(DOCUMENT_TYPES)),
+  ...documentFieldValidators,
+  handleValidationErrors,
+  authenticateToken,
+  requireVehiclePermission('documents:write')
+], async (req: VehicleRequest, res: Response) => {
+  try {
+    const vehicle = req.vehicle!;
+
+    const result = await VehicleDocumentService.update(vehicle.id, Number(req.params.documentId), pickDocumentFields(req.body));
+    if (!result.ok) return sendDocumentError(res, result);
+    res.json(result.document);
+  } catch (err) {
+    console.error('Update vehicle document error:', err);
+    res.status(500).json({ error: 'Failed to update document' });
+  }
+});
+
+// DELETE /vehicles/:userId/vehicles/:vehicleId/documents/:documentId
+router.delete('/vehicles/:userId/vehicles/:vehicleId/documents/:documentId', [
+  param('userId').isInt(),
+  param('vehicleId').isInt(),
+  param('documentId').isInt(),
+  handleValidationErrors,
+  authenticateToken,
+  requireVehiclePermission('documents:write')
+], async (req: VehicleRequest, res: Response) => {
+  try {
+    const vehicle = req.vehicle!;
+
+    const removed = await VehicleDocumentService.remove(vehicle.id, Number(req.params.documentId));
+    if (!removed) return res.status(404).json({ error: 'Document not found' });
+    res.status(204).end();
+  } catch (err) {
+    console.error('Delete vehicle document error:', err);
+    res.status(500).json({ error: 'Failed to delete document' });
+  }
+});
+
+export default router;
@@ -0,0 +1,212 @@
+import express from 'express';
+import prisma from '../prisma';
+import { body, param, validationResult } from 'express-validator';
+import { Request, Response, NextFunction } from 'express';
+import { authenticateToken, AuthenticatedRequest } from '../middleware/auth';
+import { requireVehiclePermission, VehicleRequest } from '../middleware/vehicleAccess';
+import { VehicleSharingService, SHARE_ROLES, ShareRole, ShareResult, AcceptShareResult } from '../Services/VehicleSharing';
+import { EmailService } from '../Services/Email';
+
+const router = express.Router();
+
+const FRONTEND_URL = process.env.FRONTEND_URL || 'http://localhost:5173';
+
+function handleValidationErrors(req: Request, res: Response, next: NextFunction) {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    return res.status(400).json({ errors: errors.array() });
+  }
+  next();
+}
+
+const SHARE_ERRORS: Record<Exclude<ShareResult, { ok: true }>['reason'], { status: number; error: string }> = {
+  not_found: { status: 404, error: 'This person does not have access to the vehicle' },
+  forbidden: { status: 403, error: 'Only the owner can manage co-owners' },
+  self: { status: 400, error: 'You cannot change your own access' },
+  already_member: { status: 409, error: 'This person already has access to the vehicle' },
+};
+
+const ACCEPT_ERRORS: Record<Exclude<AcceptShareResult, { ok: true }>['reason'], { status: number; error: string }> = {
+  invalid: { status: 400, error: 'Invalid invitation' },
+  expired: { status: 400, error: 'This invitation has expired. Ask for a new one' },
+  email_mismatch: { status: 403, error: 'This invitation was sent to a different email address' },
+  already_member: { status: 409, error: 'You already own this vehicle' },
+};
+
+const ROLE_LABELS: Record<ShareRole, string> = {
+  co_owner: 'co-owner',
+  driver: 'driver',
+  viewer: 'viewer',
+};
+
+// GET /vehicles/:userId/vehicles/:vehicleId/sharing
+// Everyone with access; pending invitations too for those who can manage sharing
+router.get('/vehicles/:userId/vehicles/:vehicleId/sharing', [
+  param('userId').isInt(),
+  param('vehicleId').isInt(),
+  handleValidationErrors,
+  authenticateToken,
+  requireVehiclePermission('vehicle:read')
+], async (req: VehicleRequest, res: Response) => {
+  try {
+    const canManage = VehicleSharingService.hasPermission(req.vehicleRole!, 'sharing:manage');
+    const sharing = await VehicleSharingService.listMembers(req.vehicle!.id, canManage);
+    res.json({ ...sharing, role: req.vehicleRole });
+  } catch (err) {
+    console.error('List vehicle sharing error:', err);
+    res.status(500).json({ error: 'Failed to fetch who has access' });
+  }
+});
+
+// POST /vehicles/:userId/vehicles/:vehicleId/sharing/invitations
+// Invite someone by email
+router.post('/vehicles/:userId/vehicles/:vehicleId/sharing/invitations', [
+  param('userId').isInt(),
+  param('vehicleId').isInt(),
+  body('email').isEmail(),
+  body('role').isIn(SHARE_ROLES),
+  handleValidationErrors,
+  authenticateToken,
+  requireVehiclePermission('sharing:manage')
+], async (req: VehicleRequest, res: Response) => {
+  const vehicle = req.vehicle!;
+  try {
+    const result = await VehicleSharingService.invite(
+      vehicle.id,
+      { userId: req.user!.userId, role: req.vehicleRole! },
+      req.body.email,
+      req.body.role
+    );
+    if (!result.ok) {
+      const { status, error } = SHARE_ERRORS[result.reason];
+      return res.status(status).json({ error });
+    }
+
+    const inviter = await prisma.user.findUnique({ where: { id: req.user!.userId } });
+    await EmailService.sendVehicleShareInvitationEmail(req.body.email, {
+      vehicle: `${vehicle.vehicleName} ${vehicle.model} (${vehicle.licensePlate})`,
+      role: ROLE_LABELS[req.body.role as ShareRole],
+      invitedBy: inviter?.name || inviter?.email || 'A MotorTrace user',
+      acceptLink: `${FRONTEND_URL}/vehicle-shares/accept?token=${encodeURIComponent(result.token)}`,
+      expiresInDays: result.expiresInDays,
+    });
+
+    res.status(201).json({ message: 'Invitation sent' });
+  } catch (err) {
+    console.error('Invite to vehicle error:', err);
+    res.status(500).json({ error: 'Failed to send invitation' });
+  }
+});
+
+// DELETE /vehicles/:userId/vehicles/:vehicleId/sharing/invitations/:invitationId
+// Cancel a pending invitation
+router.delete('/vehicles/:userId/vehicles/:vehicleId/sharing/invitations/:invitationId', [
+  param('userId').isInt(),
+  param('vehicleId').isInt(),
+  param('invitationId').isInt(),
+  handleValidationErrors,
+  authenticateToken,
+  requireVehiclePermission('sharing:manage')
+], async (req: VehicleRequest, res: Response) => {
+  try {
+    const result = await VehicleSharingService.revokeInvitation(
+      req.vehicle!.id,
+      Number(req.params.invitationId),
+      req.vehicleRole!
+    );
+    if (!result.ok) {
+      const { status, error } = result.reason === 'not_found'
+        ? { status: 404, error: 'Invitation not found' }
+        : SHARE_ERRORS[result.reason];
+      return res.status(status).json({ error });
+    }
+    res.status(204).end();
+  } catch (err) {
+    console.error('Revoke vehicle invitation error:', err);
+    res.status(500).json({ error: 'Failed to cancel invitation' });
+  }
+});
+
+// PUT /vehicles/:userId/vehicles/:vehicleId/sharing/:memberId
+// Change someone's role
+router.put('/vehicles/:userId/vehicles/:vehicleId/sharing/:memberId', [
+  param('userId').isInt(),
+  param('vehicleId').isInt(),
+  param('memberId').isInt(),
+  body('role').isIn(SHARE_ROLES),
+  handleValidationErrors,
+  authenticateToken,
+  requireVehiclePermission('sharing:manage')
+], async (req: VehicleRequest, res: Response) => {
+  try {
+    const result = await VehicleSharingService.changeRole(
+      req.vehicle!.id,
+      { userId: req.user!.userId, role: req.vehicleRole! },
+      Number(req.params.memberId),
+      req.body.role
+    );
+    if (!result.ok) {
+      const { status, error } = SHARE_ERRORS[result.reason];
+      return res.status(status).json({ error });
+    }
+    res.json({ message: 'Role updated', role: req.body.role });
+  } catch (err) {
+    console.error('Change vehicle role error:', err);
+    res.status(500).json({ error: 'Failed to change role' });
+  }
+});
+
+// DELETE /vehicles/:userId/vehicles/:vehicleId/sharing/:memberId
+// Remove someone's access, or leave a vehicle shared with you (memberId = your own id)
+router.delete('/vehicles/:userId/vehicles/:vehicleId/sharing/:memberId', [
+  param('userId').isInt(),
+  param('vehicleId').isInt(),
+  param('memberId').isInt(),
+  handleValidationErrors,
+  authenticateToken,
+  requireVehiclePermission('vehicle:read')
+], async (req: VehicleRequest, res: Response) => {
+  try {
+    const result = await VehicleSharingService.removeMember(
+      req.vehicle!.id,
+      { userId: req.user!.userId, role: req.vehicleRole! },
+      Number(req.params.memberId)
+    );
+    if (!result.ok) {
+      const { status, error } = SHARE_ERRORS[result.reason];
+      return res.status(status).json({ error });
+    }
+    res.status(204).end();
+  } catch (err) {
+    console.error('Remove vehicle access error:', err);
+    res.status(500).json({ error: 'Failed to remove access' });
+  }
+});
+
+// POST /vehicle-shares/accept
+// Accept an invitation with the token from the email
+router.post('/vehicle-shares/accept', [
+  body('token').isString().notEmpty(),
+  handleValidationErrors,
+  authenticateToken
+], async (req: AuthenticatedRequest, res: Response) => {
+  const userId = req.user?.userId;
+  if (!userId) return res.status(401).json({ error: 'Unauthorized' });
+  try {
+    const user = await prisma.user.findUnique({ where: { id: userId } });
+    if (!user) return res.status(404).json({ error: 'User not found' });
+
+    const result = await VehicleSharingService.acceptInvitation(req.body.token, user);
+    if (!result.ok) {
+      const { status, error } = ACCEPT_ERRORS[result.reason];
+      return res.status(status).json({ error });
+    }
+
+    res.json({ message: 'Invitation accepted', vehicleId: result.vehicleId, role: result.role });
+  } catch (err) {
+    console.error('Accept vehicle invitation error:', err);
+    res.status(500).json({ error: 'Failed to accept invitation' });
+  }
+});
+
+export default router;
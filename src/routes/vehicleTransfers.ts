@@ -0,0 +1,228 @@
+import express from 'express';
+import prisma from '../prisma';
+import { body, param, validationResult } from 'express-validator';
+import { Request, Response, NextFunction } from 'express';
+import { authenticateToken, AuthenticatedRequest } from '../middleware/auth';
+import { requireVehiclePermission, VehicleRequest } from '../middleware/vehicleAccess';
+import { VehicleTransferService, InitiateTransferResult, RespondTransferResult } from '../Services/VehicleTransfer';
+import { EmailService } from '../Services/Email';
+import { AuditLogService } from '../Services/AuditLog';
+
+const router = express.Router();
+
+const FRONTEND_URL = process.env.FRONTEND_URL || 'http://localhost:5173';
+
+function handleValidationErrors(req: Request, res: Response, next: NextFunction) {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    return res.status(400).json({ errors: errors.array() });
+  }
+  next();
+}
+
+const INITIATE_ERRORS: Record<Exclude<InitiateTransferResult, { ok: true }>['reason'], { status: number; error: string }> = {
+  not_found: { status: 404, error: 'Vehicle not found' },
+  self: { status: 400, error: 'You cannot transfer a vehicle to yourself' },
+  not_car_owner: { status: 400, error: 'Vehicles can only be transferred to car owner accounts' },
+};
+
+const RESPOND_ERRORS: Record<Exclude<RespondTransferResult, { ok: true }>['reason'], { status: number; error: string }> = {
+  invalid: { status: 400, error: 'Invalid transfer' },
+  expired: { status: 400, error: 'This transfer has expired. Ask the seller for a new one' },
+  email_mismatch: { status: 403, error: 'This transfer was sent to a different email address' },
+  not_car_owner: { status: 403, error: 'Only car owners can receive vehicles' },
+};
+
+const describeVehicle = (vehicle: { vehicleName: string; model: string; licensePlate: string }) => {
+  return `${vehicle.vehicleName} ${vehicle.model} (${vehicle.licensePlate})`;
+};
+
+// GET /vehicles/:userId/vehicles/:vehicleId/transfer
+// The pending transfer offer, if any
+router.get('/vehicles/:userId/vehicles/:vehicleId/transfer', [
+  param('userId').isInt(),
+  param('vehicleId').isInt(),
+  handleValidationErrors,
+  authenticateToken,
+  requireVehiclePermission('ownership:transfer')
+], async (req: VehicleRequest, res: Response) => {
+  try {
+    const vehicle = req.vehicle!;
+
+    const transfer = await VehicleTransferService.getPending(vehicle.id);
+    res.json({ transfer });
+  } catch (err) {
+    console.error('Get vehicle transfer error:', err);
+    res.status(500).json({ error: 'Failed to fetch transfer' });
+  }
+});
+
+// POST /vehicles/:userId/vehicles/:vehicleId/transfer
+// Offer the vehicle to a buyer by email; ownership moves when they accept
+router.post('/vehicles/:userId/vehicles/:vehicleId/transfer', [
+  param('userId').isInt(),
+  param('vehicleId').isInt(),
+  body('email').isEmail(),
+  body('includeHistory').optional().isBoolean().toBoolean(),
+  handleValidationErrors,
+  authenticateToken,
+  requireVehiclePermission('ownership:transfer')
+], async (req: VehicleRequest, res: Response) => {
+  const userId = Number(req.params.userId);
+  const includeHistory = req.body.includeHistory !== false;
+  try {
+    const result = await VehicleTransferService.initiate(Number(req.params.vehicleId), userId, req.body.email, includeHistory);
+    if (!result.ok) {
+      const { status, error } = INITIATE_ERRORS[result.reason];
+      return res.status(status).json({ error });
+    }
+
+    const vehicle = await prisma.vehicle.findUnique({ where: { id: Number(req.params.vehicleId) }, include: { user: true } });
+    await EmailService.sendVehicleTransferOfferEmail(req.body.email, {
+      vehicle: describeVehicle(vehicle!),
+      from: vehicle!.user.name || vehicle!.user.email,
+      includeHistory,
+      acceptLink: `${FRONTEND_URL}/vehicle-transfers/accept?token=${encodeURIComponent(result.token)}`,
+      expiresInDays: result.expiresInDays,
+    });
+
+    await AuditLogService.record({
+      actorId: userId,
+      action: 'vehicle.transfer_initiated',
+      entityType: 'vehicle',
+      entityId: vehicle!.id,
+      metadata: { transferId: result.transferId, includeHistory }
+    }, req);
+
+    res.status(201).json({ message: 'Transfer offer sent', expiresInDays: result.expiresInDays });
+  } catch (err) {
+    console.error('Initiate vehicle transfer error:', err);
+    res.status(500).json({ error: 'Failed to start transfer' });
+  }
+});
+
+// DELETE /vehicles/:userId/vehicles/:vehicleId/transfer
+// Withdraw the pending offer
+router.delete('/vehicles/:userId/vehicles/:vehicleId/transfer', [
+  param('userId').isInt(),
+  param('vehicleId').isInt(),
+  handleValidationErrors,
+  authenticateToken,
+  requireVehiclePermission('ownership:transfer')
+], async (req: VehicleRequest, res: Response) => {
+  try {
+    const vehicle = req.vehicle!;
+
+    const cancelled = await VehicleTransferService.cancel(vehicle.id);
+    if (!cancelled) return res.status(404).json({ error: 'No pending transfer' });
+
+    await EmailService.sendVehicleTransferUpdateEmail(cancelled.toEmail, {
+      vehicle: describeVehicle(vehicle),
+      outcome: 'cancelled',
+    }).catch(error => console.error('Vehicle transfer email error:', error));
+
+    res.status(204).end();
+  } catch (err) {
+    console.error('Cancel vehicle transfer error:', err);
+    res.status(500).json({ error: 'Failed to cancel transfer' });
+  }
+});
+
+// GET /vehicles/:userId/vehicles/:vehicleId/owners
+// Ownership periods of the vehicle
+router.get('/vehicles/:userId/vehicles/:vehicleId/owners', [
+  param('userId').isInt(),
+  param('vehicleId').isInt(),
+  handleValidationErrors,
+  authenticateToken,
+  requireVehiclePermission('vehicle:read')
+], async (req: VehicleRequest, res: Response) => {
+  try {
+    const vehicle = req.vehicle!;
+
+    const owners = await VehicleTransferService.ownershipHistory(vehicle.id, vehicle.userId);
+    res.json({ owners });
+  } catch (err) {
+    console.error('Get vehicle owners error:', err);
+    res.status(500).json({ error: 'Failed to fetch ownership history' });
+  }
+});
+
+// POST /vehicle-transfers/accept
+// Accept an offer with the token from the email
+router.post('/vehicle-transfers/accept', [
+  body('token').isString().notEmpty(),
+  handleValidationErrors,
+  authenticateToken
+], async (req: AuthenticatedRequest, res: Response) => {
+  const userId = req.user?.userId;
+  if (!userId) return res.status(401).json({ error: 'Unauthorized' });
+  try {
+    const user = await prisma.user.findUnique({ where: { id: userId } });
+    if (!user) return res.status(404).json({ error: 'User not found' });
+
+    const result = await VehicleTransferService.accept(req.body.token, user);
+    if (!result.ok) {
+      const { status, error } = RESPOND_ERRORS[result.reason];
+      return res.status(status).json({ error });
+    }
+
+    const vehicle = await prisma.vehicle.findUnique({ where: { id: result.vehicleId } });
+    const seller = await prisma.user.findUnique({ where: { id: result.fromUserId } });
+
+    await AuditLogService.record({
+      actorId: userId,
+      action: 'vehicle.transferred',
+      entityType: 'vehicle',
+      entityId: result.vehicleId,
+      metadata: { fromUserId: result.fromUserId, includeHistory: result.includeHistory }
+    }, req);
+
+    if (seller && vehicle) {
+      await EmailService.sendVehicleTransferUpdateEmail(seller.email, {
+        vehicle: describeVehicle(vehicle),
+        outcome: 'accepted',
+      }).catch(error => console.error('Vehicle transfer email error:', error));
+    }
+
+    res.json({ message: 'Vehicle transferred to your account', vehicle });
+  } catch (err) {
+    console.error('Accept vehicle transfer error:', err);
+    res.status(500).json({ error: 'Failed to accept transfer' });
+  }
+});
+
+// POST /vehicle-transfers/decline
+router.post('/vehicle-transfers/decline', [
+  body('token').isString().notEmpty(),
+  handleValidationErrors,
+  authenticateToken
+], async (req: AuthenticatedRequest, res: Response) => {
+  const userId = req.user?.userId;
+  if (!userId) return res.status(401).json({ error: 'Unauthorized' });
+  try {
+    const user = await prisma.user.findUnique({ where: { id: userId } });
+    if (!user) return res.status(404).json({ error: 'User not found' });
+
+    const result = await VehicleTransferService.decline(req.body.token, user);
+    if (!result.ok) {
+      const { status, error } = RESPOND_ERRORS[result.reason];
+      return res.status(status).json({ error });
+    }
+
+    const vehicle = await prisma.vehicle.findUnique({ where: { id: result.vehicleId }, include: { user: true } });
+    if (vehicle) {
+      await EmailService.sendVehicleTransferUpdateEmail(vehicle.user.email, {
+        vehicle: describeVehicle(vehicle),
+        outcome: 'declined',
+      }).catch(error => console.error('Vehicle transfer email error:', error));
+    }
+
+    res.json({ message: 'Transfer declined' });
+  } catch (err) {
+    console.error('Decline vehicle transfer error:', err);
+    res.status(500).json({ error: 'Failed to decline transfer' });
+  }
+});
+
+export default router;
@@ -2,9 +2,67 @@ import { Router, Response } from 'express'
 import prisma from '../prisma';
 import { authenticateToken, AuthenticatedRequest } from '../middleware/auth'
 import { validateVehicleData } from '../utils/validation'
+import { decodeVin, crossCheckVin, VinDecodeResult } from '../utils/vin'
+import { OdometerService } from '../Services/Odometer'
+import { MaintenanceService } from '../Services/Maintenance'
+import { VehicleTransferService } from '../Services/VehicleTransfer'
+import { isVehicleType, VEHICLE_TYPES } from '../utils/maintenanceTemplates'
+import { ImageUploadService, IMAGE_ERRORS, ProcessedImage, StoredImage } from '../Services/ImageUpload'
+import { singleImage } from '../middleware/upload'
+import { requireVehiclePermission, VehicleRequest } from '../middleware/vehicleAccess'
+import { VehicleSharingService } from '../Services/VehicleSharing'
 
 const router = Router()
 
+// Highest plausible odometer value in km
+const MAX_ODOMETER = 2000000
+
+// Helper function to parse an odometer reading from a request body
+const parseReading = (value: unknown, recordedAt: unknown): { value: number; recordedAt: Date } | { error: string } => {
+  const km = Number(value)
+  if (value === undefined || value === null || value === '' || !Number.isInteger(km) || km < 0 || km > MAX_ODOMETER) {
+    return { error: 'Odometer value must be a whole number of kilometres' }
+  }
+  const date = recordedAt ? new Date(String(recordedAt)) : new Date()
+  if (isNaN(date.getTime())) {
+    return { error: 'Invalid reading date' }
+  }
+  // Allow for clock and time zone differences, but not readings from the future
+  if (date.getTime() > Date.now() + 24 * 60 * 60 * 1000) {
+    return { error: 'Reading date cannot be in the future' }
+  }
+  return { value: km, recordedAt: date }
+}
+
+type VinCheck =
+  | { ok: true; decoded: VinDecodeResult; warnings: string[] }
+  | { ok: false; error: string; decoded: VinDecodeResult }
+
+// Helper function to validate a VIN against the make/year entered and make sure no other vehicle uses it
+const checkVin = async (vin: string, entered: { make?: string; year?: number }, vehicleId?: number): Promise<VinCheck> => {
+  const decoded = decodeVin(vin)
+  if (!decoded.valid) {
+    return { ok: false, error: decoded.errors.join(', ') || 'VIN must be 17 characters long', decoded }
+  }
+
+  const { errors, warnings } = crossCheckVin(decoded, entered)
+  if (errors.length > 0) {
+    return { ok: false, error: errors.join(', '), decoded }
+  }
+
+  const existing = await prisma.vehicle.findUnique({ where: { vin: decoded.vin } })
+  if (existing && existing.id !== vehicleId) {
+    return { ok: false, error: 'Vehicle with this VIN already exists', decoded }
+  }
+
+  return { ok: true, decoded, warnings: [...decoded.warnings, ...warnings] }
+}
+
+// Decode a full or partial VIN, e.g. while the user is still typing it
+router.get('/vin/:vin', authenticateToken, (req: AuthenticatedRequest, res: Response) => {
+  res.json(decodeVin(req.params.vin))
+})
+
 // Add vehicle
 router.post('/:userId/vehicles', authenticateToken, async (req: AuthenticatedRequest, res: Response) => {
   try {
@@ -26,40 +84,100 @@ router.post('/:userId/vehicles', authenticateToken, async (req: AuthenticatedReq
       year,
       licensePlate,
       color,
-      image
+      image,
+      vin,
+      odometer,
+      vehicleType
     } = req.body;
 
+    if (vehicleType !== undefined && !isVehicleType(vehicleType)) {
+      return res.status(400).json({ error: `Vehicle type must be one of: ${VEHICLE_TYPES.join(', ')}` });
+    }
+
+    // A VIN fills in the make and year when they were left blank, and must agree with them otherwise
+    let make = vehicleName;
+    let modelYear = year ? parseInt(year) : undefined;
+    let vinCheck: VinCheck | undefined;
+    if (vin) {
+      vinCheck = await checkVin(String(vin), { make, year: modelYear });
+      if (!vinCheck.ok) {
+        return res.status(400).json({ error: vinCheck.error, vinDetails: vinCheck.decoded });
+      }
+      make = make || vinCheck.decoded.manufacturer?.make;
+      modelYear = modelYear || vinCheck.decoded.modelYear || undefined;
+    }
+
     // Validate required fields
-    if (!vehicleName || !model || !year || !licensePlate) {
+    if (!make || !model || !modelYear || !licensePlate) {
       return res.status(400).json({ error: 'Missing required fields' });
     }
 
+    const initialReading = odometer !== undefined && odometer !== null && odometer !== '' ? parseReading(odometer, undefined) : null;
+    if (initialReading && 'error' in initialReading) {
+      return res.status(400).json({ error: initialReading.error });
+    }
+
     // Check if license plate already exists
     const existingVehicle = await prisma.vehicle.findUnique({
       where: { licensePlate }
     });
     if (existingVehicle) {
-      return res.status(400).json({ error: 'Vehicle with this license plate already exists' });
+      return res.status(400).json({ error: 'Vehicle with this license plate already exists. If you bought it, ask the previous owner to transfer it to you' });
+    }
+
+    // Older clients send the photo inline as base64. It is checked here but only
+    // written once the vehicle exists, so a rejected request leaves no files behind.
+    let processedImage: ProcessedImage | undefined;
+    if (image) {
+      const processed = await ImageUploadService.processBase64('vehicle', String(image));
+      if (!processed.ok) {
+        const { status, error } = IMAGE_ERRORS[processed.reason];
+        return res.status(status).json({ error });
+      }
+      processedImage = processed.image;
     }
 
-    // Only allow vehicleType 'car' for this onboarding
     const finalColor = color || 'white';
 
-    const vehicle = await prisma.vehicle.create({
+    let vehicle = await prisma.vehicle.create({
       data: {
         userId: parseInt(userId),
-        vehicleName,
+        vehicleName: make,
         model,
-        year: parseInt(year),
+        year: modelYear,
         licensePlate,
+        vin: vinCheck?.decoded.vin,
         color: finalColor,
-        // Optionally store image if you add an image field to Vehicle model
+        vehicleType: vehicleType || 'car',
       }
     });
 
+    if (processedImage) {
+      let storedImage: StoredImage | undefined;
+      try {
+        storedImage = await ImageUploadService.save('vehicle', vehicle.id, processedImage);
+        vehicle = await prisma.vehicle.update({
+          where: { id: vehicle.id },
+          data: { image: storedImage.url, imageThumbnail: storedImage.thumbnailUrl }
+        });
+      } catch (error) {
+        // Leave neither a vehicle without its photo nor a photo without its vehicle
+        await ImageUploadService.remove('vehicle', vehicle.id, storedImage?.url, storedImage?.thumbnailUrl);
+        await prisma.vehicle.delete({ where: { id: vehicle.id } });
+        throw error;
+      }
+    }
+
+    await VehicleTransferService.recordInitialOwner(vehicle.id, authenticatedUserId);
+    if (initialReading) {
+      await OdometerService.add(vehicle.id, { ...initialReading, source: 'owner', createdById: authenticatedUserId });
+    }
+    await MaintenanceService.refreshStatus(vehicle.id);
+
     res.json({
       message: 'Vehicle added successfully',
-      vehicle
+      vehicle,
+      ...(vinCheck?.ok && { vinDetails: vinCheck.decoded, warnings: vinCheck.warnings })
     });
   } catch (error) {
     console.error('Add vehicle error:', error);
@@ -85,24 +203,11 @@ router.get('/:userId/vehicles', authenticateToken, async (req: AuthenticatedRequ
 })
 
 // Get specific vehicle for a user
-router.get('/:userId/vehicles/:vehicleId', authenticateToken, async (req: AuthenticatedRequest, res: Response) => {
+router.get('/:userId/vehicles/:vehicleId', authenticateToken, requireVehiclePermission('vehicle:read'), async (req: VehicleRequest, res: Response) => {
   try {
-    const { userId, vehicleId } = req.params;
-    const authenticatedUserId = req.user?.userId;
-    if (!authenticatedUserId || authenticatedUserId !== parseInt(userId)) {
-      return res.status(403).json({ error: 'Unauthorized' });
-    }
-    const vehicle = await prisma.vehicle.findFirst({
-      where: {
-        id: parseInt(vehicleId),
-        userId: parseInt(userId),
-      },
-    });
-    console.log('Route hit for userId:', userId, 'vehicleId:', vehicleId);
-    if (!vehicle) {
-      return res.status(404).json({ error: 'Vehicle not found' });
-    }
-    res.json({ vehicle });
+    const vehicle = req.vehicle!;
+    const mileage = await OdometerService.projection(vehicle.id);
+    res.json({ vehicle, mileage, role: req.vehicleRole });
   } catch (error) {
     console.error('Get vehicle error:', error);
     res.status(500).json({ error: 'Failed to get vehicle' });
@@ -110,15 +215,9 @@ router.get('/:userId/vehicles/:vehicleId', authenticateToken, async (req: Authen
 });
 
 // Update vehicle
-router.put('/:userId/vehicles/:vehicleId', authenticateToken, async (req: AuthenticatedRequest, res: Response) => {
+router.put('/:userId/vehicles/:vehicleId', authenticateToken, requireVehiclePermission('vehicle:update'), async (req: VehicleRequest, res: Response) => {
   try {
-    const { userId, vehicleId } = req.params
     const { vehicleData } = req.body
-    const authenticatedUserId = req.user?.userId
-
-    if (!authenticatedUserId || authenticatedUserId !== parseInt(userId)) {
-      return res.status(403).json({ error: 'Unauthorized' })
-    }
 
     // Validate vehicle data
     const validation = validateVehicleData(vehicleData)
@@ -126,20 +225,37 @@ router.put('/:userId/vehicles/:vehicleId', authenticateToken, async (req: Authen
       return res.status(400).json({ error: validation.errors.join(', ') })
     }
 
+    // An empty VIN clears it; leaving it out keeps the current one
+    let vin: string | null | undefined
+    if (vehicleData.vin) {
+      const vinCheck = await checkVin(String(vehicleData.vin), {
+        make: vehicleData.vehicleName,
+        year: parseInt(vehicleData.year)
+      }, req.vehicle!.id)
+      if (!vinCheck.ok) {
+        return res.status(400).json({ error: vinCheck.error, vinDetails: vinCheck.decoded })
+      }
+      vin = vinCheck.decoded.vin
+    } else if (vehicleData.vin !== undefined) {
+      vin = null
+    }
+
     const vehicle = await prisma.vehicle.update({
-      where: { 
-        id: parseInt(vehicleId),
-        userId: parseInt(userId) // Ensure user owns the vehicle
-      },
+      where: { id: req.vehicle!.id },
       data: {
         vehicleName: vehicleData.vehicleName,
         model: vehicleData.model,
         year: vehicleData.year,
         licensePlate: vehicleData.licensePlate,
+        vin,
         color: vehicleData.color,
-        isPrimary: vehicleData.isPrimary,
+        vehicleType: vehicleData.vehicleType,
+        // Primary is the owner's own choice among their vehicles
+        ...(req.vehicleRole === 'owner' && { isPrimary: vehicleData.isPrimary }),
       }
     })
+    // A different vehicle type means a different default schedule
+    await MaintenanceService.refreshStatus(vehicle.id)
 
     res.json({ 
       message: 'Vehicle updated successfully', 
@@ -152,21 +268,12 @@ router.put('/:userId/vehicles/:vehicleId', authenticateToken, async (req: Authen
 })
 
 // Delete vehicle
-router.delete('/:userId/vehicles/:vehicleId', authenticateToken, async (req: AuthenticatedRequest, res: Response) => {
+router.delete('/:userId/vehicles/:vehicleId', authenticateToken, requireVehiclePermission('vehicle:delete'), async (req: VehicleRequest, res: Response) => {
   try {
-    const { userId, vehicleId } = req.params
-    const authenticatedUserId = req.user?.userId
-
-    if (!authenticatedUserId || authenticatedUserId !== parseInt(userId)) {
-      return res.status(403).json({ error: 'Unauthorized' })
-    }
-
-    await prisma.vehicle.delete({
-      where: { 
-        id: parseInt(vehicleId),
-        userId: parseInt(userId) // Ensure user owns the vehicle
-      }
+    const vehicle = await prisma.vehicle.delete({
+      where: { id: req.vehicle!.id }
     })
+    await ImageUploadService.remove('vehicle', vehicle.id, vehicle.image, vehicle.imageThumbnail)
 
     res.json({ message: 'Vehicle deleted successfully' })
   } catch (error) {
@@ -175,6 +282,48 @@ router.delete('/:userId/vehicles/:vehicleId', authenticateToken, async (req: Aut
   }
 })
 
+// Upload or replace the vehicle photo (multipart, field "image")
+router.post('/:userId/vehicles/:vehicleId/image', authenticateToken, requireVehiclePermission('vehicle:update'), singleImage('image'), async (req: VehicleRequest, res: Response) => {
+  try {
+    const vehicle = req.vehicle!
+
+    const upload = await ImageUploadService.store('vehicle', vehicle.id, req.file!.buffer)
+    if (!upload.ok) {
+      const { status, error } = IMAGE_ERRORS[upload.reason]
+      return res.status(status).json({ error })
+    }
+
+    const updated = await prisma.vehicle.update({
+      where: { id: vehicle.id },
+      data: { image: upload.image.url, imageThumbnail: upload.image.thumbnailUrl }
+    })
+    await ImageUploadService.remove('vehicle', vehicle.id, vehicle.image, vehicle.imageThumbnail)
+
+    res.json({ message: 'Vehicle photo updated successfully', vehicle: updated })
+  } catch (error) {
+    console.error('Upload vehicle image error:', error)
+    res.status(500).json({ error: 'Failed to upload vehicle photo' })
+  }
+})
+
+// Remove the vehicle photo
+router.delete('/:userId/vehicles/:vehicleId/image', authenticateToken, requireVehiclePermission('vehicle:update'), async (req: VehicleRequest, res: Response) => {
+  try {
+    const vehicle = req.vehicle!
+
+    await prisma.vehicle.update({
+      where: { id: vehicle.id },
+      data: { image: null, imageThumbnail: null }
+    })
+    await ImageUploadService.remove('vehicle', vehicle.id, vehicle.image, vehicle.imageThumbnail)
+
+    res.json({ message: 'Vehicle photo removed successfully' })
+  } catch (error) {
+    console.error('Remove vehicle image error:', error)
+    res.status(500).json({ error: 'Failed to remove vehicle photo' })
+  }
+})
+
 // Set primary vehicle
 router.patch('/:userId/vehicles/:vehicleId/primary', authenticateToken, async (req: AuthenticatedRequest, res: Response) => {
   try {
@@ -220,21 +369,34 @@ router.get('/:userId/cars', authenticateToken, async (req: AuthenticatedRequest,
       return res.status(403).json({ error: 'Unauthorized' });
     }
     console.log("User Id is", userId);
-    const vehicles = await prisma.vehicle.findMany({
-      where: { userId: parseInt(userId) },
-      orderBy: { isPrimary: 'desc' }
-    });
+    const [vehicles, shared] = await Promise.all([
+      prisma.vehicle.findMany({
+        where: { userId: parseInt(userId) },
+        orderBy: { isPrimary: 'desc' }
+      }),
+      VehicleSharingService.listSharedWithUser(parseInt(userId))
+    ]);
+    // The user's own vehicles first, then the ones shared with them
+    const entries = [
+      ...vehicles.map(vehicle => ({ vehicle, role: 'owner', owner: null })),
+      ...shared
+    ];
+    const mileage = await OdometerService.projections(entries.map(({ vehicle }) => vehicle.id));
     // Map to summary structure for UI
-    const cars = vehicles.map(car => ({
+    const cars = entries.map(({ vehicle: car, role, owner }) => ({
       id: car.id,
       vehicleName: car.vehicleName,
       model: car.model,
       year: car.year,
       color: car.color,
       image: car.image,
+      imageThumbnail: car.imageThumbnail,
       nickname: car.nickname,
       status: car.status,
       statusText: car.statusText,
+      mileage: mileage.get(car.id),
+      role,
+      sharedBy: owner && { id: owner.id, name: owner.name || owner.email },
       // Add more fields as needed for UI
     }));
     res.json({ cars });
@@ -244,4 +406,115 @@ router.get('/:userId/cars', authenticateToken, async (req: AuthenticatedRequest,
   }
 });
 
+// Get odometer readings and the mileage projection for a vehicle
+router.get('/:userId/vehicles/:vehicleId/odometer', authenticateToken, requireVehiclePermission('vehicle:read'), async (req: VehicleRequest, res: Response) => {
+  try {
+    const vehicle = req.vehicle!
+
+    const [readings, mileage] = await Promise.all([
+      OdometerService.list(vehicle.id),
+      OdometerService.projection(vehicle.id)
+    ])
+    res.json({ readings, mileage })
+  } catch (error) {
+    console.error('Get odometer readings error:', error)
+    res.status(500).json({ error: 'Failed to get odometer readings' })
+  }
+})
+
+// Add an odometer reading
+router.post('/:userId/vehicles/:vehicleId/odometer', authenticateToken, requireVehiclePermission('odometer:write'), async (req: VehicleRequest, res: Response) => {
+  try {
+    const vehicle = req.vehicle!
+
+    const reading = parseReading(req.body.value, req.body.recordedAt)
+    if ('error' in reading) {
+      return res.status(400).json({ error: reading.error })
+    }
+
+    const result = await OdometerService.add(vehicle.id, { ...reading, source: 'owner', createdById: req.user!.userId })
+    if (!result.ok) {
+      return res.status(400).json({
+        error: 'Odometer value is lower than an earlier reading or higher than a later one',
+        previous: result.previous,
+        next: result.next
+      })
+    }
+
+    await MaintenanceService.refreshStatus(vehicle.id)
+    res.status(201).json({ reading: result.reading, mileage: await OdometerService.projection(vehicle.id) })
+  } catch (error) {
+    console.error('Add odometer reading error:', error)
+    res.status(500).json({ error: 'Failed to add odometer reading' })
+  }
+})
+
+// Import readings from another app or a spreadsheet. Out-of-order values are kept but flagged.
+router.post('/:userId/vehicles/:vehicleId/odometer/import', authenticateToken, requireVehiclePermission('odometer:import'), async (req: VehicleRequest, res: Response) => {
+  try {
+    const vehicle = req.vehicle!
+
+    const { readings } = req.body
+    if (!Array.isArray(readings) || readings.length === 0 || readings.length > 1000) {
+      return res.status(400).json({ error: 'readings must be a list of 1 to 1000 entries' })
+    }
+
+    const parsed = []
+    for (const [index, entry] of readings.entries()) {
+      if (!entry?.recordedAt) {
+        return res.status(400).json({ error: `Reading ${index + 1}: a date is required` })
+      }
+      const reading = parseReading(entry.value, entry.recordedAt)
+      if ('error' in reading) {
+        return res.status(400).json({ error: `Reading ${index + 1}: ${reading.error}` })
+      }
+      parsed.push(reading)
+    }
+
+    // Oldest first, so each reading is checked against the ones before it
+    parsed.sort((a, b) => a.recordedAt.getTime() - b.recordedAt.getTime())
+    let flagged = 0
+    for (const reading of parsed) {
+      const result = await OdometerService.add(vehicle.id, { ...reading, source: 'import', createdById: req.user!.userId })
+      if (result.ok && result.reading.flagged) flagged++
+    }
+    await MaintenanceService.refreshStatus(vehicle.id)
+
+    res.status(201).json({
+      imported: parsed.length,
+      flagged,
+      mileage: await OdometerService.projection(vehicle.id)
+    })
+  } catch (error) {
+    console.error('Import odometer readings error:', error)
+    res.status(500).json({ error: 'Failed to import odometer readings' })
+  }
+})
+
+// Delete an odometer reading the owner entered or imported
+router.delete('/:userId/vehicles/:vehicleId/odometer/:readingId', authenticateToken, requireVehiclePermission('odometer:delete'), async (req: VehicleRequest, res: Response) => {
+  try {
+    const { readingId } = req.params
+    const vehicle = req.vehicle!
+
+    const result = await OdometerService.remove(vehicle.id, parseInt(readingId))
+    if (!result.ok) {
+      if (result.reason === 'not_found') return res.status(404).json({ error: 'Reading not found' })
+      if (result.reason === 'service_record') {
+        return res.status(409).json({ error: 'This reading belongs to a service record. Edit the record instead' })
+      }
+      if (result.reason === 'fuel_entry') {
+        return res.status(409).json({ error: 'This reading belongs to a fill-up. Edit the fuel log instead' })
+      }
+      return res.status(403).json({ error: 'Readings recorded by a service center cannot be deleted' })
+    }
+
+    await MaintenanceService.refreshStatus(vehicle.id)
+    res.json({ message: 'Reading deleted successfully' })
+  } catch (error) {
+    console.error('Delete odometer reading error:', error)
+    res.status(500).json({ error: 'Failed to delete odometer reading' })
+  }
+})
+
 export default router 
\ No newline at end of file
@@ -5,6 +5,7 @@ export interface AuthenticatedRequest extends express.Request {
   user?: {
     userId: number
     role: string
+    sessionId?: string
     isRegistrationComplete?: boolean
     isSetupComplete?: boolean
     hasActiveSubscription?: boolean
@@ -12,6 +13,8 @@ export interface AuthenticatedRequest extends express.Request {
 }
 
 // User types
+export type Role = 'car_owner' | 'service_center' | 'part_seller' | 'admin'
+
 export interface UserResponse {
   id: number
   email: string
@@ -42,6 +45,7 @@ export interface CompleteRegistrationData {
 // Setup flow types
 export interface SetupStatus {
   isRegistrationComplete: boolean
+  isEmailVerified: boolean
   isSetupComplete: boolean
   hasActiveSubscription: boolean
   missingSteps: string[]
@@ -60,6 +64,7 @@ export interface VehicleData {
   model: string
   year: number
   licensePlate: string
+  vin?: string | null
   color: string
   vehicleType: string
   isPrimary?: boolean
@@ -72,7 +77,7 @@ export interface BusinessDetails {
   businessRegistrationNumber: string
   servicesOffered: string[]
   operatingHours: Record<string, string>
-  logo?: string
+  logo?: string // http(s) URL; uploaded logos go through POST /service-centers/:centerId/logo
 }
 
 export interface ShopDetails {
@@ -99,6 +104,7 @@ export interface ApiResponse<T = any> {
 export interface AuthResponse {
   message: string
   token: string
+  refreshToken: string
   user: UserResponse
   setupStatus?: SetupStatus
   requiresSetup?: boolean
@@ -107,5 +113,5 @@ export interface AuthResponse {
 export interface OnboardingRequest {
   name: string;
   contact: string;
-  profileImage: string; // base64 string or image URL, as expected by your backend
+  profileImage?: string; // base64 string (stored through ImageUploadService) or an http(s) image URL
 } 
\ No newline at end of file
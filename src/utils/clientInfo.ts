@@ -0,0 +1,80 @@
+import { Request } from 'express'
+
+export interface ClientInfo {
+  ip: string | undefined
+  userAgent: string | undefined
+  clientType: string | undefined
+  deviceId: string | undefined // device token handed out at a previous sign-in
+  browser: string
+  os: string
+  deviceType: 'mobile' | 'tablet' | 'desktop' | 'unknown'
+  label: string
+}
+
+// Client IP as seen through any trusted proxies (see TRUST_PROXY in index.ts)
+export const getClientIp = (req: Request): string | undefined => {
+  const ip = req.ip || req.socket?.remoteAddress
+  if (!ip) return undefined
+  // Express reports IPv4 clients on dual-stack sockets as IPv4-mapped IPv6
+  return ip.startsWith('::ffff:') ? ip.slice(7) : ip
+}
+
+const detectBrowser = (ua: string): string => {
+  if (/Edg\//.test(ua)) return 'Edge'
+  if (/OPR\/|Opera/.test(ua)) return 'Opera'
+  if (/SamsungBrowser\//.test(ua)) return 'Samsung Internet'
+  if (/Firefox\//.test(ua)) return 'Firefox'
+  if (/Chrome\/|CriOS\//.test(ua)) return 'Chrome'
+  if (/Safari\//.test(ua) && /Version\//.test(ua)) return 'Safari'
+  if (/okhttp\//i.test(ua)) return 'Android app'
+  if (/Expo|CFNetwork\//.test(ua)) return 'iOS app'
+  return 'Unknown browser'
+}
+
+const detectOs = (ua: string): string => {
+  const android = ua.match(/Android ([\d.]+)/)
+  if (android) return `Android ${android[1]}`
+  const ios = ua.match(/(?:iPhone|iPad|iPod).*? OS ([\d_]+)/)
+  if (ios) return `iOS ${ios[1].replace(/_/g, '.')}`
+  if (/Windows NT 10/.test(ua)) return 'Windows 10/11'
+  if (/Windows/.test(ua)) return 'Windows'
+  if (/Mac OS X/.test(ua)) return 'macOS'
+  if (/CrOS/.test(ua)) return 'ChromeOS'
+  if (/Linux/.test(ua)) return 'Linux'
+  return 'Unknown OS'
+}
+
+const detectDeviceType = (ua: string, clientType?: string): ClientInfo['deviceType'] => {
+  if (/iPad|Tablet/.test(ua) || (/Android/.test(ua) && !/Mobile/.test(ua) && clientType !== 'mobile')) return 'tablet'
+  if (clientType === 'mobile' || /Mobi|iPhone|Android/.test(ua)) return 'mobile'
+  if (/Windows|Mac OS X|Linux|CrOS/.test(ua)) return 'desktop'
+  return 'unknown'
+}
+
+// Derive a human readable description of the calling device
+export const getClientInfo = (req: Request): ClientInfo => {
+  const userAgent = req.headers['user-agent']
+  const clientTypeHeader = req.headers['x-client-type']
+  const clientType = Array.isArray(clientTypeHeader) ? clientTypeHeader[0] : clientTypeHeader
+  const deviceIdHeader = req.headers['x-device-id']
+  const deviceId = Array.isArray(deviceIdHeader) ? deviceIdHeader[0] : deviceIdHeader
+  const ua = userAgent || ''
+
+  const browser = detectBrowser(ua)
+  const os = detectOs(ua)
+  const deviceType = detectDeviceType(ua, clientType)
+  const label = clientType === 'mobile'
+    ? `MotorTrace app on ${os}`
+    : `${browser} on ${os}`
+
+  return {
+    ip: getClientIp(req),
+    userAgent,
+    clientType,
+    deviceId: deviceId ? deviceId.slice(0, 128) : undefined,
+    browser,
+    os,
+    deviceType,
+    label,
+  }
+}
@@ -0,0 +1,27 @@
+// RFC 4180 CSV. Nested objects and arrays are written as JSON in a single cell.
+
+const formatCell = (value: unknown): string => {
+  if (value === null || value === undefined) return ''
+
+  let text: string
+  if (value instanceof Date) text = value.toISOString()
+  else if (typeof value === 'object') text = JSON.stringify(value)
+  else text = String(value)
+
+  // Spreadsheet apps execute text cells starting with these as formulas
+  if (typeof value === 'string' && /^[=+\-@\t\r]/.test(text)) text = `'${text}`
+
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text
+}
+
+// Columns default to every key seen across the rows, in first-seen order
+export const toCsv = (rows: Record<string, unknown>[], columns?: string[]): string => {
+  const header = columns || Array.from(new Set(rows.flatMap(row => Object.keys(row))))
+  const lines = [header.map(formatCell).join(',')]
+
+  for (const row of rows) {
+    lines.push(header.map(column => formatCell(row[column])).join(','))
+  }
+
+  return lines.join('\r\n') + '\r\n'
+}
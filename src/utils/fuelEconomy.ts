@@ -0,0 +1,147 @@
+// Fuel economy from a vehicle's fill-ups, using the full-to-full method: the fuel
+// put in since the last full tank (partial fills included) is what was burnt over
+// the distance driven since then. A fill-up after one that was never logged breaks
+// the chain, so that stretch is left out rather than overstating the economy.
+
+export interface FuelFill {
+  id: number
+  filledAt: Date
+  odometer: number
+  litres: number
+  totalCost: number
+  isFullTank: boolean
+  missedPrevious: boolean
+}
+
+export interface FuelSegment {
+  fromEntryId: number
+  toEntryId: number
+  from: Date
+  to: Date
+  distance: number
+  litres: number
+  cost: number
+  kmPerLitre: number
+  costPerKm: number
+}
+
+export interface FuelMonth {
+  month: string // YYYY-MM
+  fills: number
+  litres: number
+  cost: number
+  distance: number
+  kmPerLitre: number | null
+}
+
+export interface FuelStatistics {
+  fills: number
+  totalLitres: number
+  totalCost: number
+  distanceLogged: number
+  averageKmPerLitre: number | null
+  averageCostPerKm: number | null
+  lastKmPerLitre: number | null
+  segments: FuelSegment[]
+  monthly: FuelMonth[]
+}
+
+const round = (value: number, places: number) => Math.round(value * 10 ** places) / 10 ** places
+
+const monthOf = (date: Date) => date.toISOString().slice(0, 7)
+
+// Same-day fills are ordered by odometer, which is what actually happened
+const chronological = (fills: FuelFill[]) => {
+  return [...fills].sort((a, b) => a.filledAt.getTime() - b.filledAt.getTime() || a.odometer - b.odometer || a.id - b.id)
+}
+
+export const fuelSegments = (fills: FuelFill[]): FuelSegment[] => {
+  const segments: FuelSegment[] = []
+  let lastFull: FuelFill | null = null
+  let litres = 0
+  let cost = 0
+  let broken = false
+
+  for (const fill of chronological(fills)) {
+    if (fill.missedPrevious) broken = true
+    litres += fill.litres
+    cost += fill.totalCost
+    if (!fill.isFullTank) continue
+
+    const distance = lastFull ? fill.odometer - lastFull.odometer : 0
+    if (lastFull && !broken && distance > 0 && litres > 0) {
+      segments.push({
+        fromEntryId: lastFull.id,
+        toEntryId: fill.id,
+        from: lastFull.filledAt,
+        to: fill.filledAt,
+        distance,
+        litres: round(litres, 2),
+        cost: round(cost, 2),
+        kmPerLitre: round(distance / litres, 2),
+        costPerKm: round(cost / distance, 2),
+      })
+    }
+
+    // This full tank is the starting point for the next segment
+    lastFull = fill
+    litres = 0
+    cost = 0
+    broken = false
+  }
+  return segments
+}
+
+// A segment counts towards the range it ends in, so economy for the first tank of a
+// range still uses the full tank before it
+export const fuelStatistics = (fills: FuelFill[], range: { from?: Date; to?: Date } = {}): FuelStatistics => {
+  const inRange = (date: Date) => (!range.from || date >= range.from) && (!range.to || date <= range.to)
+  const ordered = chronological(fills).filter(fill => inRange(fill.filledAt))
+  const segments = fuelSegments(fills).filter(segment => inRange(segment.to))
+
+  const totalLitres = ordered.reduce((sum, fill) => sum + fill.litres, 0)
+  const totalCost = ordered.reduce((sum, fill) => sum + fill.totalCost, 0)
+  const segmentDistance = segments.reduce((sum, segment) => sum + segment.distance, 0)
+  const segmentLitres = segments.reduce((sum, segment) => sum + segment.litres, 0)
+  const segmentCost = segments.reduce((sum, segment) => sum + segment.cost, 0)
+
+  // Spend is counted in the month of the fill; economy in the month its segment ended
+  const months = new Map<string, FuelMonth & { segmentLitres: number }>()
+  const monthFor = (date: Date) => {
+    const key = monthOf(date)
+    if (!months.has(key)) months.set(key, { month: key, fills: 0, litres: 0, cost: 0, distance: 0, kmPerLitre: null, segmentLitres: 0 })
+    return months.get(key)!
+  }
+  for (const fill of ordered) {
+    const month = monthFor(fill.filledAt)
+    month.fills++
+    month.litres += fill.litres
+    month.cost += fill.totalCost
+  }
+  for (const segment of segments) {
+    const month = monthFor(segment.to)
+    month.distance += segment.distance
+    month.segmentLitres += segment.litres
+  }
+
+  const monthly = Array.from(months.values())
+    .sort((a, b) => a.month.localeCompare(b.month))
+    .map(({ segmentLitres, ...month }) => ({
+      ...month,
+      litres: round(month.litres, 2),
+      cost: round(month.cost, 2),
+      kmPerLitre: segmentLitres > 0 ? round(month.distance / segmentLitres, 2) : null,
+    }))
+
+  return {
+    fills: ordered.length,
+    totalLitres: round(totalLitres, 2),
+    totalCost: round(totalCost, 2),
+    distanceLogged: ordered.length > 1 ? ordered[ordered.length - 1].odometer - ordered[0].odometer : 0,
+    averageKmPerLitre: segmentLitres > 0 ? round(segmentDistance / segmentLitres, 2) : null,
+    averageCostPerKm: segmentDistance > 0 ? round(segmentCost / segmentDistance, 2) : null,
+    lastKmPerLitre: segments.length > 0 ? segments[segments.length - 1].kmPerLitre : null,
+    segments,
+    monthly,
+  }
+}
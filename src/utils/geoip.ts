@@ -0,0 +1,96 @@
+import fs from 'fs'
+import path from 'path'
+
+// Offline IPv4 -> country lookup backed by a CSV of "start_ip,end_ip,country_code" rows
+// (the format of the free db-ip / IP2Location LITE country databases). Point
+// IP_COUNTRY_DB_PATH at the file; without it only private addresses are recognised.
+const DB_PATH = process.env.IP_COUNTRY_DB_PATH || path.join(process.cwd(), 'data', 'ip-country.csv')
+
+interface CountryRanges {
+  starts: number[]
+  ends: number[]
+  countries: string[]
+}
+
+let ranges: CountryRanges | null = null
+
+const ipv4ToNumber = (ip: string): number | null => {
+  const parts = ip.split('.')
+  if (parts.length !== 4) return null
+  let value = 0
+  for (const part of parts) {
+    const octet = Number(part)
+    if (!/^\d{1,3}$/.test(part) || octet > 255) return null
+    value = value * 256 + octet
+  }
+  return value
+}
+
+const PRIVATE_RANGES: Array<[string, string]> = [
+  ['10.0.0.0', '10.255.255.255'],
+  ['127.0.0.0', '127.255.255.255'],
+  ['169.254.0.0', '169.254.255.255'],
+  ['172.16.0.0', '172.31.255.255'],
+  ['192.168.0.0', '192.168.255.255'],
+]
+
+const loadRanges = (): CountryRanges => {
+  if (ranges) return ranges
+
+  const loaded: CountryRanges = { starts: [], ends: [], countries: [] }
+  try {
+    const rows = fs.readFileSync(DB_PATH, 'utf8').split('\n')
+    const parsed: Array<[number, number, string]> = []
+    for (const row of rows) {
+      const [start, end, country] = row.split(',').map(cell => cell.trim().replace(/^"|"$/g, ''))
+      const startNumber = start ? ipv4ToNumber(start) : null
+      const endNumber = end ? ipv4ToNumber(end) : null
+      // IPv6 rows and headers are skipped
+      if (startNumber === null || endNumber === null || !country || country === '-') continue
+      parsed.push([startNumber, endNumber, country.toUpperCase()])
+    }
+    parsed.sort((a, b) => a[0] - b[0])
+    for (const [start, end, country] of parsed) {
+      loaded.starts.push(start)
+      loaded.ends.push(end)
+      loaded.countries.push(country)
+    }
+  } catch (error) {
+    console.warn(`IP country database not loaded from ${DB_PATH}; locations will be reported as unknown`)
+  }
+
+  ranges = loaded
+  return ranges
+}
+
+export const isPrivateIp = (ip: string): boolean => {
+  if (ip === '::1' || /^f[cd][0-9a-f]{2}:/i.test(ip) || /^fe80:/i.test(ip)) return true
+  const value = ipv4ToNumber(ip)
+  if (value === null) return false
+  return PRIVATE_RANGES.some(([start, end]) => value >= ipv4ToNumber(start)! && value <= ipv4ToNumber(end)!)
+}
+
+// ISO 3166 country code for an address, or null when it cannot be resolved
+export const lookupCountry = (ip: string | undefined): string | null => {
+  if (!ip) return null
+  const value = ipv4ToNumber(ip)
+  if (value === null) return null
+
+  const { starts, ends, countries } = loadRanges()
+  let low = 0
+  let high = starts.length - 1
+  while (low <= high) {
+    const mid = (low + high) >>> 1
+    if (value < starts[mid]) high = mid - 1
+    else if (value > ends[mid]) low = mid + 1
+    else return countries[mid]
+  }
+  return null
+}
+
+// Human readable location for security emails
+export const describeLocation = (ip: string | undefined): string => {
+  if (!ip) return 'Unknown location'
+  if (isPrivateIp(ip)) return 'Local network'
+  return lookupCountry(ip) || 'Unknown location'
+}
@@ -0,0 +1,55 @@
+// Default maintenance schedules per vehicle type. A task is due after whichever
+// interval (distance or time) runs out first. Keywords match service history
+// entries that were not tagged with the task explicitly.
+
+export interface MaintenanceTemplate {
+  task: string
+  name: string
+  intervalKm: number | null
+  intervalMonths: number | null
+  keywords: string[]
+}
+
+export const VEHICLE_TYPES = ['car', 'motorcycle', 'van', 'truck'] as const
+
+export type VehicleType = typeof VEHICLE_TYPES[number]
+
+const CAR_SCHEDULE: MaintenanceTemplate[] = [
+  { task: 'oil_change', name: 'Engine oil and filter', intervalKm: 5000, intervalMonths: 6, keywords: ['oil change', 'engine oil', 'oil filter', 'oil service'] },
+  { task: 'tire_rotation', name: 'Tyre rotation', intervalKm: 10000, intervalMonths: null, keywords: ['tire rotation', 'tyre rotation', 'wheel rotation'] },
+  { task: 'air_filter', name: 'Air filter', intervalKm: 15000, intervalMonths: 12, keywords: ['air filter'] },
+  { task: 'brake_inspection', name: 'Brake inspection', intervalKm: 20000, intervalMonths: 12, keywords: ['brake inspection', 'brake check', 'brake pad', 'brake service'] },
+  { task: 'brake_fluid', name: 'Brake fluid', intervalKm: null, intervalMonths: 24, keywords: ['brake fluid'] },
+  { task: 'coolant', name: 'Coolant', intervalKm: 40000, intervalMonths: 24, keywords: ['coolant', 'radiator flush'] },
+  { task: 'spark_plugs', name: 'Spark plugs', intervalKm: 40000, intervalMonths: 48, keywords: ['spark plug'] },
+  { task: 'transmission_fluid', name: 'Transmission fluid', intervalKm: 60000, intervalMonths: 48, keywords: ['transmission fluid', 'gearbox oil', 'atf'] },
+  { task: 'timing_belt', name: 'Timing belt', intervalKm: 100000, intervalMonths: 84, keywords: ['timing belt', 'cam belt'] },
+]
+
+// Same tasks with a different interval for one of them
+const withInterval = (schedule: MaintenanceTemplate[], task: string, intervalKm: number): MaintenanceTemplate[] => {
+  return schedule.map(template => template.task === task ? { ...template, intervalKm } : template)
+}
+
+export const MAINTENANCE_TEMPLATES: Record<VehicleType, MaintenanceTemplate[]> = {
+  car: CAR_SCHEDULE,
+  van: withInterval(CAR_SCHEDULE, 'oil_change', 7500),
+  truck: withInterval(withInterval(CAR_SCHEDULE, 'oil_change', 10000), 'brake_inspection', 15000),
+  motorcycle: [
+    { task: 'oil_change', name: 'Engine oil and filter', intervalKm: 3000, intervalMonths: 6, keywords: ['oil change', 'engine oil', 'oil filter'] },
+    { task: 'chain', name: 'Chain clean and adjust', intervalKm: 1000, intervalMonths: null, keywords: ['chain'] },
+    { task: 'air_filter', name: 'Air filter', intervalKm: 10000, intervalMonths: 12, keywords: ['air filter'] },
+    { task: 'brake_fluid', name: 'Brake fluid', intervalKm: null, intervalMonths: 24, keywords: ['brake fluid'] },
+    { task: 'spark_plugs', name: 'Spark plugs', intervalKm: 12000, intervalMonths: 24, keywords: ['spark plug'] },
+    { task: 'valve_clearance', name: 'Valve clearance check', intervalKm: 24000, intervalMonths: null, keywords: ['valve clearance', 'valve adjust'] },
+  ],
+}
+
+export const isVehicleType = (value: unknown): value is VehicleType => {
+  return typeof value === 'string' && (VEHICLE_TYPES as readonly string[]).includes(value)
+}
+
+// Vehicles of a type we have no schedule for get the car schedule
+export const templatesFor = (vehicleType: string): MaintenanceTemplate[] => {
+  return MAINTENANCE_TEMPLATES[isVehicleType(vehicleType) ? vehicleType : 'car']
+}
@@ -0,0 +1,68 @@
+// Mileage estimates from a vehicle's odometer history
+
+export interface MileageReading {
+  value: number
+  recordedAt: Date
+  source: string
+  flagged: boolean
+}
+
+export interface MileageProjection {
+  lastReading: { value: number; recordedAt: Date; source: string } | null
+  averageDailyDistance: number | null
+  projectedOdometer: number | null
+  projectedAt: Date
+  rollbackDetected: boolean
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+// Recent driving says more about next month than what the car did years ago
+const TREND_WINDOW_DAYS = 365
+
+// Readings closer together than this give a meaningless rate
+const MIN_TREND_SPAN_DAYS = 7
+
+// Least-squares slope of value over time in km per day
+const dailyDistance = (readings: MileageReading[]): number | null => {
+  if (readings.length < 2) return null
+
+  const first = readings[0].recordedAt.getTime()
+  const span = (readings[readings.length - 1].recordedAt.getTime() - first) / DAY_MS
+  if (span < MIN_TREND_SPAN_DAYS) return null
+
+  const points = readings.map(reading => ({ x: (reading.recordedAt.getTime() - first) / DAY_MS, y: reading.value }))
+  const meanX = points.reduce((sum, point) => sum + point.x, 0) / points.length
+  const meanY = points.reduce((sum, point) => sum + point.y, 0) / points.length
+  const covariance = points.reduce((sum, point) => sum + (point.x - meanX) * (point.y - meanY), 0)
+  const variance = points.reduce((sum, point) => sum + (point.x - meanX) ** 2, 0)
+
+  return variance > 0 ? Math.max(0, covariance / variance) : null
+}
+
+// Flagged readings are left out; they only tell us the odometer may have been tampered with
+export const projectMileage = (readings: MileageReading[], now: Date = new Date()): MileageProjection => {
+  const trusted = readings
+    .filter(reading => !reading.flagged)
+    .sort((a, b) => a.recordedAt.getTime() - b.recordedAt.getTime())
+  const rollbackDetected = readings.some(reading => reading.flagged)
+
+  const last = trusted[trusted.length - 1]
+  if (!last) {
+    return { lastReading: null, averageDailyDistance: null, projectedOdometer: null, projectedAt: now, rollbackDetected }
+  }
+
+  const windowStart = last.recordedAt.getTime() - TREND_WINDOW_DAYS * DAY_MS
+  const recent = trusted.filter(reading => reading.recordedAt.getTime() >= windowStart)
+  const perDay = dailyDistance(recent.length >= 2 ? recent : trusted) ?? dailyDistance(trusted)
+
+  const daysSince = Math.max(0, (now.getTime() - last.recordedAt.getTime()) / DAY_MS)
+
+  return {
+    lastReading: { value: last.value, recordedAt: last.recordedAt, source: last.source },
+    averageDailyDistance: perDay === null ? null : Math.round(perDay * 10) / 10,
+    projectedOdometer: perDay === null ? last.value : Math.round(last.value + perDay * daysSince),
+    projectedAt: now,
+    rollbackDetected,
+  }
+}
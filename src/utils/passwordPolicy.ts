@@ -0,0 +1,84 @@
+import fs from 'fs'
+import path from 'path'
+
+// Password rules applied whenever a password is chosen. Existing passwords are
+// not re-checked; users meet the current policy the next time they change it.
+export const PASSWORD_POLICY = {
+  minLength: parseInt(process.env.PASSWORD_MIN_LENGTH || '10'),
+  // bcrypt ignores everything past 72 bytes, and non-ASCII characters take several
+  maxBytes: 72,
+  // How many of lowercase, uppercase, digits and symbols must appear
+  minCharacterClasses: parseInt(process.env.PASSWORD_MIN_CHARACTER_CLASSES || '3'),
+  // Previous passwords that may not be reused
+  historyCount: parseInt(process.env.PASSWORD_HISTORY_COUNT || '5'),
+}
+
+const BREACHED_LIST_PATH = process.env.BREACHED_PASSWORDS_PATH || path.join(process.cwd(), 'data', 'common-passwords.txt')
+
+let breachedPasswords: Set<string> | null = null
+
+const loadBreachedPasswords = (): Set<string> => {
+  if (breachedPasswords) return breachedPasswords
+
+  try {
+    const lines = fs.readFileSync(BREACHED_LIST_PATH, 'utf8').split(/\r?\n/)
+    breachedPasswords = new Set(lines.map(line => line.trim().toLowerCase()).filter(line => line && !line.startsWith('#')))
+  } catch (error) {
+    console.error('Could not load breached password list:', error)
+    breachedPasswords = new Set()
+  }
+
+  return breachedPasswords
+}
+
+// "Summer2024!" is as guessable as "summer", so decorations at the end are ignored too
+export const isCommonPassword = (password: string): boolean => {
+  const list = loadBreachedPasswords()
+  const lowered = password.toLowerCase()
+  const stripped = lowered.replace(/[\d\W_]+$/, '')
+  return list.has(lowered) || (stripped.length > 0 && list.has(stripped))
+}
+
+const countCharacterClasses = (password: string): number => {
+  return [/[a-z]/, /[A-Z]/, /\d/, /[^A-Za-z0-9]/].filter(pattern => pattern.test(password)).length
+}
+
+// Parts of the user's identity long enough to matter, e.g. "john.smith@mail.com" -> john, smith
+const personalTokens = (context: { email?: string | null; name?: string | null }): string[] => {
+  const localPart = context.email ? context.email.split('@')[0] : ''
+  return [localPart, ...localPart.split(/[._+\-]/), ...(context.name || '').split(/\s+/)]
+    .map(token => token.trim().toLowerCase())
+    .filter(token => token.length >= 3)
+}
+
+// Returns every rule the password breaks; an empty list means it is acceptable
+export const checkPasswordPolicy = (
+  password: string,
+  context: { email?: string | null; name?: string | null } = {}
+): string[] => {
+  const errors: string[] = []
+
+  if (typeof password !== 'string' || password.length < PASSWORD_POLICY.minLength) {
+    errors.push(`Password must be at least ${PASSWORD_POLICY.minLength} characters long`)
+    return errors
+  }
+
+  if (Buffer.byteLength(password, 'utf8') > PASSWORD_POLICY.maxBytes) {
+    errors.push(`Password must be at most ${PASSWORD_POLICY.maxBytes} bytes long (fewer characters if it uses accented letters or symbols)`)
+  }
+
+  if (countCharacterClasses(password) < PASSWORD_POLICY.minCharacterClasses) {
+    errors.push(`Password must contain at least ${PASSWORD_POLICY.minCharacterClasses} of: lowercase letters, uppercase letters, numbers and symbols`)
+  }
+
+  const lowered = password.toLowerCase()
+  if (personalTokens(context).some(token => lowered.includes(token))) {
+    errors.push('Password must not contain your name or email address')
+  }
+
+  if (isCommonPassword(password)) {
+    errors.push('This password is too common or has appeared in a data breach')
+  }
+
+  return errors
+}
@@ -1,6 +1,7 @@
 import { PrismaClient } from '@prisma/client'
 import { SetupStatus } from '../types'
 import prisma from '../prisma';
+import { TwoFactorService } from '../Services/TwoFactor'
 
 export const checkSetupStatus = async (userId: number): Promise<SetupStatus> => {
   const user = await prisma.user.findUnique({
@@ -10,7 +11,8 @@ export const checkSetupStatus = async (userId: number): Promise<SetupStatus> =>
       serviceCenterProfile: true,
       partSellerProfile: true,
       vehicles: true,
-      subscription: true
+      subscription: true,
+      twoFactor: true
     }
   })
 
@@ -21,8 +23,8 @@ export const checkSetupStatus = async (userId: number): Promise<SetupStatus> =>
   const missingSteps: string[] = []
   let redirectTo: string | null = null
 
-  // Check if registration is complete (has phone and role)
-  const isRegistrationComplete = !!(user.phone && user.role && user.role !== 'car_owner')
+  // Check if registration is complete (has phone and role); admins are created complete
+  const isRegistrationComplete = user.role === 'admin' || !!(user.phone && user.role && user.role !== 'car_owner')
   
   if (!isRegistrationComplete) {
     missingSteps.push('registration')
@@ -42,6 +44,9 @@ export const checkSetupStatus = async (userId: number): Promise<SetupStatus> =>
     case 'part_seller':
       isSetupComplete = !!user.partSellerProfile
       break
+    case 'admin':
+      isSetupComplete = true
+      break
   }
 
   if (!isSetupComplete) {
@@ -57,6 +62,20 @@ export const checkSetupStatus = async (userId: number): Promise<SetupStatus> =>
     redirectTo = '/setup/payment'
   }
 
+  // Some roles must enroll a second factor before using the dashboard
+  if (TwoFactorService.isRequiredForRole(user.role) && !user.twoFactor?.confirmedAt) {
+    missingSteps.push('two_factor')
+    redirectTo = '/setup/two-factor'
+  }
+
+  // Accounts must confirm they own their email address before anything else
+  const isEmailVerified = !!user.emailVerifiedAt
+
+  if (!isEmailVerified) {
+    missingSteps.push('email_verification')
+    redirectTo = '/setup/verify-email'
+  }
+
   // If all steps are complete, no redirect needed
   if (missingSteps.length === 0) {
     redirectTo = null
@@ -64,6 +83,7 @@ export const checkSetupStatus = async (userId: number): Promise<SetupStatus> =>
 
   return {
     isRegistrationComplete,
+    isEmailVerified,
     isSetupComplete,
     hasActiveSubscription,
     missingSteps,
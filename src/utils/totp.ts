@@ -0,0 +1,93 @@
+import crypto from 'crypto'
+
+// RFC 6238 time-based one-time passwords (SHA-1, 6 digits, 30 second steps),
+// the variant every authenticator app supports.
+
+const BASE32_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567'
+const STEP_SECONDS = 30
+const DIGITS = 6
+
+export const base32Encode = (buffer: Buffer): string => {
+  let bits = 0
+  let value = 0
+  let output = ''
+
+  for (const byte of buffer) {
+    value = (value << 8) | byte
+    bits += 8
+    while (bits >= 5) {
+      output += BASE32_ALPHABET[(value >>> (bits - 5)) & 31]
+      bits -= 5
+    }
+  }
+
+  if (bits > 0) {
+    output += BASE32_ALPHABET[(value << (5 - bits)) & 31]
+  }
+
+  return output
+}
+
+export const base32Decode = (input: string): Buffer => {
+  const cleaned = input.toUpperCase().replace(/=+$/, '').replace(/\s/g, '')
+  let bits = 0
+  let value = 0
+  const bytes: number[] = []
+
+  for (const char of cleaned) {
+    const index = BASE32_ALPHABET.indexOf(char)
+    if (index === -1) {
+      throw new Error('Invalid base32 character')
+    }
+    value = (value << 5) | index
+    bits += 5
+    if (bits >= 8) {
+      bytes.push((value >>> (bits - 8)) & 255)
+      bits -= 8
+    }
+  }
+
+  return Buffer.from(bytes)
+}
+
+export const generateTotpSecret = (): string => {
+  return base32Encode(crypto.randomBytes(20))
+}
+
+export const currentTimeStep = (now: number = Date.now()): number => {
+  return Math.floor(now / 1000 / STEP_SECONDS)
+}
+
+const generateHotp = (secret: string, counter: number): string => {
+  const counterBuffer = Buffer.alloc(8)
+  counterBuffer.writeUInt32BE(Math.floor(counter / 0x100000000), 0)
+  counterBuffer.writeUInt32BE(counter % 0x100000000, 4)
+
+  const hmac = crypto.createHmac('sha1', base32Decode(secret)).update(counterBuffer).digest()
+  const offset = hmac[hmac.length - 1] & 0xf
+  const binary = (hmac.readUInt32BE(offset) & 0x7fffffff) % 10 ** DIGITS
+
+  return binary.toString().padStart(DIGITS, '0')
+}
+
+// Returns the matching time step, or null. A window of 1 tolerates one step of clock drift either way.
+export const verifyTotp = (secret: string, code: string, window: number = 1, now: number = Date.now()): number | null => {
+  const normalized = String(code).replace(/\s/g, '')
+  if (!/^\d{6}$/.test(normalized)) return null
+
+  const step = currentTimeStep(now)
+  for (let offset = -window; offset <= window; offset++) {
+    const candidate = generateHotp(secret, step + offset)
+    if (crypto.timingSafeEqual(Buffer.from(candidate), Buffer.from(normalized))) {
+      return step + offset
+    }
+  }
+
+  return null
+}
+
+export const buildOtpauthUri = (secret: string, accountName: string, issuer: string): string => {
+  const label = encodeURIComponent(`${issuer}:${accountName}`)
+  return `otpauth://totp/${label}?secret=${secret}&issuer=${encodeURIComponent(issuer)}` +
+    `&algorithm=SHA1&digits=${DIGITS}&period=${STEP_SECONDS}`
+}
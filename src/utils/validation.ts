@@ -1,4 +1,6 @@
-import { RegistrationData, CompleteRegistrationData } from '../types'
+import { RegistrationData, CompleteRegistrationData, Role } from '../types'
+import { checkPasswordPolicy } from './passwordPolicy'
+import { isVehicleType, VEHICLE_TYPES } from './maintenanceTemplates'
 
 export const validateEmail = (email: string): boolean => {
   const emailRegex = /^[^\s@]+@[^\s@]+\.[^\s@]+$/
@@ -6,7 +8,7 @@ export const validateEmail = (email: string): boolean => {
 }
 
 export const validatePassword = (password: string): boolean => {
-  return password.length >= 8
+  return checkPasswordPolicy(password).length === 0
 }
 
 export const validatePhone = (phone: string): boolean => {
@@ -14,9 +16,27 @@ export const validatePhone = (phone: string): boolean => {
   return phone.length >= 10
 }
 
-export const validateRole = (role: string): boolean => {
-  const validRoles = ['car_owner', 'service_center', 'part_seller']
-  return validRoles.includes(role)
+// Links to images hosted elsewhere; uploads go through the multipart endpoints instead
+export const validateImageUrl = (url: string): boolean => {
+  try {
+    const { protocol } = new URL(url)
+    return protocol === 'https:' || protocol === 'http:'
+  } catch {
+    return false
+  }
+}
+
+export const ROLES: Role[] = ['car_owner', 'service_center', 'part_seller', 'admin']
+
+// Roles a user may pick for themselves; admins are only created by another admin or the bootstrap script
+export const SELF_SERVICE_ROLES: Role[] = ['car_owner', 'service_center', 'part_seller']
+
+export const validateRole = (role: string): role is Role => {
+  return (ROLES as string[]).includes(role)
+}
+
+export const validateSelfServiceRole = (role: string): boolean => {
+  return (SELF_SERVICE_ROLES as string[]).includes(role)
 }
 
 export const validateRegistrationData = (data: RegistrationData): { isValid: boolean; errors: string[] } => {
@@ -33,8 +53,17 @@ export const validateRegistrationData = (data: RegistrationData): { isValid: boo
   }
 
   // Password validation
-  if (data.password && !validatePassword(data.password)) {
-    errors.push('Password must be at least 8 characters long')
+  if (data.password) {
+    errors.push(...checkPasswordPolicy(data.password, { email: data.email, name: data.name }))
+  }
+
+  // Role is optional here, but must never be one the user cannot choose
+  if (data.role && !validateSelfServiceRole(data.role)) {
+    errors.push('Invalid role. Must be car_owner, service_center, or part_seller')
+  }
+
+  if (data.profileData?.businessDetails?.logo && !validateImageUrl(data.profileData.businessDetails.logo)) {
+    errors.push('Logo must be an http(s) URL; upload a file through the service center logo endpoint')
   }
 
   // Do not require name, phone, or role at this stage
@@ -60,7 +89,7 @@ export const validateCompleteRegistrationData = (data: CompleteRegistrationData)
   }
 
   // Role validation
-  if (data.role && !validateRole(data.role)) {
+  if (data.role && !validateSelfServiceRole(data.role)) {
     errors.push('Invalid role. Must be car_owner, service_center, or part_seller')
   }
 
@@ -73,6 +102,10 @@ export const validateCompleteRegistrationData = (data: CompleteRegistrationData)
     errors.push('Business details are required for service_center registration')
   }
 
+  if (data.profileData?.businessDetails?.logo && !validateImageUrl(data.profileData.businessDetails.logo)) {
+    errors.push('Logo must be an http(s) URL; upload a file through the service center logo endpoint')
+  }
+
   if (data.role === 'part_seller' && !data.profileData?.shopDetails) {
     errors.push('Shop details are required for part_seller registration')
   }
@@ -98,6 +131,10 @@ export const validateVehicleData = (vehicle: any): { isValid: boolean; errors: s
     errors.push('License plate must be at least 3 characters')
   }
 
+  if (vehicle.vehicleType && !isVehicleType(vehicle.vehicleType)) {
+    errors.push(`Vehicle type must be one of: ${VEHICLE_TYPES.join(', ')}`)
+  }
+
   return {
     isValid: errors.length === 0,
     errors
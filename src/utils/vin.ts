@@ -0,0 +1,223 @@
+import { VIN_MANUFACTURERS, VinManufacturer } from './vinManufacturers'
+
+// Offline decoding of 17-character VINs (ISO 3779). Partial input is decoded as
+// far as it goes so the app can show the manufacturer while the user types.
+
+export interface VinDecodeResult {
+  vin: string
+  complete: boolean
+  valid: boolean
+  errors: string[]
+  warnings: string[]
+  wmi: string | null
+  manufacturer: VinManufacturer | null
+  country: string | null
+  region: string | null
+  modelYear: number | null
+  modelYearCandidates: number[]
+  plantCode: string | null
+  serialNumber: string | null
+  checkDigit: { expected: string; actual: string; valid: boolean } | null
+}
+
+const VIN_LENGTH = 17
+
+// Letters I, O and Q are never used because they look like 1 and 0
+const VIN_CHARACTERS = /^[A-HJ-NPR-Z0-9]*$/
+
+const TRANSLITERATION: Record<string, number> = {
+  A: 1, B: 2, C: 3, D: 4, E: 5, F: 6, G: 7, H: 8,
+  J: 1, K: 2, L: 3, M: 4, N: 5, P: 7, R: 9,
+  S: 2, T: 3, U: 4, V: 5, W: 6, X: 7, Y: 8, Z: 9,
+}
+
+const CHECK_DIGIT_WEIGHTS = [8, 7, 6, 5, 4, 3, 2, 10, 0, 9, 8, 7, 6, 5, 4, 3, 2]
+
+// Position 10 cycles through these every 30 years, starting with A = 1980
+const MODEL_YEAR_CODES = 'ABCDEFGHJKLMNPRSTVWXY123456789'
+
+// Order of the second character when ISO 3780 assigns country ranges
+const RANGE_ORDER = 'ABCDEFGHJKLMNPRSTUVWXYZ1234567890'
+
+const REGIONS: Record<string, string> = {
+  A: 'Africa', B: 'Africa', C: 'Africa', D: 'Africa', E: 'Africa', F: 'Africa', G: 'Africa', H: 'Africa',
+  J: 'Asia', K: 'Asia', L: 'Asia', M: 'Asia', N: 'Asia', P: 'Asia', R: 'Asia',
+  S: 'Europe', T: 'Europe', U: 'Europe', V: 'Europe', W: 'Europe', X: 'Europe', Y: 'Europe', Z: 'Europe',
+  '1': 'North America', '2': 'North America', '3': 'North America', '4': 'North America', '5': 'North America',
+  '6': 'Oceania', '7': 'Oceania',
+  '8': 'South America', '9': 'South America',
+}
+
+// [first character, second character from, to, country]
+const COUNTRY_RANGES: [string, string, string, string][] = [
+  ['A', 'A', 'H', 'South Africa'],
+  ['J', 'A', '0', 'Japan'],
+  ['K', 'L', 'R', 'South Korea'],
+  ['L', 'A', '0', 'China'],
+  ['M', 'A', 'E', 'India'],
+  ['M', 'F', 'K', 'Indonesia'],
+  ['M', 'L', 'R', 'Thailand'],
+  ['P', 'A', 'E', 'Philippines'],
+  ['P', 'L', 'R', 'Malaysia'],
+  ['S', 'A', 'M', 'United Kingdom'],
+  ['S', 'N', 'T', 'Germany'],
+  ['S', 'U', 'Z', 'Poland'],
+  ['T', 'A', 'H', 'Switzerland'],
+  ['T', 'J', 'P', 'Czech Republic'],
+  ['T', 'R', 'V', 'Hungary'],
+  ['U', 'U', '7', 'Romania'],
+  ['V', 'A', 'E', 'Austria'],
+  ['V', 'F', 'R', 'France'],
+  ['V', 'S', 'W', 'Spain'],
+  ['W', 'A', '0', 'Germany'],
+  ['Y', 'A', 'E', 'Belgium'],
+  ['Y', 'F', 'K', 'Finland'],
+  ['Y', 'S', 'W', 'Sweden'],
+  ['Z', 'A', 'R', 'Italy'],
+  ['1', 'A', '0', 'United States'],
+  ['2', 'A', '0', 'Canada'],
+  ['3', 'A', 'W', 'Mexico'],
+  ['4', 'A', '0', 'United States'],
+  ['5', 'A', '0', 'United States'],
+  ['6', 'A', 'W', 'Australia'],
+  ['7', 'A', 'E', 'New Zealand'],
+  ['7', 'F', '0', 'United States'],
+  ['9', 'A', 'E', 'Brazil'],
+]
+
+// North American VINs must carry a valid check digit and encode the year cycle in position 7
+const isNorthAmerican = (vin: string) => /^[1-5]/.test(vin)
+
+export const normalizeVin = (vin: string): string => vin.replace(/[\s-]/g, '').toUpperCase()
+
+export const computeCheckDigit = (vin: string): string => {
+  const sum = vin.split('').reduce((total, char, index) => {
+    const value = /\d/.test(char) ? parseInt(char) : TRANSLITERATION[char] || 0
+    return total + value * CHECK_DIGIT_WEIGHTS[index]
+  }, 0)
+  const remainder = sum % 11
+  return remainder === 10 ? 'X' : String(remainder)
+}
+
+const lookupCountry = (vin: string): string | null => {
+  if (vin.length < 2) return null
+  const position = RANGE_ORDER.indexOf(vin[1])
+  const match = COUNTRY_RANGES.find(([first, from, to]) =>
+    first === vin[0] && position >= RANGE_ORDER.indexOf(from) && position <= RANGE_ORDER.indexOf(to)
+  )
+  return match ? match[3] : null
+}
+
+const decodeModelYears = (vin: string): { modelYear: number | null; candidates: number[] } => {
+  const index = MODEL_YEAR_CODES.indexOf(vin[9])
+  if (index < 0) return { modelYear: null, candidates: [] }
+
+  const latestPossible = new Date().getFullYear() + 1
+  const candidates = [1980 + index, 2010 + index, 2040 + index].filter(year => year <= latestPossible)
+
+  // In North America a letter in position 7 means the 2010 cycle, a digit the 1980 one
+  if (isNorthAmerican(vin) && vin.length >= 7) {
+    const modelYear = /[A-Z]/.test(vin[6]) ? 2010 + index : 1980 + index
+    return { modelYear: modelYear <= latestPossible ? modelYear : null, candidates }
+  }
+
+  return { modelYear: candidates.length > 0 ? candidates[candidates.length - 1] : null, candidates }
+}
+
+export const decodeVin = (input: string): VinDecodeResult => {
+  const vin = normalizeVin(input)
+  const errors: string[] = []
+  const warnings: string[] = []
+
+  if (!VIN_CHARACTERS.test(vin)) {
+    errors.push('VIN may only contain letters and digits, excluding I, O and Q')
+  }
+  if (vin.length > VIN_LENGTH) {
+    errors.push(`VIN must be ${VIN_LENGTH} characters long`)
+  }
+
+  const complete = vin.length === VIN_LENGTH
+  const usable = errors.length === 0
+  const wmi = usable && vin.length >= 3 ? vin.slice(0, 3) : null
+
+  // Makers of fewer than 1,000 vehicles a year share a WMI ending in 9 and are told apart by positions 12-14
+  const manufacturer = wmi ? VIN_MANUFACTURERS[wmi] || null : null
+
+  const years = usable && vin.length >= 10 ? decodeModelYears(vin) : { modelYear: null, candidates: [] }
+  if (usable && vin.length >= 10 && years.candidates.length === 0) {
+    warnings.push('Position 10 does not encode a model year')
+  }
+
+  let checkDigit: VinDecodeResult['checkDigit'] = null
+  if (usable && complete) {
+    const expected = computeCheckDigit(vin)
+    checkDigit = { expected, actual: vin[8], valid: expected === vin[8] }
+    if (!checkDigit.valid) {
+      if (isNorthAmerican(vin)) {
+        errors.push('VIN check digit is incorrect. Please check the VIN for typos')
+      } else {
+        warnings.push('VIN check digit does not match; this is common for vehicles built outside North America')
+      }
+    }
+  }
+
+  return {
+    vin,
+    complete,
+    valid: complete && errors.length === 0,
+    errors,
+    warnings,
+    wmi,
+    manufacturer,
+    country: usable ? lookupCountry(vin) : null,
+    region: usable && vin.length >= 1 ? REGIONS[vin[0]] || null : null,
+    modelYear: years.modelYear,
+    modelYearCandidates: years.candidates,
+    plantCode: usable && vin.length >= 11 ? vin[10] : null,
+    serialNumber: usable && complete ? vin.slice(11) : null,
+    checkDigit,
+  }
+}
+
+// Short names people commonly type instead of the brand
+const MAKE_ALIASES: Record<string, string> = {
+  vw: 'volkswagen',
+  chevy: 'chevrolet',
+  merc: 'mercedesbenz',
+  benz: 'mercedesbenz',
+  mb: 'mercedesbenz',
+  rr: 'rollsroyce',
+}
+
+const normalizeMake = (make: string) => {
+  const normalized = make.toLowerCase().replace(/[^a-z0-9]/g, '')
+  return MAKE_ALIASES[normalized] || normalized
+}
+
+// Compare what the user entered with what the VIN says. Mismatches we are sure
+// about are errors; ones that could be down to regional VIN rules are warnings.
+export const crossCheckVin = (
+  decoded: VinDecodeResult,
+  entered: { make?: string; year?: number }
+): { errors: string[]; warnings: string[] } => {
+  const errors: string[] = []
+  const warnings: string[] = []
+
+  if (entered.make && decoded.manufacturer) {
+    const make = normalizeMake(entered.make)
+    const known = [decoded.manufacturer.make, decoded.manufacturer.name].map(normalizeMake)
+    if (make && !known.some(name => name.includes(make) || make.includes(name))) {
+      errors.push(`VIN belongs to a ${decoded.manufacturer.make}, but ${entered.make} was entered`)
+    }
+  }
+
+  if (entered.year && isNorthAmerican(decoded.vin) && decoded.modelYear) {
+    if (decoded.modelYear !== entered.year) {
+      errors.push(`VIN indicates model year ${decoded.modelYear}, but ${entered.year} was entered`)
+    }
+  } else if (entered.year && decoded.modelYearCandidates.length > 0 && !decoded.modelYearCandidates.includes(entered.year)) {
+    warnings.push(`VIN indicates model year ${decoded.modelYearCandidates.join(' or ')}, but ${entered.year} was entered`)
+  }
+
+  return { errors, warnings }
+}
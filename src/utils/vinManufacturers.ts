@@ -0,0 +1,186 @@
+// World manufacturer identifiers (the first three VIN characters) for the makes
+// we see most often. `make` is the brand a user would type as the vehicle name.
+export interface VinManufacturer {
+  name: string
+  make: string
+}
+
+export const VIN_MANUFACTURERS: Record<string, VinManufacturer> = {
+  // Japan
+  JT2: { name: 'Toyota Motor Corporation', make: 'Toyota' },
+  JT3: { name: 'Toyota Motor Corporation', make: 'Toyota' },
+  JT4: { name: 'Toyota Motor Corporation', make: 'Toyota' },
+  JT6: { name: 'Toyota Motor Corporation', make: 'Lexus' },
+  JT8: { name: 'Toyota Motor Corporation', make: 'Lexus' },
+  JTD: { name: 'Toyota Motor Corporation', make: 'Toyota' },
+  JTE: { name: 'Toyota Motor Corporation', make: 'Toyota' },
+  JTH: { name: 'Toyota Motor Corporation', make: 'Lexus' },
+  JTJ: { name: 'Toyota Motor Corporation', make: 'Lexus' },
+  JTK: { name: 'Toyota Motor Corporation', make: 'Toyota' },
+  JTL: { name: 'Toyota Motor Corporation', make: 'Toyota' },
+  JTM: { name: 'Toyota Motor Corporation', make: 'Toyota' },
+  JTN: { name: 'Toyota Motor Corporation', make: 'Toyota' },
+  JHM: { name: 'Honda Motor Co.', make: 'Honda' },
+  JHL: { name: 'Honda Motor Co.', make: 'Honda' },
+  JH4: { name: 'Honda Motor Co.', make: 'Acura' },
+  JH2: { name: 'Honda Motor Co.', make: 'Honda' },
+  JN1: { name: 'Nissan Motor Co.', make: 'Nissan' },
+  JN6: { name: 'Nissan Motor Co.', make: 'Nissan' },
+  JN8: { name: 'Nissan Motor Co.', make: 'Nissan' },
+  JNK: { name: 'Nissan Motor Co.', make: 'Infiniti' },
+  JNR: { name: 'Nissan Motor Co.', make: 'Infiniti' },
+  JM1: { name: 'Mazda Motor Corporation', make: 'Mazda' },
+  JM3: { name: 'Mazda Motor Corporation', make: 'Mazda' },
+  JMZ: { name: 'Mazda Motor Corporation', make: 'Mazda' },
+  JS1: { name: 'Suzuki Motor Corporation', make: 'Suzuki' },
+  JS2: { name: 'Suzuki Motor Corporation', make: 'Suzuki' },
+  JS3: { name: 'Suzuki Motor Corporation', make: 'Suzuki' },
+  JSA: { name: 'Suzuki Motor Corporation', make: 'Suzuki' },
+  JA3: { name: 'Mitsubishi Motors', make: 'Mitsubishi' },
+  JA4: { name: 'Mitsubishi Motors', make: 'Mitsubishi' },
+  JMB: { name: 'Mitsubishi Motors', make: 'Mitsubishi' },
+  JMY: { name: 'Mitsubishi Motors', make: 'Mitsubishi' },
+  JF1: { name: 'Subaru Corporation', make: 'Subaru' },
+  JF2: { name: 'Subaru Corporation', make: 'Subaru' },
+  JAA: { name: 'Isuzu Motors', make: 'Isuzu' },
+  JAL: { name: 'Isuzu Motors', make: 'Isuzu' },
+  JDA: { name: 'Daihatsu Motor Co.', make: 'Daihatsu' },
+  JYA: { name: 'Yamaha Motor Co.', make: 'Yamaha' },
+  JKA: { name: 'Kawasaki Heavy Industries', make: 'Kawasaki' },
+
+  // Korea
+  KMH: { name: 'Hyundai Motor Company', make: 'Hyundai' },
+  KM8: { name: 'Hyundai Motor Company', make: 'Hyundai' },
+  KMF: { name: 'Hyundai Motor Company', make: 'Hyundai' },
+  KMT: { name: 'Hyundai Motor Company', make: 'Genesis' },
+  KNA: { name: 'Kia Corporation', make: 'Kia' },
+  KNC: { name: 'Kia Corporation', make: 'Kia' },
+  KND: { name: 'Kia Corporation', make: 'Kia' },
+  KNM: { name: 'Renault Samsung Motors', make: 'Renault Samsung' },
+  KPT: { name: 'SsangYong Motor Company', make: 'SsangYong' },
+  KL1: { name: 'GM Korea', make: 'Chevrolet' },
+  KLA: { name: 'GM Korea', make: 'Daewoo' },
+
+  // China
+  LFV: { name: 'FAW-Volkswagen', make: 'Volkswagen' },
+  LSV: { name: 'SAIC Volkswagen', make: 'Volkswagen' },
+  LHG: { name: 'GAC Honda', make: 'Honda' },
+  LVG: { name: 'GAC Toyota', make: 'Toyota' },
+  LGB: { name: 'Dongfeng Nissan', make: 'Nissan' },
+  LRW: { name: 'Tesla Shanghai', make: 'Tesla' },
+  LGX: { name: 'BYD Auto', make: 'BYD' },
+  LB3: { name: 'Geely Automobile', make: 'Geely' },
+  LVS: { name: 'Changan Ford', make: 'Ford' },
+  LSJ: { name: 'SAIC MG', make: 'MG' },
+  LZW: { name: 'SAIC-GM-Wuling', make: 'Wuling' },
+  LVV: { name: 'Chery Automobile', make: 'Chery' },
+
+  // India
+  MA1: { name: 'Mahindra & Mahindra', make: 'Mahindra' },
+  MA3: { name: 'Maruti Suzuki India', make: 'Maruti Suzuki' },
+  MA6: { name: 'GM India', make: 'Chevrolet' },
+  MAJ: { name: 'Ford India', make: 'Ford' },
+  MAK: { name: 'Honda Cars India', make: 'Honda' },
+  MAL: { name: 'Hyundai Motor India', make: 'Hyundai' },
+  MAT: { name: 'Tata Motors', make: 'Tata' },
+  MBH: { name: 'Suzuki Motorcycle India', make: 'Suzuki' },
+  MBJ: { name: 'Toyota Kirloskar Motor', make: 'Toyota' },
+  MBL: { name: 'Hero MotoCorp', make: 'Hero' },
+  MC2: { name: 'Volvo Eicher', make: 'Eicher' },
+  MD2: { name: 'Bajaj Auto', make: 'Bajaj' },
+  MD6: { name: 'TVS Motor Company', make: 'TVS' },
+  ME4: { name: 'Honda Motorcycle & Scooter India', make: 'Honda' },
+  MEE: { name: 'Renault India', make: 'Renault' },
+  MEX: { name: 'Skoda Auto Volkswagen India', make: 'Volkswagen' },
+  MZB: { name: 'Kia India', make: 'Kia' },
+
+  // South-east Asia
+  MHF: { name: 'Toyota Astra Motor', make: 'Toyota' },
+  MHR: { name: 'Honda Prospect Motor', make: 'Honda' },
+  MMB: { name: 'Mitsubishi Motors Thailand', make: 'Mitsubishi' },
+  MMM: { name: 'Chevrolet Thailand', make: 'Chevrolet' },
+  MNB: { name: 'Ford Thailand', make: 'Ford' },
+  MNT: { name: 'Nissan Thailand', make: 'Nissan' },
+  MPA: { name: 'Isuzu Thailand', make: 'Isuzu' },
+  MR0: { name: 'Toyota Motor Thailand', make: 'Toyota' },
+  MRH: { name: 'Honda Automobile Thailand', make: 'Honda' },
+
+  // Europe
+  SAJ: { name: 'Jaguar Land Rover', make: 'Jaguar' },
+  SAL: { name: 'Jaguar Land Rover', make: 'Land Rover' },
+  SCA: { name: 'Rolls-Royce Motor Cars', make: 'Rolls-Royce' },
+  SCB: { name: 'Bentley Motors', make: 'Bentley' },
+  SCC: { name: 'Lotus Cars', make: 'Lotus' },
+  SCF: { name: 'Aston Martin', make: 'Aston Martin' },
+  SHH: { name: 'Honda UK', make: 'Honda' },
+  SJN: { name: 'Nissan UK', make: 'Nissan' },
+  TMB: { name: 'Skoda Auto', make: 'Skoda' },
+  TRU: { name: 'Audi Hungary', make: 'Audi' },
+  TSM: { name: 'Suzuki Hungary', make: 'Suzuki' },
+  UU1: { name: 'Dacia', make: 'Dacia' },
+  VF1: { name: 'Renault', make: 'Renault' },
+  VF3: { name: 'Peugeot', make: 'Peugeot' },
+  VF7: { name: 'Citroen', make: 'Citroen' },
+  VSS: { name: 'SEAT', make: 'SEAT' },
+  VNK: { name: 'Toyota Motor Manufacturing France', make: 'Toyota' },
+  WAU: { name: 'Audi AG', make: 'Audi' },
+  WA1: { name: 'Audi AG', make: 'Audi' },
+  WBA: { name: 'BMW AG', make: 'BMW' },
+  WBS: { name: 'BMW M GmbH', make: 'BMW' },
+  WBY: { name: 'BMW AG', make: 'BMW' },
+  WMW: { name: 'BMW AG', make: 'Mini' },
+  WDB: { name: 'Mercedes-Benz AG', make: 'Mercedes-Benz' },
+  WDC: { name: 'Mercedes-Benz AG', make: 'Mercedes-Benz' },
+  WDD: { name: 'Mercedes-Benz AG', make: 'Mercedes-Benz' },
+  W1K: { name: 'Mercedes-Benz AG', make: 'Mercedes-Benz' },
+  W1N: { name: 'Mercedes-Benz AG', make: 'Mercedes-Benz' },
+  WF0: { name: 'Ford Germany', make: 'Ford' },
+  WME: { name: 'Smart', make: 'Smart' },
+  WP0: { name: 'Porsche AG', make: 'Porsche' },
+  WP1: { name: 'Porsche AG', make: 'Porsche' },
+  WVW: { name: 'Volkswagen AG', make: 'Volkswagen' },
+  WVG: { name: 'Volkswagen AG', make: 'Volkswagen' },
+  WV1: { name: 'Volkswagen Commercial Vehicles', make: 'Volkswagen' },
+  WV2: { name: 'Volkswagen Commercial Vehicles', make: 'Volkswagen' },
+  W0L: { name: 'Opel', make: 'Opel' },
+  YS3: { name: 'Saab', make: 'Saab' },
+  YV1: { name: 'Volvo Cars', make: 'Volvo' },
+  YV4: { name: 'Volvo Cars', make: 'Volvo' },
+  ZAR: { name: 'Alfa Romeo', make: 'Alfa Romeo' },
+  ZFA: { name: 'Fiat', make: 'Fiat' },
+  ZFF: { name: 'Ferrari', make: 'Ferrari' },
+  ZHW: { name: 'Lamborghini', make: 'Lamborghini' },
+  ZAM: { name: 'Maserati', make: 'Maserati' },
+
+  // North America
+  '1C4': { name: 'Chrysler (FCA US)', make: 'Jeep' },
+  '1C6': { name: 'Chrysler (FCA US)', make: 'Ram' },
+  '1FA': { name: 'Ford Motor Company', make: 'Ford' },
+  '1FM': { name: 'Ford Motor Company', make: 'Ford' },
+  '1FT': { name: 'Ford Motor Company', make: 'Ford' },
+  '1G1': { name: 'General Motors', make: 'Chevrolet' },
+  '1GC': { name: 'General Motors', make: 'Chevrolet' },
+  '1GN': { name: 'General Motors', make: 'Chevrolet' },
+  '1GT': { name: 'General Motors', make: 'GMC' },
+  '1G6': { name: 'General Motors', make: 'Cadillac' },
+  '1HG': { name: 'Honda of America', make: 'Honda' },
+  '1J4': { name: 'Chrysler (FCA US)', make: 'Jeep' },
+  '1N4': { name: 'Nissan North America', make: 'Nissan' },
+  '1N6': { name: 'Nissan North America', make: 'Nissan' },
+  '19X': { name: 'Honda of America', make: 'Honda' },
+  '2HG': { name: 'Honda Canada', make: 'Honda' },
+  '2T1': { name: 'Toyota Canada', make: 'Toyota' },
+  '2T3': { name: 'Toyota Canada', make: 'Toyota' },
+  '3FA': { name: 'Ford Mexico', make: 'Ford' },
+  '3N1': { name: 'Nissan Mexico', make: 'Nissan' },
+  '3VW': { name: 'Volkswagen Mexico', make: 'Volkswagen' },
+  '4S3': { name: 'Subaru of Indiana', make: 'Subaru' },
+  '4T1': { name: 'Toyota Kentucky', make: 'Toyota' },
+  '4T3': { name: 'Toyota Kentucky', make: 'Toyota' },
+  '5FN': { name: 'Honda Manufacturing of Alabama', make: 'Honda' },
+  '5NP': { name: 'Hyundai Motor Manufacturing Alabama', make: 'Hyundai' },
+  '5TD': { name: 'Toyota Indiana', make: 'Toyota' },
+  '5TF': { name: 'Toyota Texas', make: 'Toyota' },
+  '5YJ': { name: 'Tesla Inc.', make: 'Tesla' },
+  '7SA': { name: 'Tesla Inc.', make: 'Tesla' },
+}